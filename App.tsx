@@ -1,59 +1,733 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import Scene from './components/Scene';
 import UIControls from './components/UIControls';
 import HandTracker from './components/HandTracker';
-import { ParticleShape } from './types';
+import CapturePanel from './components/CapturePanel';
+import PerformanceStats from './components/PerformanceStats';
+import { ShapeId, ShapeParams, InteractionData, HandFrame, TrackedHand, Attractor, InputMode, InputStatus, InputError, Gesture, GestureEvent, COLOR_PRESETS, createDefaultInteraction } from './types';
+import { createInputSource } from './inputs';
+import { HandTrackingOptions } from './inputs/handLandmarker';
+import { CameraSettings, DEFAULT_CAMERA, listCameras } from './inputs/camera';
+import { FilterSettings } from './utils/handFilter';
+import { MappingBinding } from './utils/mapping';
+import { MorphSettings } from './utils/morph';
+import { RenderStyle } from './utils/renderStyle';
+import { CameraMode, CameraRigHandle, ViewSettings, Viewpoint, createPose, createViewpoint, homePose, loadViewpoints, storeViewpoints, viewpointPose } from './utils/cameraRig';
+import { MultiUserSettings, createCloudHome, createMultiUserController } from './utils/multiUser';
+import { IMAGE_SHAPE_ID, MODEL_SHAPE_ID, ShapeDefinition, TEXT_SHAPE_ID, createImageShape, createModelShape, createTextShape, getShape, listShapes, replaceShape } from './shapes';
+import { createGestureRecognizer, gestureToScene } from './utils/gestures';
+import { SimulationSettings } from './utils/particleSimulation';
+import { ColorMode, ColorStyle } from './utils/colors';
+import { CanvasCapture } from './utils/capture';
+import { AudioAnalyzer, AudioFeatures, AudioMapping, AudioSourceKind, createAudioAnalyzer, createSilentFeatures } from './inputs/audio';
+import { HandSession, SessionRecorder, createSessionRecorder, downloadSession, parseSession } from './utils/handSession';
+import { createDetectionStats } from './utils/trackingDebug';
+import {
+  GOVERNOR_INTERVAL,
+  PerformanceSettings,
+  QUALITY_TIERS,
+  capDetectionRate,
+  createFrameMonitor,
+  createPerformanceGovernor,
+  limitRenderStyle,
+  loadPerformanceSettings,
+  scaleParticleCount,
+  storePerformanceSettings
+} from './utils/performance';
+import { DEFAULT_SCENE_CONFIG, SceneConfig, clearShareHash, loadLastConfig, readShareHash, storeLastConfig } from './utils/presets';
+import {
+  AttractSettings,
+  Easing,
+  KEYFRAME_MORPH_DURATION,
+  Timeline,
+  TimelineKeyframe,
+  TimelinePlayer,
+  createTimelinePlayer,
+  loadAttractSettings,
+  loadTimeline,
+  storeAttractSettings,
+  storeTimeline
+} from './utils/timeline';
 
-export interface InteractionData {
-  scale: number;
-  position: { x: number; y: number };
-  rotation: { x: number; y: number; z: number };
-}
+const cycle = <T,>(list: T[], current: T, step: number): T => {
+  const i = list.indexOf(current);
+  return list[(i + step + list.length) % list.length];
+};
+
+// Text shapes are rebuilt from their source; image and model shapes only exist in the session that loaded them
+const resolveShape = (config: SceneConfig): ShapeId => {
+  if (config.shape === TEXT_SHAPE_ID && config.text !== null) {
+    replaceShape(createTextShape(config.text));
+    return TEXT_SHAPE_ID;
+  }
+  if (getShape(config.shape)) return config.shape;
+  console.warn(`Shape ${config.shape} is not available, using the default`);
+  return DEFAULT_SCENE_CONFIG.shape;
+};
+
+// A shared link wins over whatever was on screen last time
+const getInitialConfig = (): SceneConfig => readShareHash() ?? loadLastConfig() ?? DEFAULT_SCENE_CONFIG;
 
 const App: React.FC = () => {
-  const [currentShape, setCurrentShape] = useState<ParticleShape>(ParticleShape.GALAXY);
-  const [color, setColor] = useState<string>('#4ecdc4');
-  const [isTracking, setIsTracking] = useState<boolean>(false);
-  
-  // Ref to share interaction data between HandTracker and Three.js Loop without re-renders
-  const interactionRef = useRef<InteractionData>({
-    scale: 1.0,
-    position: { x: 0, y: 0 },
-    rotation: { x: 0, y: 0, z: 0 }
-  });
-
-  // Callback for HandTracker to update the ref
+  const [initialConfig] = useState(getInitialConfig);
+  const [currentShape, setCurrentShape] = useState<ShapeId>(() => resolveShape(initialConfig));
+  // The shape the last preset or share link asked for, when it could not be shown
+  const [unavailableShape, setUnavailableShape] = useState<ShapeId | null>(currentShape === initialConfig.shape ? null : initialConfig.shape);
+  const [shapeText, setShapeText] = useState<string | null>(initialConfig.text);
+  const [shapeParams, setShapeParams] = useState<Record<ShapeId, ShapeParams>>(initialConfig.shapeParams);
+  const [shapeRevision, setShapeRevision] = useState<number>(0);
+  // IMAGE_SHAPE_ID or MODEL_SHAPE_ID when the last upload could not be turned into a shape
+  const [customShapeFailed, setCustomShapeFailed] = useState<ShapeId | null>(null);
+  const [color, setColor] = useState<string>(initialConfig.color);
+  const [colorStyle, setColorStyle] = useState<ColorStyle>(initialConfig.colorStyle);
+  const [morph, setMorph] = useState<MorphSettings>(initialConfig.morph);
+  const [renderStyle, setRenderStyle] = useState<RenderStyle>(initialConfig.renderStyle);
+  const [view, setView] = useState<ViewSettings>(initialConfig.view);
+  const [viewpoints, setViewpoints] = useState<Viewpoint[]>(loadViewpoints);
+  const [multiUser, setMultiUser] = useState<MultiUserSettings>(initialConfig.multiUser);
+  const multiUserRef = useRef(multiUser);
+  multiUserRef.current = multiUser;
+  const [cloudsMerged, setCloudsMerged] = useState<boolean>(false);
+  const multiUserControllerRef = useRef(createMultiUserController());
+  const [particleCount, setParticleCount] = useState<number>(initialConfig.particleCount);
+  const [simulation, setSimulation] = useState<SimulationSettings>(initialConfig.simulation);
+  const [inputMode, setInputMode] = useState<InputMode>(InputMode.HANDS);
+  const [inputStatus, setInputStatus] = useState<InputStatus>('initializing');
+  const [inputError, setInputError] = useState<InputError | null>(null);
+  const [handTracking, setHandTracking] = useState<HandTrackingOptions>(initialConfig.handTracking);
+  const [handFilter, setHandFilter] = useState<FilterSettings>(initialConfig.handFilter);
+  const [mapping, setMapping] = useState<MappingBinding[]>(initialConfig.mapping);
+  const mappingRef = useRef(mapping);
+  mappingRef.current = mapping;
+  const handFilterRef = useRef(handFilter);
+  handFilterRef.current = handFilter;
+  const [camera, setCamera] = useState<CameraSettings>({ ...DEFAULT_CAMERA, ...initialConfig.camera });
+  const [cameraPaused, setCameraPaused] = useState<boolean>(false);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [showTrackingDebug, setShowTrackingDebug] = useState<boolean>(false);
+  const [replaySession, setReplaySession] = useState<HandSession | null>(null);
+  const [sessionFailed, setSessionFailed] = useState<boolean>(false);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [lastGesture, setLastGesture] = useState<GestureEvent | null>(null);
+  const recognizerRef = useRef(createGestureRecognizer());
+  const [morphDuration, setMorphDuration] = useState<number | undefined>(undefined);
+  const [timeline, setTimeline] = useState<Timeline>(loadTimeline);
+  const [timelinePlaying, setTimelinePlaying] = useState<boolean>(false);
+  const [attract, setAttract] = useState<AttractSettings>(loadAttractSettings);
+  const [attracting, setAttracting] = useState<boolean>(false);
+  const timelinePlayerRef = useRef<TimelinePlayer | null>(null);
+  const [audioSource, setAudioSource] = useState<AudioSourceKind | null>(null);
+  const [audioFailed, setAudioFailed] = useState<boolean>(false);
+  const [audioMapping, setAudioMapping] = useState<AudioMapping>(initialConfig.audio);
+  const audioMappingRef = useRef(audioMapping);
+  audioMappingRef.current = audioMapping;
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const beatCountRef = useRef(0);
+  const [performanceSettings, setPerformanceSettings] = useState<PerformanceSettings>(loadPerformanceSettings);
+  const performanceLevelRef = useRef(performanceSettings.level);
+  performanceLevelRef.current = performanceSettings.level;
+  // Render and detection rates, read by the governor and the stats overlay
+  const frameMonitorRef = useRef(createFrameMonitor());
+  const detectionStatsRef = useRef(createDetectionStats());
+
+  // Ref to share interaction data between the input source and Three.js Loop without re-renders
+  const interactionRef = useRef<InteractionData>(createDefaultInteraction());
+  // Latest raw hands, used as force points in physics mode
+  const handsRef = useRef<TrackedHand[]>([]);
+  // Firework bursts waiting for the next frame; ignored unless the shape has the fireworks effect
+  const burstRequestsRef = useRef<Attractor['position'][]>([]);
+  // Screenshot / video tools, provided by the Scene once its canvas exists
+  const captureRef = useRef<CanvasCapture | null>(null);
+  // Camera pose and animated moves, provided by the Scene as well
+  const cameraRigRef = useRef<CameraRigHandle | null>(null);
+  const webcamRef = useRef<HTMLVideoElement | null>(null);
+  // Multi-user mode: what drives each cloud. The first cloud reuses interactionRef.
+  const firstCloudHandsRef = useRef<TrackedHand[]>([]);
+  const secondInteractionRef = useRef<InteractionData>(createCloudHome(1));
+  const secondHandsRef = useRef<TrackedHand[]>([]);
+  const secondBurstRequestsRef = useRef<Attractor['position'][]>([]);
+  // Hands split between the clouds only for sources that report hands; others keep driving the first cloud
+  const cloudsFromFrames = multiUser.enabled && (inputMode === InputMode.HANDS || inputMode === InputMode.REPLAY);
+  const cloudsFromFramesRef = useRef(cloudsFromFrames);
+  cloudsFromFramesRef.current = cloudsFromFrames;
+  // Band energies and beats of the active audio source, read by the Scene every frame
+  const audioRef = useRef<AudioFeatures>(createSilentFeatures());
+
+  // Callback for the active input source to update the ref; a playing timeline owns the transform
   const handleInteractionUpdate = useCallback((data: InteractionData) => {
+    if (timelinePlayerRef.current?.isPlaying() || cloudsFromFramesRef.current) return;
     interactionRef.current = data;
   }, []);
 
+  const handleStatus = useCallback((status: InputStatus, error?: InputError) => {
+    setInputStatus(status);
+    setInputError(error ?? null);
+  }, []);
+
+  // Hands-free shortcuts for what the bottom toolbar does
+  const handleGesture = useCallback((event: GestureEvent) => {
+    setLastGesture(event);
+    switch (event.type) {
+      case Gesture.SWIPE_LEFT:
+        setCurrentShape((shape) => cycle(listShapes().map((d) => d.id), shape, -1));
+        break;
+      case Gesture.SWIPE_RIGHT:
+        setCurrentShape((shape) => cycle(listShapes().map((d) => d.id), shape, 1));
+        break;
+      case Gesture.PEACE:
+        setColor((c) => cycle(COLOR_PRESETS, c, 1));
+        break;
+      case Gesture.BURST:
+        burstRequestsRef.current.push(gestureToScene(event));
+        break;
+    }
+  }, []);
+
+  const setShapeParam = useCallback((key: string, value: number) => {
+    setShapeParams((all) => ({
+      ...all,
+      [currentShape]: { ...all[currentShape], [key]: value }
+    }));
+  }, [currentShape]);
+
+  // Text / image / model sources replace their previous version in the registry
+  const applyCustomShape = useCallback((shape: ShapeDefinition) => {
+    replaceShape(shape);
+    setCustomShapeFailed(null);
+    setShapeRevision((r) => r + 1);
+    setCurrentShape(shape.id);
+  }, []);
+
+  const createText = useCallback((text: string) => {
+    applyCustomShape(createTextShape(text));
+    setShapeText(text);
+  }, [applyCustomShape]);
+
+  // Images and models bring their own colours, so show them
+  const loadImageShape = useCallback(async (file: File) => {
+    try {
+      applyCustomShape(await createImageShape(file));
+      setColorStyle((style) => ({ ...style, mode: ColorMode.SHAPE }));
+    } catch (error) {
+      console.error("Image load error:", error);
+      setCustomShapeFailed(IMAGE_SHAPE_ID);
+    }
+  }, [applyCustomShape]);
+
+  const loadModelShape = useCallback(async (file: File) => {
+    try {
+      applyCustomShape(await createModelShape(file));
+      setColorStyle((style) => ({ ...style, mode: ColorMode.SHAPE }));
+    } catch (error) {
+      console.error("Model load error:", error);
+      setCustomShapeFailed(MODEL_SHAPE_ID);
+    }
+  }, [applyCustomShape]);
+
+  // Everything a preset or share link restores
+  const sceneConfig = useMemo((): SceneConfig => ({
+    shape: currentShape,
+    text: currentShape === TEXT_SHAPE_ID ? shapeText : null,
+    shapeParams,
+    color,
+    colorStyle,
+    morph,
+    renderStyle,
+    view,
+    particleCount,
+    simulation,
+    handTracking,
+    handFilter,
+    camera: { width: camera.width, height: camera.height, frameRate: camera.frameRate },
+    audio: audioMapping,
+    mapping,
+    multiUser
+  }), [currentShape, shapeText, shapeParams, color, colorStyle, morph, renderStyle, view, particleCount, simulation, handTracking, handFilter, camera, audioMapping, mapping, multiUser]);
+
+  const applySceneConfig = useCallback((config: SceneConfig) => {
+    const shape = resolveShape(config);
+    setUnavailableShape(shape === config.shape ? null : config.shape);
+    if (shape === TEXT_SHAPE_ID) {
+      setShapeText(config.text);
+      setShapeRevision((r) => r + 1);
+    }
+    setCurrentShape(shape);
+    setShapeParams(config.shapeParams);
+    setColor(config.color);
+    setColorStyle(config.colorStyle);
+    setMorph(config.morph);
+    setRenderStyle(config.renderStyle);
+    setView(config.view);
+    setParticleCount(config.particleCount);
+    setSimulation(config.simulation);
+    setHandTracking(config.handTracking);
+    setHandFilter(config.handFilter);
+    setAudioMapping(config.audio);
+    setMapping(config.mapping);
+    setMultiUser(config.multiUser);
+    // Keep the chosen device, and do not reopen the camera when the format did not change
+    setCamera((current) =>
+      current.width === config.camera.width && current.height === config.camera.height && current.frameRate === config.camera.frameRate
+        ? current
+        : { ...current, ...config.camera }
+    );
+  }, []);
+
+  // Survive reloads; debounced so dragging a slider does not hammer localStorage
+  useEffect(() => {
+    const timer = setTimeout(() => storeLastConfig(sceneConfig), 500);
+    return () => clearTimeout(timer);
+  }, [sceneConfig]);
+
+  // The hash has been applied by now; links pasted into an open tab apply on the fly
+  useEffect(() => {
+    if (readShareHash()) clearShareHash();
+
+    const handleHashChange = () => {
+      const shared = readShareHash();
+      if (!shared) return;
+      applySceneConfig(shared);
+      clearShareHash();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [applySceneConfig]);
+
+  // Timeline player: keyframes set the same state as the toolbar, transforms go straight to the scene
+  useEffect(() => {
+    const player = createTimelinePlayer();
+    player.start({
+      onKeyframe: (keyframe) => {
+        if (getShape(keyframe.shape)) setCurrentShape(keyframe.shape);
+        setColor(keyframe.color);
+        setMorphDuration(keyframe.morphDuration);
+      },
+      onTransform: (data) => {
+        interactionRef.current = data;
+      },
+      onPlayingChange: (playing) => {
+        setTimelinePlaying(playing);
+        if (!playing) {
+          setAttracting(false);
+          setMorphDuration(undefined);
+        }
+      }
+    });
+    timelinePlayerRef.current = player;
+    return () => {
+      player.stop();
+      timelinePlayerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    timelinePlayerRef.current?.setTimeline(timeline);
+    storeTimeline(timeline);
+  }, [timeline]);
+
+  useEffect(() => {
+    storeAttractSettings(attract);
+  }, [attract]);
+
+  const createKeyframe = useCallback((time: number): TimelineKeyframe => {
+    // Keyframes hold the transform only; mapped extras (hue, size...) stay with the live input
+    const { timestamp: _, params: __, ...transform } = interactionRef.current;
+    return { time, shape: currentShape, color, transform, morphDuration: morphDuration ?? KEYFRAME_MORPH_DURATION, easing: Easing.EASE_IN_OUT };
+  }, [currentShape, color, morphDuration]);
+
+  // Attract mode: nobody in front of the camera for a while starts the timeline,
+  // the first detected hand stops it and hands control back to the tracker
+  const idle = attract.enabled && inputMode === InputMode.HANDS && inputStatus !== 'active';
+  useEffect(() => {
+    if (!idle) return;
+    const timer = setTimeout(() => {
+      timelinePlayerRef.current?.play();
+      setAttracting(true);
+    }, attract.delay * 1000);
+    return () => clearTimeout(timer);
+  }, [idle, attract.delay]);
+
+  useEffect(() => {
+    if (idle || !attracting) return;
+    timelinePlayerRef.current?.pause();
+    interactionRef.current = createDefaultInteraction();
+  }, [idle, attracting]);
+
+  // Audio analysis runs next to whatever input drives the cloud
+  useEffect(() => {
+    const analyzer = createAudioAnalyzer({
+      onFeatures: (features) => {
+        audioRef.current = features;
+      },
+      onBeat: () => {
+        const { beatsPerShape } = audioMappingRef.current;
+        if (beatsPerShape === 0) return;
+        beatCountRef.current += 1;
+        if (beatCountRef.current % beatsPerShape === 0) {
+          setCurrentShape((shape) => cycle(listShapes().map((d) => d.id), shape, 1));
+        }
+      }
+    });
+    analyzerRef.current = analyzer;
+    return () => {
+      analyzer.stop();
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  const startAudio = useCallback(async (kind: AudioSourceKind, start: (analyzer: AudioAnalyzer) => Promise<void>) => {
+    const analyzer = analyzerRef.current;
+    if (!analyzer) return;
+    try {
+      await start(analyzer);
+      setAudioSource(kind);
+      setAudioFailed(false);
+    } catch (error) {
+      console.error("Audio input error:", error);
+      analyzer.stop();
+      setAudioSource(null);
+      setAudioFailed(true);
+    }
+  }, []);
+
+  const startMicrophone = useCallback(() => {
+    startAudio('microphone', (analyzer) => analyzer.startMicrophone());
+  }, [startAudio]);
+
+  const loadAudioFile = useCallback((file: File) => {
+    startAudio('file', (analyzer) => analyzer.startFile(file));
+  }, [startAudio]);
+
+  const stopAudio = useCallback(() => {
+    analyzerRef.current?.stop();
+    setAudioSource(null);
+  }, []);
+
+  // Sessions hold what the detector saw; replay runs it through the hand filter again
+  const handleRawFrame = useCallback((frame: HandFrame) => {
+    recorderRef.current?.add(frame);
+  }, []);
+
+  const handleFrame = useCallback((frame: HandFrame) => {
+    handsRef.current = frame.hands;
+    detectionStatsRef.current.add(frame);
+    if (cloudsFromFramesRef.current) {
+      const clouds = multiUserControllerRef.current.update(frame.hands, frame.timestamp, mappingRef.current, multiUserRef.current);
+      if (!timelinePlayerRef.current?.isPlaying()) interactionRef.current = clouds.interactions[0];
+      secondInteractionRef.current = clouds.interactions[1];
+      firstCloudHandsRef.current = clouds.hands[0];
+      secondHandsRef.current = clouds.hands[1];
+      setCloudsMerged(clouds.merged);
+    }
+    recognizerRef.current.update(frame).forEach(handleGesture);
+  }, [handleGesture]);
+
+  useEffect(() => {
+    storePerformanceSettings(performanceSettings);
+  }, [performanceSettings]);
+
+  useEffect(() => {
+    const monitor = frameMonitorRef.current;
+    monitor.start();
+    return () => monitor.stop();
+  }, []);
+
+  // Auto quality: steps one tier at a time towards the target frame rate. It starts from
+  // the stored tier, so a device that settled somewhere starts there next time.
+  const { auto: autoQuality, targetFps } = performanceSettings;
+  useEffect(() => {
+    if (!autoQuality) return;
+    const governor = createPerformanceGovernor(performanceLevelRef.current);
+    const timer = setInterval(() => {
+      if (document.hidden) return;
+      // Video recording drives the render loop itself; its frame times say nothing about the device
+      if (captureRef.current?.isRecording()) {
+        governor.hold();
+        return;
+      }
+      const level = governor.update(frameMonitorRef.current.read(), targetFps);
+      if (level !== performanceLevelRef.current) {
+        setPerformanceSettings((settings) => ({ ...settings, level }));
+      }
+    }, GOVERNOR_INTERVAL);
+    return () => clearInterval(timer);
+  }, [autoQuality, targetFps]);
+
+  const quality = QUALITY_TIERS[performanceSettings.level];
+  // The tier scales what is configured; presets and share links keep the configured count
+  const clouds = multiUser.enabled ? 2 : 1;
+  const renderedParticleCount = scaleParticleCount(particleCount, quality, clouds);
+  const trackingOptions = useMemo((): HandTrackingOptions => ({
+    ...handTracking,
+    detectionRate: capDetectionRate(handTracking.detectionRate, quality)
+  }), [handTracking, quality]);
+  const activeRenderStyle = useMemo(() => limitRenderStyle(renderStyle, quality), [renderStyle, quality]);
+
+  useEffect(() => {
+    storeViewpoints(viewpoints);
+  }, [viewpoints]);
+
+  const saveViewpoint = useCallback((name: string) => {
+    const rig = cameraRigRef.current;
+    if (!rig) return;
+    setViewpoints((list) => [...list, createViewpoint(name, rig.getPose())]);
+  }, []);
+
+  // The automatic modes would take the camera straight back, so jumping somewhere hands it to free orbit
+  const leaveAutomaticCamera = useCallback(() => {
+    setView((current) =>
+      current.mode === CameraMode.GESTURE || current.mode === CameraMode.TOUR ? { ...current, mode: CameraMode.ORBIT } : current
+    );
+  }, []);
+
+  const goToViewpoint = useCallback((viewpoint: Viewpoint) => {
+    cameraRigRef.current?.goTo(viewpointPose(viewpoint, createPose()));
+    leaveAutomaticCamera();
+  }, [leaveAutomaticCamera]);
+
+  const resetView = useCallback(() => {
+    cameraRigRef.current?.goTo(homePose(createPose()));
+    leaveAutomaticCamera();
+  }, [leaveAutomaticCamera]);
+
+  // Gesture badge fades after a moment
+  useEffect(() => {
+    if (!lastGesture) return;
+    const timer = setTimeout(() => setLastGesture(null), 1500);
+    return () => clearTimeout(timer);
+  }, [lastGesture]);
+
+  const stopRecording = useCallback(() => {
+    if (!recorderRef.current) return;
+    const session = recorderRef.current.finish();
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (session.frames.length > 0) {
+      downloadSession(session);
+    }
+  }, []);
+
+  const toggleRecording = useCallback(() => {
+    if (recorderRef.current) {
+      stopRecording();
+    } else {
+      recorderRef.current = createSessionRecorder();
+      setIsRecording(true);
+    }
+  }, [stopRecording]);
+
+  const loadSession = useCallback(async (file: File) => {
+    try {
+      setReplaySession(parseSession(await file.text()));
+      setInputMode(InputMode.REPLAY);
+      setSessionFailed(false);
+    } catch (error) {
+      console.error("Invalid session file:", error);
+      setSessionFailed(true);
+    }
+  }, []);
+
+  // Recording only makes sense while the webcam is live
+  useEffect(() => {
+    if (inputMode !== InputMode.HANDS) stopRecording();
+  }, [inputMode, stopRecording]);
+
+  // Reset to the neutral pose whenever the input source changes
+  useEffect(() => {
+    interactionRef.current = createDefaultInteraction();
+    handsRef.current = [];
+    recognizerRef.current.reset();
+    handleStatus('initializing');
+    setCameraPaused(false);
+
+    if (inputMode === InputMode.HANDS) return;
+
+    const source = createInputSource(inputMode, replaySession, () => mappingRef.current, () => handFilterRef.current);
+    source.start({ onInteraction: handleInteractionUpdate, onStatus: handleStatus, onFrame: handleFrame });
+
+    return () => {
+      source.stop();
+    };
+  }, [inputMode, replaySession, handleInteractionUpdate, handleStatus, handleFrame]);
+
+  // Entering or leaving multi-user mode sends the clouds back to their resting places
+  useEffect(() => {
+    multiUserControllerRef.current.reset();
+    if (cloudsFromFrames) interactionRef.current = createCloudHome(0);
+    secondInteractionRef.current = createCloudHome(1);
+    firstCloudHandsRef.current = [];
+    secondHandsRef.current = [];
+    setCloudsMerged(false);
+  }, [cloudsFromFrames]);
+
+  // Camera list for the picker; labels only show up once access was granted,
+  // so refresh whenever the camera status changes and when devices come and go
+  const cameraReady = inputMode === InputMode.HANDS && (inputStatus === 'searching' || inputStatus === 'active');
+  useEffect(() => {
+    if (inputMode !== InputMode.HANDS) return;
+
+    const refresh = () => {
+      listCameras().then(setCameras).catch((error) => console.error("Camera list error:", error));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [inputMode, cameraReady]);
+
   return (
     <div className="relative w-full h-screen overflow-hidden bg-black text-white font-sans selection:bg-cyan-500/30">
-      
+
       {/* 3D Scene Background */}
-      <Scene 
-        currentShape={currentShape} 
-        color={color} 
+      <Scene
+        currentShape={currentShape}
+        shapeParams={shapeParams[currentShape]}
+        shapeRevision={shapeRevision}
+        color={color}
+        colorStyle={colorStyle}
+        particleCount={renderedParticleCount}
         interactionRef={interactionRef}
+        handsRef={cloudsFromFrames ? firstCloudHandsRef : handsRef}
+        simulation={simulation}
+        burstRequestsRef={burstRequestsRef}
+        morph={morph}
+        morphDuration={morphDuration}
+        audioRef={audioRef}
+        audioMapping={audioMapping}
+        mapping={mapping}
+        secondCloud={multiUser.enabled ? {
+          // Merged clouds take on the first cloud's shape until they are pulled apart
+          currentShape: cloudsMerged ? currentShape : multiUser.shape,
+          shapeParams: shapeParams[cloudsMerged ? currentShape : multiUser.shape],
+          color: multiUser.color,
+          interactionRef: secondInteractionRef,
+          handsRef: secondHandsRef,
+          burstRequestsRef: secondBurstRequestsRef
+        } : undefined}
+        orbitEnabled={inputMode !== InputMode.POINTER}
+        captureRef={captureRef}
+        quality={quality}
+        additive={quality.additive}
+        renderStyle={activeRenderStyle}
+        view={view}
+        viewpoints={viewpoints}
+        cameraRigRef={cameraRigRef}
       />
 
       {/* UI Overlay */}
-      <UIControls 
-        currentShape={currentShape} 
-        setShape={setCurrentShape} 
-        color={color} 
+      <UIControls
+        currentShape={currentShape}
+        setShape={setCurrentShape}
+        shapeParams={shapeParams[currentShape]}
+        setShapeParam={setShapeParam}
+        onCreateText={createText}
+        onLoadImage={loadImageShape}
+        onLoadModel={loadModelShape}
+        customShapeFailed={customShapeFailed}
+        color={color}
         setColor={setColor}
-        isTracking={isTracking}
+        colorStyle={colorStyle}
+        setColorStyle={setColorStyle}
+        morph={morph}
+        setMorph={setMorph}
+        multiUser={multiUser}
+        setMultiUser={setMultiUser}
+        particleCount={particleCount}
+        setParticleCount={setParticleCount}
+        simulation={simulation}
+        setSimulation={setSimulation}
+        inputMode={inputMode}
+        setInputMode={setInputMode}
+        inputStatus={inputStatus}
+        inputError={inputError}
+        cameras={cameras}
+        camera={camera}
+        setCamera={setCamera}
+        cameraPaused={cameraPaused}
+        setCameraPaused={setCameraPaused}
+        showTrackingDebug={showTrackingDebug}
+        setShowTrackingDebug={setShowTrackingDebug}
+        handTracking={handTracking}
+        setHandTracking={setHandTracking}
+        handFilter={handFilter}
+        setHandFilter={setHandFilter}
+        isRecording={isRecording}
+        onToggleRecording={toggleRecording}
+        onLoadSession={loadSession}
+        sessionFailed={sessionFailed}
+        lastGesture={lastGesture}
+        sceneConfig={sceneConfig}
+        onApplyConfig={applySceneConfig}
+        unavailableShape={unavailableShape}
+        timelinePlayerRef={timelinePlayerRef}
+        timeline={timeline}
+        setTimeline={setTimeline}
+        timelinePlaying={timelinePlaying}
+        attract={attract}
+        setAttract={setAttract}
+        attracting={attracting}
+        createKeyframe={createKeyframe}
+        audioRef={audioRef}
+        audioSource={audioSource}
+        audioFailed={audioFailed}
+        onStartMicrophone={startMicrophone}
+        onLoadAudioFile={loadAudioFile}
+        onStopAudio={stopAudio}
+        audioMapping={audioMapping}
+        setAudioMapping={setAudioMapping}
+        mapping={mapping}
+        setMapping={setMapping}
+        handsRef={handsRef}
+        performanceSettings={performanceSettings}
+        setPerformanceSettings={setPerformanceSettings}
+        renderStyle={renderStyle}
+        setRenderStyle={setRenderStyle}
+        effectsAvailable={quality.effects}
+        view={view}
+        setView={setView}
+        viewpoints={viewpoints}
+        setViewpoints={setViewpoints}
+        onSaveViewpoint={saveViewpoint}
+        onGoToViewpoint={goToViewpoint}
+        onResetView={resetView}
       />
 
-      {/* Logic / Sensing */}
-      <HandTracker 
-        onInteractionUpdate={handleInteractionUpdate} 
-        setIsTracking={setIsTracking}
+      <CapturePanel
+        captureRef={captureRef}
+        webcamRef={webcamRef}
+        webcamAvailable={cameraReady}
       />
-      
+
+      {performanceSettings.showStats && (
+        <PerformanceStats
+          frameMonitorRef={frameMonitorRef}
+          detectionStatsRef={detectionStatsRef}
+          level={performanceSettings.level}
+          tier={quality}
+          particleCount={renderedParticleCount * clouds}
+          targetFps={performanceSettings.targetFps}
+        />
+      )}
+
+      {/* Logic / Sensing */}
+      {inputMode === InputMode.HANDS && (
+        <HandTracker
+          onInteraction={handleInteractionUpdate}
+          onStatus={handleStatus}
+          onFrame={handleFrame}
+          onRawFrame={handleRawFrame}
+          options={trackingOptions}
+          camera={camera}
+          filter={handFilter}
+          mapping={mapping}
+          paused={cameraPaused}
+          debug={showTrackingDebug}
+          previewRef={webcamRef}
+        />
+      )}
+
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioLines, Mic, Music, Square } from 'lucide-react';
+import {
+  AudioFeatures,
+  AudioMapping,
+  AudioSourceKind,
+  BEATS_PER_SHAPE_OPTIONS,
+  beatPulse,
+  createSilentFeatures
+} from '../inputs/audio';
+import { MessageKey, useI18n } from '../i18n';
+
+interface AudioPanelProps {
+  audioRef: React.MutableRefObject<AudioFeatures>;
+  source: AudioSourceKind | null;
+  failed: boolean;
+  onStartMicrophone: () => void;
+  onLoadFile: (file: File) => void;
+  onStop: () => void;
+  mapping: AudioMapping;
+  setMapping: (mapping: AudioMapping) => void;
+}
+
+const MAPPING_SLIDERS: { key: Exclude<keyof AudioMapping, 'beatsPerShape'>; label: MessageKey; title: MessageKey }[] = [
+  { key: 'scale', label: 'audio.scale', title: 'audio.scaleHint' },
+  { key: 'breathing', label: 'audio.breathing', title: 'audio.breathingHint' },
+  { key: 'turbulence', label: 'audio.turbulence', title: 'audio.turbulenceHint' },
+  { key: 'color', label: 'audio.color', title: 'audio.colorHint' }
+];
+
+const METERS: { key: 'bass' | 'mid' | 'treble'; label: MessageKey }[] = [
+  { key: 'bass', label: 'audio.bass' },
+  { key: 'mid', label: 'audio.mid' },
+  { key: 'treble', label: 'audio.treble' }
+];
+
+const AudioPanel: React.FC<AudioPanelProps> = ({
+  audioRef,
+  source,
+  failed,
+  onStartMicrophone,
+  onLoadFile,
+  onStop,
+  mapping,
+  setMapping
+}) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [features, setFeatures] = useState<AudioFeatures>(createSilentFeatures);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Level meters, refreshed while the panel is open and something is playing
+  useEffect(() => {
+    if (!open || !source) return;
+    const timer = setInterval(() => setFeatures(audioRef.current), 66);
+    return () => clearInterval(timer);
+  }, [open, source, audioRef]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onLoadFile(file);
+    e.target.value = '';
+  };
+
+  const beat = source !== null && beatPulse(features, performance.now()) > 0.3;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <AudioLines size={16} className={source ? 'text-cyan-400' : ''} />
+        {t('audio.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-72 bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-3 text-xs text-gray-400">
+          {/* Source */}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onStartMicrophone}
+              className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg transition-all ${
+                source === 'microphone' ? 'bg-cyan-500/80 text-white' : 'text-gray-300 hover:text-white hover:bg-white/5'
+              }`}
+              title={t('audio.microphoneHint')}
+            >
+              <Mic size={14} />
+              {t('audio.microphone')}
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg transition-all ${
+                source === 'file' ? 'bg-cyan-500/80 text-white' : 'text-gray-300 hover:text-white hover:bg-white/5'
+              }`}
+              title={t('audio.fileHint')}
+            >
+              <Music size={14} />
+              {t('audio.file')}
+            </button>
+            {source && (
+              <button
+                onClick={onStop}
+                className="ml-auto p-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-all"
+                title={t('common.stop')}
+              >
+                <Square size={14} />
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFile} />
+          </div>
+          {failed && <p className="text-red-400">{t('audio.failed')}</p>}
+
+          {/* Meters */}
+          {source && (
+            <div className="flex items-end gap-2 h-10">
+              {METERS.map(({ key, label }) => (
+                <div key={key} className="flex flex-col items-center gap-1 flex-1 h-full justify-end">
+                  <div className="w-full bg-cyan-400/70 rounded-sm" style={{ height: `${features[key] * 100}%` }} />
+                  <span>{t(label)}</span>
+                </div>
+              ))}
+              <div className={`w-3 h-3 rounded-full mb-4 ${beat ? 'bg-pink-400' : 'bg-white/10'}`} title={t('audio.beat')} />
+            </div>
+          )}
+
+          {/* Mapping */}
+          {MAPPING_SLIDERS.map(({ key, label, title }) => (
+            <label key={key} className="flex items-center justify-between gap-2" title={t(title)}>
+              {t(label)}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={mapping[key]}
+                onChange={(e) => setMapping({ ...mapping, [key]: Number(e.target.value) })}
+                className="w-32 accent-cyan-400"
+              />
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-2" title={t('audio.beatsPerShapeHint')}>
+            {t('audio.beatsPerShape')}
+            <select
+              value={mapping.beatsPerShape}
+              onChange={(e) => setMapping({ ...mapping, beatsPerShape: Number(e.target.value) })}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer"
+            >
+              {BEATS_PER_SHAPE_OPTIONS.map((beats) => (
+                <option key={beats} value={beats} className="bg-gray-900">{beats === 0 ? t('common.off') : t('audio.everyBeats', { beats })}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioPanel;
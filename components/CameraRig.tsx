@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { InteractionData, createDefaultInteraction } from '../types';
+import { createInteractionInterpolator } from '../utils/interpolation';
+import { Easing, ease } from '../utils/timeline';
+import {
+  CameraMode,
+  CameraRigHandle,
+  ORBIT_DISTANCE_RANGE,
+  TRANSITION_DURATION,
+  TourPath,
+  ViewSettings,
+  Viewpoint,
+  blendPoses,
+  copyPose,
+  createPose,
+  gesturePose,
+  homePose,
+  orbitTourPose,
+  resolveTourPath,
+  viewpointTourPose
+} from '../utils/cameraRig';
+
+interface CameraRigProps {
+  view: ViewSettings;
+  viewpoints: Viewpoint[];
+  interactionRef: React.MutableRefObject<InteractionData>;  // moves the camera in GESTURE mode
+  controlsEnabled: boolean;  // off while the pointer drives the cloud
+  rigRef: React.MutableRefObject<CameraRigHandle | null>;
+}
+
+// Seconds the camera takes to catch up with a gesture; steadier than the cloud, as a moving camera moves everything
+const GESTURE_SMOOTHING = 0.3;
+
+// Owns the camera. OrbitControls drive it in the free modes (CLOUD, ORBIT);
+// GESTURE, TOUR and every transition set it here, with the controls switched off.
+const CameraRig: React.FC<CameraRigProps> = ({ view, viewpoints, interactionRef, controlsEnabled, rigRef }) => {
+  const camera = useThree((state) => state.camera);
+  const controlsRef = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const interpolator = useMemo(() => createInteractionInterpolator(), []);
+
+  // Pose as of the last frame, where the camera is headed and where the current transition started
+  const current = useMemo(() => {
+    const pose = createPose();
+    pose.position.copy(camera.position);
+    return pose;
+  }, [camera]);
+  const goal = useMemo(createPose, []);
+  const start = useMemo(createPose, []);
+  const transitionRef = useRef<number | null>(null);  // seconds into the transition, null when there is none
+  // The free modes fly to a fixed goal (home, a viewpoint) before handing the camera back to the controls
+  const pendingGoalRef = useRef(false);
+  const tourTimeRef = useRef(0);
+  const gestureRef = useRef<InteractionData>(createDefaultInteraction());
+
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const viewpointsRef = useRef(viewpoints);
+  viewpointsRef.current = viewpoints;
+  const controlsEnabledRef = useRef(controlsEnabled);
+  controlsEnabledRef.current = controlsEnabled;
+
+  const startTransition = () => {
+    copyPose(current, start);
+    transitionRef.current = 0;
+  };
+
+  // For the free modes; the caller sets `goal`
+  const flyTo = () => {
+    startTransition();
+    pendingGoalRef.current = true;
+  };
+
+  useEffect(() => {
+    rigRef.current = {
+      getPose: () => copyPose(current, createPose()),
+      goTo: (pose) => {
+        flyTo();
+        copyPose(pose, goal);
+      }
+    };
+    return () => {
+      rigRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rigRef, current, goal]);
+
+  // Every mode starts with a transition from wherever the camera is
+  const tourPath = resolveTourPath(view.tourPath, viewpoints);
+  useEffect(() => {
+    switch (view.mode) {
+      case CameraMode.CLOUD:
+        // Zoom and pan are off here, so start from the original view
+        flyTo();
+        homePose(goal);
+        break;
+      case CameraMode.ORBIT:
+        // Stays where it is, only levelled; unless goTo() is already on its way somewhere
+        if (!pendingGoalRef.current) {
+          flyTo();
+          copyPose(current, goal).roll = 0;
+        }
+        break;
+      case CameraMode.GESTURE:
+        pendingGoalRef.current = false;
+        gestureRef.current = createDefaultInteraction();
+        startTransition();
+        break;
+      case CameraMode.TOUR:
+        pendingGoalRef.current = false;
+        tourTimeRef.current = 0;
+        startTransition();
+        break;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view.mode, tourPath]);
+
+  useFrame((_, delta) => {
+    const { mode, tourSpeed } = viewRef.current;
+    const controls = controlsRef.current;
+    const free = mode === CameraMode.CLOUD || mode === CameraMode.ORBIT;
+
+    if (mode === CameraMode.GESTURE) {
+      // Same interpolation and easing as the cloud gets, into the camera pose that shows the same view
+      interpolator.push(interactionRef.current, performance.now());
+      const target = interpolator.sample(performance.now());
+      const smoothed = gestureRef.current;
+      const follow = 1 - Math.exp(-delta / GESTURE_SMOOTHING);
+      smoothed.scale = THREE.MathUtils.lerp(smoothed.scale, target.scale, follow);
+      smoothed.position.x = THREE.MathUtils.lerp(smoothed.position.x, target.position.x, follow);
+      smoothed.position.y = THREE.MathUtils.lerp(smoothed.position.y, target.position.y, follow);
+      smoothed.rotation.x = THREE.MathUtils.lerp(smoothed.rotation.x, target.rotation.x, follow);
+      smoothed.rotation.y = THREE.MathUtils.lerp(smoothed.rotation.y, target.rotation.y, follow);
+      smoothed.rotation.z = THREE.MathUtils.lerp(smoothed.rotation.z, target.rotation.z, follow);
+      gesturePose(smoothed, goal);
+    } else if (mode === CameraMode.TOUR) {
+      tourTimeRef.current += delta * tourSpeed;
+      const shown = viewpointsRef.current;
+      if (resolveTourPath(viewRef.current.tourPath, shown) === TourPath.VIEWPOINTS) {
+        viewpointTourPose(shown, tourTimeRef.current, goal);
+      } else {
+        orbitTourPose(tourTimeRef.current, goal);
+      }
+    } else if (!pendingGoalRef.current) {
+      // The controls have the camera
+      transitionRef.current = null;
+      current.position.copy(camera.position);
+      if (controls) current.target.copy(controls.target);
+      current.roll = 0;
+      if (controls) controls.enabled = controlsEnabledRef.current;
+      return;
+    }
+
+    let progress = 1;
+    if (transitionRef.current !== null) {
+      transitionRef.current += delta;
+      progress = Math.min(transitionRef.current / TRANSITION_DURATION, 1);
+    }
+    if (progress < 1) {
+      blendPoses(start, goal, ease(Easing.EASE_IN_OUT, progress), current);
+    } else {
+      transitionRef.current = null;
+      copyPose(goal, current);
+    }
+
+    camera.position.copy(current.position);
+    camera.lookAt(current.target);
+    camera.rotateZ(current.roll);
+
+    // Arrived: the controls take over from here, around the same target
+    if (free && transitionRef.current === null) {
+      pendingGoalRef.current = false;
+      if (controls) {
+        controls.target.copy(current.target);
+        controls.update();
+      }
+    }
+    if (controls) controls.enabled = false;
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      enableZoom={view.mode === CameraMode.ORBIT}
+      enablePan={view.mode === CameraMode.ORBIT}
+      minDistance={ORBIT_DISTANCE_RANGE.min}
+      maxDistance={ORBIT_DISTANCE_RANGE.max}
+      autoRotate={false}
+    />
+  );
+};
+
+export default CameraRig;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Camera, Clapperboard, Square, Video, Webcam } from 'lucide-react';
+import {
+  CanvasCapture,
+  OFFLINE_DURATION_OPTIONS,
+  RECORDING_FPS_OPTIONS,
+  SCREENSHOT_SIZES,
+  isRecordingSupported
+} from '../utils/capture';
+import { downloadBlob, timestampedName } from '../utils/download';
+import { MessageKey, useI18n } from '../i18n';
+
+interface CapturePanelProps {
+  captureRef: React.MutableRefObject<CanvasCapture | null>;
+  webcamRef: React.MutableRefObject<HTMLVideoElement | null>;
+  webcamAvailable: boolean;
+}
+
+type CaptureStatus = 'idle' | 'recording' | 'rendering';
+
+const CapturePanel: React.FC<CapturePanelProps> = ({ captureRef, webcamRef, webcamAvailable }) => {
+  const { t, label } = useI18n();
+  const [sizeIndex, setSizeIndex] = useState(0);
+  const [fps, setFps] = useState(RECORDING_FPS_OPTIONS[0]);
+  const [duration, setDuration] = useState(OFFLINE_DURATION_OPTIONS[0]);
+  const [withWebcam, setWithWebcam] = useState(false);
+  const [status, setStatus] = useState<CaptureStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [failed, setFailed] = useState<MessageKey | null>(null);
+  const canRecord = isRecordingSupported();
+
+  const webcam = () => (withWebcam && webcamAvailable ? webcamRef.current : null);
+
+  const takeScreenshot = async () => {
+    if (!captureRef.current) return;
+    setFailed(null);
+    try {
+      const blob = await captureRef.current.screenshot(SCREENSHOT_SIZES[sizeIndex], webcam());
+      downloadBlob(blob, timestampedName('particles', 'png'));
+    } catch (error) {
+      console.error("Screenshot error:", error);
+      setFailed('capture.screenshotFailed');
+    }
+  };
+
+  const toggleRecording = async () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    setFailed(null);
+    try {
+      if (status === 'idle') {
+        capture.startRecording({ fps, webcam: webcam() });
+        setStatus('recording');
+      } else if (status === 'recording') {
+        setStatus('idle');
+        downloadBlob(await capture.stopRecording(), timestampedName('particles', 'webm'));
+      } else {
+        // Offline render saves whatever it has so far once it notices
+        await capture.stopRecording();
+      }
+    } catch (error) {
+      console.error("Recording error:", error);
+      setFailed('capture.recordingFailed');
+      setStatus('idle');
+    }
+  };
+
+  const renderOffline = async () => {
+    const capture = captureRef.current;
+    if (!capture || status !== 'idle') return;
+    setStatus('rendering');
+    setProgress(0);
+    setFailed(null);
+    try {
+      const blob = await capture.renderOffline({ fps, duration, webcam: webcam() }, setProgress);
+      downloadBlob(blob, timestampedName('particles', 'webm'));
+    } catch (error) {
+      console.error("Offline render error:", error);
+      setFailed('capture.recordingFailed');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const buttonClass = 'p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all disabled:opacity-30';
+  const selectClass = 'bg-transparent text-xs text-gray-300 outline-none cursor-pointer';
+
+  return (
+    <div className="absolute top-24 right-6 z-10 bg-black/40 backdrop-blur-md p-2 rounded-2xl border border-white/10 flex flex-col gap-1 text-white">
+      {/* Screenshot */}
+      <div className="flex items-center gap-1">
+        <button onClick={takeScreenshot} className={buttonClass} title={t('capture.screenshot')} aria-label={t('capture.screenshot')}>
+          <Camera size={16} />
+        </button>
+        <select
+          value={sizeIndex}
+          onChange={(e) => setSizeIndex(Number(e.target.value))}
+          className={selectClass}
+          aria-label={t('capture.screenshotSize')}
+        >
+          {SCREENSHOT_SIZES.map((size, i) => (
+            <option key={size.label} value={i} className="bg-gray-900">{label(size.label)}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Live recording */}
+      <div className="flex items-center gap-1">
+        <button
+          onClick={toggleRecording}
+          disabled={!canRecord}
+          className={status === 'idle' ? buttonClass : 'p-2 rounded-lg bg-red-500/80 text-white animate-pulse'}
+          title={t(status === 'idle' ? 'capture.record' : 'common.stopAndSave')}
+          aria-label={t(status === 'idle' ? 'capture.record' : 'common.stopAndSave')}
+        >
+          {status === 'idle' ? <Video size={16} /> : <Square size={16} className="fill-current" />}
+        </button>
+        <select
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+          disabled={status !== 'idle'}
+          className={selectClass}
+          aria-label={t('capture.frameRate')}
+        >
+          {RECORDING_FPS_OPTIONS.map((option) => (
+            <option key={option} value={option} className="bg-gray-900">{option} fps</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Offline, fixed-timestep render */}
+      <div className="flex items-center gap-1">
+        <button
+          onClick={renderOffline}
+          disabled={!canRecord || status !== 'idle'}
+          className={buttonClass}
+          title={t('capture.offline')}
+          aria-label={t('capture.offline')}
+        >
+          <Clapperboard size={16} />
+        </button>
+        {status === 'rendering' ? (
+          <span className="text-xs text-cyan-300 tabular-nums">{Math.round(progress * 100)}%</span>
+        ) : (
+          <select
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            disabled={status !== 'idle'}
+            className={selectClass}
+            aria-label={t('capture.offlineDuration')}
+          >
+            {OFFLINE_DURATION_OPTIONS.map((option) => (
+              <option key={option} value={option} className="bg-gray-900">{t('common.seconds', { seconds: option })}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {webcamAvailable && (
+        <button
+          onClick={() => setWithWebcam((on) => !on)}
+          disabled={status !== 'idle'}
+          className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-xs transition-all ${
+            withWebcam ? 'bg-cyan-500/80 text-white' : 'text-gray-400 hover:text-white hover:bg-white/5'
+          }`}
+          title={t('capture.webcamHint')}
+        >
+          <Webcam size={14} />
+          {t('capture.webcam')}
+        </button>
+      )}
+
+      {failed && <p className="max-w-[160px] px-2 py-1 text-xs text-red-400">{t(failed)}</p>}
+    </div>
+  );
+};
+
+export default CapturePanel;
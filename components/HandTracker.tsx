@@ -1,165 +1,132 @@
-import React, { useEffect, useRef } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { InteractionData } from '../App';
+import React, { useEffect, useRef, useState } from 'react';
+import { HandFrame, InputSourceCallbacks, InteractionData, createDefaultInteraction } from '../types';
+import { HandSource, createHandSource } from '../inputs/handSource';
+import { HandTrackingOptions } from '../inputs/handLandmarker';
+import { CameraSettings } from '../inputs/camera';
+import { FilterSettings } from '../utils/handFilter';
+import { MappingBinding } from '../utils/mapping';
+import { DetectionStats, createDetectionStats, drawHandOverlay } from '../utils/trackingDebug';
+import { useI18n } from '../i18n';
+
+type HandTrackerProps = InputSourceCallbacks & {
+  options: HandTrackingOptions;
+  camera: CameraSettings;
+  filter: FilterSettings;
+  mapping: MappingBinding[];
+  paused: boolean;
+  debug: boolean;  // skeleton overlay plus mapping / detection readout
+  previewRef?: React.MutableRefObject<HTMLVideoElement | null>;  // exposes the webcam video, e.g. for captures
+};
 
-interface HandTrackerProps {
-  onInteractionUpdate: (data: InteractionData) => void;
-  setIsTracking: (isTracking: boolean) => void;
+interface DebugReadout {
+  interaction: InteractionData;
+  stats: DetectionStats;
 }
 
-const HandTracker: React.FC<HandTrackerProps> = ({ onInteractionUpdate, setIsTracking }) => {
+const formatNumber = (value: number) => value.toFixed(2).padStart(5, ' ');
+
+const HandTracker: React.FC<HandTrackerProps> = ({ onInteraction, onStatus, onFrame, onRawFrame, options, camera, filter, mapping, paused, debug, previewRef }) => {
+  const { t } = useI18n();
   const videoRef = useRef<HTMLVideoElement>(null);
-  const requestRef = useRef<number>(0);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<HandSource | null>(null);
+  // The source starts with these, so the effects below only forward later changes
+  const initialRef = useRef({ camera, filter, mapping });
 
-  useEffect(() => {
-    let active = true;
-
-    const setupMediaPipe = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-        );
-        
-        if (!active) return;
-
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2
-        });
-
-        startWebcam();
-      } catch (error) {
-        console.error("Error initializing MediaPipe:", error);
-      }
-    };
+  // Latest data for the debug view, written at detection rate and read when drawing
+  const frameRef = useRef<HandFrame | null>(null);
+  const interactionRef = useRef<InteractionData>(createDefaultInteraction());
+  const statsRef = useRef(createDetectionStats());
+  const [readout, setReadout] = useState<DebugReadout | null>(null);
 
-    setupMediaPipe();
+  useEffect(() => {
+    if (!videoRef.current) return;
+
+    const source = createHandSource(videoRef.current, options, camera, filter, mapping);
+    sourceRef.current = source;
+    source.start({
+      onInteraction: (data) => {
+        interactionRef.current = data;
+        onInteraction(data);
+      },
+      onStatus,
+      onFrame: (frame) => {
+        frameRef.current = frame;
+        statsRef.current.add(frame);
+        onFrame?.(frame);
+      },
+      onRawFrame
+    });
+    if (previewRef) previewRef.current = videoRef.current;
 
     return () => {
-      active = false;
-      if (handLandmarkerRef.current) {
-        handLandmarkerRef.current.close();
-      }
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-      }
+      source.stop();
+      sourceRef.current = null;
+      if (previewRef) previewRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const startWebcam = async () => {
-    if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { width: 640, height: 480 }
-        });
-        
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          videoRef.current.addEventListener('loadeddata', predictWebcam);
-          setIsTracking(true);
-        }
-      } catch (err) {
-        console.error("Webcam error:", err);
-      }
+  useEffect(() => {
+    sourceRef.current?.setOptions(options);
+  }, [options]);
+
+  useEffect(() => {
+    if (camera !== initialRef.current.camera) sourceRef.current?.setCamera(camera);
+  }, [camera]);
+
+  useEffect(() => {
+    if (filter !== initialRef.current.filter) sourceRef.current?.setFilter(filter);
+  }, [filter]);
+
+  useEffect(() => {
+    if (mapping !== initialRef.current.mapping) sourceRef.current?.setMapping(mapping);
+  }, [mapping]);
+
+  useEffect(() => {
+    if (paused) sourceRef.current?.pause();
+    else sourceRef.current?.resume();
+  }, [paused]);
+
+  // Skeletons redraw every display frame; the text readout refreshes a few times a second
+  useEffect(() => {
+    if (!debug) {
+      setReadout(null);
+      return;
     }
-  };
-
-  const predictWebcam = () => {
-    const video = videoRef.current;
-    const landmarker = handLandmarkerRef.current;
-
-    if (!video || !landmarker) return;
-
-    if (video.currentTime > 0 && !video.paused && !video.ended) {
-      const startTimeMs = performance.now();
-      const result = landmarker.detectForVideo(video, startTimeMs);
-
-      let scale = 1.0;
-      let posX = 0;
-      let posY = 0;
-      let rotX = 0;
-      let rotY = 0;
-      let rotZ = 0;
-
-      if (result.landmarks && result.landmarks.length > 0) {
-        // --- TWO HANDS LOGIC ---
-        if (result.landmarks.length === 2) {
-            const hand1 = result.landmarks[0][0]; // Wrist
-            const hand2 = result.landmarks[1][0]; // Wrist
-            
-            // 1. Scale (Distance)
-            const dist = Math.sqrt(
-                Math.pow(hand1.x - hand2.x, 2) + 
-                Math.pow(hand1.y - hand2.y, 2)
-            );
-            const clampedDist = Math.max(0.1, Math.min(dist, 0.8));
-            scale = 0.5 + ((clampedDist - 0.1) / 0.7) * 2.0;
-
-            // 2. Position (Center point)
-            const avgX = (hand1.x + hand2.x) / 2;
-            const avgY = (hand1.y + hand2.y) / 2;
-            
-            posX = (0.5 - avgX) * 8; 
-            posY = -(avgY - 0.5) * 6;
-
-            // 3. Rotation (Flip/Tilt)
-            
-            // Z-Axis (Roll): Calculate angle between hands
-            // If hand1 is left and hand2 is right, dy=0 is 0 rads.
-            // We use atan2(dy, dx)
-            const dx = hand2.x - hand1.x;
-            const dy = hand2.y - hand1.y;
-            rotZ = -Math.atan2(dy, dx); // Negative because screen Y is inverted vs 3D
-
-            // X/Y Axis (Tilt): Based on how far hands are from center
-            // Looking up/down/left/right creates a perspective tilt
-            rotY = (0.5 - avgX) * 2.0; // Left/Right tilt
-            rotX = (avgY - 0.5) * 2.0; // Up/Down tilt
-
-        } else if (result.landmarks.length === 1) {
-            // --- ONE HAND LOGIC ---
-            const thumb = result.landmarks[0][4];
-            const index = result.landmarks[0][8];
-            const wrist = result.landmarks[0][0];
-
-            // Scale (Pinch)
-            const dist = Math.sqrt(
-                Math.pow(thumb.x - index.x, 2) + 
-                Math.pow(thumb.y - index.y, 2)
-            );
-            const clampedDist = Math.max(0.02, Math.min(dist, 0.2));
-            scale = 0.5 + ((clampedDist - 0.02) / 0.18) * 1.5;
-
-            // Position
-            posX = (0.5 - wrist.x) * 8;
-            posY = -(wrist.y - 0.5) * 6;
-
-            // Rotation (Tilt based on position)
-            // Move hand left -> rotate object to look left
-            rotY = (0.5 - wrist.x) * 3.0;
-            rotX = (wrist.y - 0.5) * 3.0;
-            // No Z-roll for single hand usually, or maybe wrist angle (complex to calc reliably)
+
+    let requestId = 0;
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && video && ctx) {
+        const width = canvas.clientWidth * window.devicePixelRatio;
+        const height = canvas.clientHeight * window.devicePixelRatio;
+        if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
         }
+        drawHandOverlay(ctx, frameRef.current?.hands ?? [], video.videoWidth, video.videoHeight);
       }
+      requestId = requestAnimationFrame(draw);
+    };
+    requestId = requestAnimationFrame(draw);
 
-      onInteractionUpdate({ 
-        scale, 
-        position: { x: posX, y: posY },
-        rotation: { x: rotX, y: rotY, z: rotZ }
-      });
-    }
+    const update = () => setReadout({ interaction: interactionRef.current, stats: statsRef.current.read() });
+    update();
+    const timer = setInterval(update, 250);
 
-    requestRef.current = requestAnimationFrame(predictWebcam);
-  };
+    return () => {
+      cancelAnimationFrame(requestId);
+      clearInterval(timer);
+    };
+  }, [debug]);
 
   return (
-    <div className="absolute bottom-4 right-4 w-48 h-36 z-50 rounded-xl overflow-hidden border-2 border-white/20 shadow-2xl bg-black/80">
+    <div className={`absolute bottom-4 right-4 z-50 rounded-xl overflow-hidden border-2 border-white/20 shadow-2xl bg-black/80 transition-all ${
+      debug ? 'w-80 h-60' : 'w-48 h-36'
+    }`}>
       <video
         ref={videoRef}
         autoPlay
@@ -167,11 +134,28 @@ const HandTracker: React.FC<HandTrackerProps> = ({ onInteractionUpdate, setIsTra
         muted
         className="w-full h-full object-cover transform scale-x-[-1] opacity-90"
       />
+      {debug && (
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      )}
+      {readout && (
+        <pre className="absolute top-0 left-0 bg-black/60 text-[10px] leading-tight text-green-300 font-mono px-2 py-1 rounded-br-lg">
+          {[
+            t('tracker.stats', { fps: readout.stats.fps, latency: readout.stats.latency.toFixed(1) }),
+            t('tracker.scale', { scale: formatNumber(readout.interaction.scale) }),
+            t('tracker.position', { x: formatNumber(readout.interaction.position.x), y: formatNumber(readout.interaction.position.y) }),
+            t('tracker.rotation', {
+              x: formatNumber(readout.interaction.rotation.x),
+              y: formatNumber(readout.interaction.rotation.y),
+              z: formatNumber(readout.interaction.rotation.z)
+            })
+          ].join('\n')}
+        </pre>
+      )}
       <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-[10px] text-center py-1">
-        摄像头预览
+        {t('tracker.preview')}
       </div>
     </div>
   );
 };
 
-export default HandTracker;
\ No newline at end of file
+export default HandTracker;
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, RotateCcw, Trash2, Workflow } from 'lucide-react';
+import { TrackedHand } from '../types';
+import {
+  Curve,
+  DEFAULT_MAPPING,
+  MappingBinding,
+  MappingSource,
+  MappingTarget,
+  SOURCE_RANGES,
+  TARGET_RANGES,
+  createBinding,
+  readSignal
+} from '../utils/mapping';
+import { MessageKey, useI18n } from '../i18n';
+
+interface MappingPanelProps {
+  mapping: MappingBinding[];
+  setMapping: (mapping: MappingBinding[]) => void;
+  handsRef: React.MutableRefObject<TrackedHand[]>;  // live hands, for the signal readout
+}
+
+const SOURCE_LABELS: Record<MappingSource, MessageKey> = {
+  [MappingSource.PINCH]: 'mapping.source.pinch',
+  [MappingSource.HAND_DISTANCE]: 'mapping.source.handDistance',
+  [MappingSource.CENTER_X]: 'mapping.source.centerX',
+  [MappingSource.CENTER_Y]: 'mapping.source.centerY',
+  [MappingSource.HAND_ANGLE]: 'mapping.source.handAngle',
+  [MappingSource.PALM_ROLL]: 'mapping.source.palmRoll',
+  [MappingSource.FINGER_COUNT]: 'mapping.source.fingerCount',
+  [MappingSource.HAND_COUNT]: 'mapping.source.handCount'
+};
+
+const TARGET_LABELS: Record<MappingTarget, MessageKey> = {
+  [MappingTarget.SCALE]: 'mapping.target.scale',
+  [MappingTarget.POSITION_X]: 'mapping.target.positionX',
+  [MappingTarget.POSITION_Y]: 'mapping.target.positionY',
+  [MappingTarget.ROTATION_X]: 'mapping.target.rotationX',
+  [MappingTarget.ROTATION_Y]: 'mapping.target.rotationY',
+  [MappingTarget.ROTATION_Z]: 'mapping.target.rotationZ',
+  [MappingTarget.HUE]: 'mapping.target.hue',
+  [MappingTarget.MORPH]: 'mapping.target.morph',
+  [MappingTarget.TURBULENCE]: 'mapping.target.turbulence',
+  [MappingTarget.PARTICLE_SIZE]: 'mapping.target.particleSize'
+};
+
+const CURVE_LABELS: Record<Curve, MessageKey> = {
+  [Curve.LINEAR]: 'easing.linear',
+  [Curve.EASE_IN]: 'easing.easeIn',
+  [Curve.EASE_OUT]: 'easing.easeOut',
+  [Curve.S_CURVE]: 'mapping.curve.sCurve'
+};
+
+const HANDS_LABELS: Record<MappingBinding['hands'], MessageKey> = { 0: 'mapping.hands.any', 1: 'mapping.hands.one', 2: 'mapping.hands.two' };
+
+const NumberField: React.FC<{ value: number; onChange: (value: number) => void; label: string; step?: number }> = ({
+  value,
+  onChange,
+  label,
+  step = 0.01
+}) => (
+  <input
+    type="number"
+    step={step}
+    value={Number(value.toFixed(3))}
+    onChange={(e) => {
+      const next = Number(e.target.value);
+      if (Number.isFinite(next)) onChange(next);
+    }}
+    className="w-14 bg-white/5 rounded px-1 text-gray-300 outline-none tabular-nums"
+    aria-label={label}
+  />
+);
+
+const MappingPanel: React.FC<MappingPanelProps> = ({ mapping, setMapping, handsRef }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [hands, setHands] = useState<TrackedHand[]>([]);
+
+  // Raw signal readout, so ranges can be tuned against what the tracker actually sees
+  useEffect(() => {
+    if (!open) return;
+    const timer = setInterval(() => setHands(handsRef.current), 100);
+    return () => clearInterval(timer);
+  }, [open, handsRef]);
+
+  const update = (id: string, patch: Partial<MappingBinding>) => {
+    setMapping(mapping.map((binding) => (binding.id === id ? { ...binding, ...patch } : binding)));
+  };
+
+  // A new source or target starts from its typical range
+  const setSource = (binding: MappingBinding, source: MappingSource) =>
+    update(binding.id, { source, inputMin: SOURCE_RANGES[source].min, inputMax: SOURCE_RANGES[source].max });
+  const setTarget = (binding: MappingBinding, target: MappingTarget) =>
+    update(binding.id, { target, outputMin: TARGET_RANGES[target].min, outputMax: TARGET_RANGES[target].max });
+
+  const select = 'bg-transparent text-gray-200 outline-none cursor-pointer';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <Workflow size={16} />
+        {t('mapping.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-[26rem] max-h-[60vh] overflow-y-auto bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-2 text-xs text-gray-400">
+          {mapping.map((binding) => {
+            const signal = readSignal(binding.source, hands);
+            return (
+              <div
+                key={binding.id}
+                className={`flex flex-col gap-1.5 rounded-lg p-2 bg-white/5 ${binding.enabled ? '' : 'opacity-50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={binding.enabled}
+                    onChange={(e) => update(binding.id, { enabled: e.target.checked })}
+                    className="accent-cyan-400"
+                    aria-label={t('mapping.enabled')}
+                  />
+                  <select value={binding.source} onChange={(e) => setSource(binding, e.target.value as MappingSource)} className={select} aria-label={t('mapping.source')}>
+                    {Object.values(MappingSource).map((source) => (
+                      <option key={source} value={source} className="bg-gray-900">{t(SOURCE_LABELS[source])}</option>
+                    ))}
+                  </select>
+                  →
+                  <select value={binding.target} onChange={(e) => setTarget(binding, e.target.value as MappingTarget)} className={select} aria-label={t('mapping.target')}>
+                    {Object.values(MappingTarget).map((target) => (
+                      <option key={target} value={target} className="bg-gray-900">{t(TARGET_LABELS[target])}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={binding.hands}
+                    onChange={(e) => update(binding.id, { hands: Number(e.target.value) as MappingBinding['hands'] })}
+                    className={`${select} ml-auto`}
+                    title={t('mapping.hands')}
+                  >
+                    {([0, 1, 2] as const).map((count) => (
+                      <option key={count} value={count} className="bg-gray-900">{t(HANDS_LABELS[count])}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setMapping(mapping.filter((b) => b.id !== binding.id))}
+                    className="p-1 text-gray-500 hover:text-red-400"
+                    title={t('mapping.delete')}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+
+                <div className="flex items-center gap-1.5">
+                  {t('mapping.input')}
+                  <NumberField value={binding.inputMin} onChange={(inputMin) => update(binding.id, { inputMin })} label={t('mapping.inputMin')} />
+                  –
+                  <NumberField value={binding.inputMax} onChange={(inputMax) => update(binding.id, { inputMax })} label={t('mapping.inputMax')} />
+                  <span className="ml-1">{t('mapping.output')}</span>
+                  <NumberField value={binding.outputMin} onChange={(outputMin) => update(binding.id, { outputMin })} label={t('mapping.outputMin')} />
+                  –
+                  <NumberField value={binding.outputMax} onChange={(outputMax) => update(binding.id, { outputMax })} label={t('mapping.outputMax')} />
+                  <span className="ml-auto tabular-nums text-cyan-300" title={t('mapping.signal')}>
+                    {signal === null ? '—' : signal.toFixed(2)}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <select value={binding.curve} onChange={(e) => update(binding.id, { curve: e.target.value as Curve })} className={select} aria-label={t('mapping.curve')}>
+                    {Object.values(Curve).map((curve) => (
+                      <option key={curve} value={curve} className="bg-gray-900">{t(CURVE_LABELS[curve])}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={binding.invert}
+                      onChange={(e) => update(binding.id, { invert: e.target.checked })}
+                      className="accent-cyan-400"
+                    />
+                    {t('mapping.invert')}
+                  </label>
+                  <label className="flex items-center gap-1 ml-auto" title={t('mapping.smoothingHint')}>
+                    {t('mapping.smoothing')}
+                    <NumberField value={binding.smoothing} onChange={(smoothing) => update(binding.id, { smoothing: Math.max(0, smoothing) })} label={t('mapping.smoothing')} />
+                    s
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setMapping([...mapping, createBinding(MappingSource.PINCH, MappingTarget.SCALE)])}
+              className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-all"
+            >
+              <Plus size={14} />
+              {t('mapping.add')}
+            </button>
+            <span className="ml-auto">{t('mapping.order')}</span>
+            <button
+              onClick={() => setMapping(DEFAULT_MAPPING)}
+              className="p-1.5 rounded-lg hover:text-white hover:bg-white/5 transition-all"
+              title={t('mapping.reset')}
+            >
+              <RotateCcw size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MappingPanel;
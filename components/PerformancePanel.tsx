@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Gauge } from 'lucide-react';
+import {
+  PerformanceSettings,
+  QUALITY_LEVELS,
+  QUALITY_TIERS,
+  QualityLevel,
+  TARGET_FPS_OPTIONS
+} from '../utils/performance';
+import { MessageKey, useI18n } from '../i18n';
+
+interface PerformancePanelProps {
+  settings: PerformanceSettings;
+  setSettings: (settings: PerformanceSettings) => void;
+}
+
+export const QUALITY_LABELS: Record<QualityLevel, MessageKey> = {
+  [QualityLevel.ULTRA]: 'performance.level.ultra',
+  [QualityLevel.HIGH]: 'performance.level.high',
+  [QualityLevel.MEDIUM]: 'performance.level.medium',
+  [QualityLevel.LOW]: 'performance.level.low',
+  [QualityLevel.MINIMAL]: 'performance.level.minimal'
+};
+
+const AUTO = 'auto';
+
+const PerformancePanel: React.FC<PerformancePanelProps> = ({ settings, setSettings }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const tier = QUALITY_TIERS[settings.level];
+
+  const details = [
+    t('performance.detail.particles', { percent: Math.round(tier.particles * 100) }),
+    t('performance.detail.dpr', { dpr: tier.dpr }),
+    t('performance.detail.stars', { stars: tier.stars }),
+    tier.detectionRate > 0 ? t('performance.detail.detection', { rate: tier.detectionRate }) : t('performance.detail.detectionAny'),
+    t(tier.additive ? 'performance.detail.additive' : 'performance.detail.opaque'),
+    t(tier.effects ? 'performance.detail.effects' : 'performance.detail.noEffects')
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <Gauge size={16} />
+        {t('performance.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-72 bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-3 text-xs text-gray-400">
+          <label className="flex items-center justify-between gap-2">
+            {t('performance.quality')}
+            <select
+              value={settings.auto ? AUTO : settings.level}
+              onChange={(e) => {
+                const value = e.target.value;
+                // A manual pick pins the tier; going back to auto starts the governor from it
+                setSettings(value === AUTO ? { ...settings, auto: true } : { ...settings, auto: false, level: value as QualityLevel });
+              }}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer"
+            >
+              <option value={AUTO} className="bg-gray-900">{t('performance.auto', { level: t(QUALITY_LABELS[settings.level]) })}</option>
+              {QUALITY_LEVELS.map((level) => (
+                <option key={level} value={level} className="bg-gray-900">{t(QUALITY_LABELS[level])}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2" title={t('performance.targetHint')}>
+            {t('performance.target')}
+            <select
+              value={settings.targetFps}
+              onChange={(e) => setSettings({ ...settings, targetFps: Number(e.target.value) })}
+              disabled={!settings.auto}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer disabled:opacity-40"
+            >
+              {TARGET_FPS_OPTIONS.map((fps) => (
+                <option key={fps} value={fps} className="bg-gray-900">{fps} fps</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-gray-500 leading-relaxed">{details.join(' · ')}</p>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.showStats}
+              onChange={(e) => setSettings({ ...settings, showStats: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            {t('performance.showStats')}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformancePanel;
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { FrameMonitor, FrameStats, QualityLevel, QualityTier, effectiveTargetFps, resolveDpr } from '../utils/performance';
+import { DetectionStats, createDetectionStats } from '../utils/trackingDebug';
+import { QUALITY_LABELS } from './PerformancePanel';
+import { useI18n } from '../i18n';
+
+interface PerformanceStatsProps {
+  frameMonitorRef: React.MutableRefObject<FrameMonitor>;
+  detectionStatsRef: React.MutableRefObject<ReturnType<typeof createDetectionStats>>;
+  level: QualityLevel;
+  tier: QualityTier;
+  particleCount: number;  // what is actually drawn, after the tier and multi-user split
+  targetFps: number;
+}
+
+interface Readout {
+  frame: FrameStats;
+  detection: DetectionStats;
+}
+
+const PerformanceStats: React.FC<PerformanceStatsProps> = ({ frameMonitorRef, detectionStatsRef, level, tier, particleCount, targetFps }) => {
+  const { t, locale } = useI18n();
+  const [readout, setReadout] = useState<Readout | null>(null);
+
+  // Reads the monitors twice a second instead of re-rendering the app every frame
+  useEffect(() => {
+    const update = () => setReadout({ frame: frameMonitorRef.current.read(), detection: detectionStatsRef.current.read() });
+    update();
+    const timer = setInterval(update, 500);
+    return () => clearInterval(timer);
+  }, [frameMonitorRef, detectionStatsRef]);
+
+  if (!readout) return null;
+  const { frame, detection } = readout;
+
+  const lines = [
+    t('performance.stats.render', { fps: frame.fps, target: effectiveTargetFps(targetFps, frame) }),
+    t('performance.stats.frame', { frame: frame.frameMs.toFixed(1), cpu: frame.cpuMs.toFixed(1) }),
+    ...(detection.fps > 0 ? [t('tracker.stats', { fps: detection.fps, latency: detection.latency.toFixed(1) })] : []),
+    t('performance.stats.quality', {
+      level: t(QUALITY_LABELS[level]),
+      particles: particleCount.toLocaleString(locale),
+      dpr: resolveDpr(tier)
+    })
+  ];
+
+  return (
+    <pre className="absolute top-4 left-1/2 -translate-x-1/2 z-20 pointer-events-none bg-black/60 text-[10px] leading-tight text-green-300 font-mono px-2 py-1 rounded-lg">
+      {lines.join('\n')}
+    </pre>
+  );
+};
+
+export default PerformanceStats;
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Check, Download, Link, Save, Trash2, Upload } from 'lucide-react';
+import { ShapeId } from '../types';
+import { getShape } from '../shapes';
+import { ColorMode, getPalette } from '../utils/colors';
+import {
+  BUILTIN_PRESETS,
+  Preset,
+  SceneConfig,
+  createPreset,
+  createShareUrl,
+  downloadPreset,
+  isBuiltInPreset,
+  loadSavedPresets,
+  parsePreset,
+  storeSavedPresets
+} from '../utils/presets';
+import { useI18n } from '../i18n';
+
+interface PresetGalleryProps {
+  config: SceneConfig;
+  onApply: (config: SceneConfig) => void;
+  unavailableShape: ShapeId | null;  // shown with the import errors; the default shape was used instead
+}
+
+// Colour preview of a preset: its palette when it uses one, its solid colour otherwise
+const swatch = ({ color, colorStyle }: SceneConfig) =>
+  colorStyle.mode === ColorMode.SOLID || colorStyle.mode === ColorMode.SHAPE
+    ? color
+    : `linear-gradient(135deg, ${getPalette(colorStyle.paletteId).stops.join(', ')})`;
+
+const PresetGallery: React.FC<PresetGalleryProps> = ({ config, onApply, unavailableShape }) => {
+  const { t, label, locale } = useI18n();
+  const presetName = (preset: Preset) => (preset.nameKey ? t(preset.nameKey) : preset.name);
+  const [open, setOpen] = useState(false);
+  const [saved, setSaved] = useState<Preset[]>(loadSavedPresets);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [importFailed, setImportFailed] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // A share link may ask for the shape before the gallery was ever opened
+  useEffect(() => {
+    if (unavailableShape) setOpen(true);
+  }, [unavailableShape]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const updateSaved = (presets: Preset[]) => {
+    setSaved(presets);
+    storeSavedPresets(presets);
+  };
+
+  const saveCurrent = (e: React.FormEvent) => {
+    e.preventDefault();
+    const presetName = name.trim() || t('presets.defaultName', { index: saved.length + 1 });
+    updateSaved([...saved, createPreset(presetName, config)]);
+    setName('');
+  };
+
+  const importPreset = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePreset(await file.text());
+      setImportFailed(false);
+      updateSaved([...saved, preset]);
+      onApply(preset.config);
+    } catch (error) {
+      console.error("Invalid preset file:", error);
+      setImportFailed(true);
+    }
+  };
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createShareUrl(config));
+      setCopied(true);
+    } catch (error) {
+      console.error("Share link error:", error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <Bookmark size={16} />
+        {t('presets.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-80 max-h-[60vh] overflow-y-auto bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-3">
+          <form onSubmit={saveCurrent} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('presets.namePlaceholder')}
+              className="flex-1 min-w-0 bg-transparent px-2 py-1.5 text-sm text-white placeholder-gray-500 outline-none border-b border-white/10"
+              aria-label={t('presets.name')}
+            />
+            <button
+              type="submit"
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+              title={t('presets.save')}
+            >
+              <Save size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+              title={t('presets.import')}
+            >
+              <Upload size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={copyShareLink}
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+              title={t(copied ? 'presets.linkCopied' : 'presets.copyLink')}
+            >
+              {copied ? <Check size={16} className="text-green-400" /> : <Link size={16} />}
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importPreset} />
+          </form>
+          {importFailed && <p className="text-xs text-red-400">{t('presets.importFailed')}</p>}
+          {unavailableShape && <p className="text-xs text-red-400">{t('presets.shapeUnavailable', { shape: unavailableShape })}</p>}
+
+          <div className="grid grid-cols-2 gap-2">
+            {[...BUILTIN_PRESETS, ...saved].map((preset) => (
+              <div
+                key={preset.id}
+                className="group relative rounded-xl border border-white/10 hover:border-cyan-400/60 transition-all"
+              >
+                <button
+                  onClick={() => onApply(preset.config)}
+                  className="w-full flex items-center gap-2 p-2 text-left"
+                  title={t('presets.apply', { name: presetName(preset) })}
+                >
+                  <span className="w-6 h-6 shrink-0 rounded-full" style={{ background: swatch(preset.config) }} />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-white truncate">{presetName(preset)}</span>
+                    <span className="block text-[10px] text-gray-500 truncate">
+                      {label(getShape(preset.config.shape)?.label ?? preset.config.shape)} · {preset.config.particleCount.toLocaleString(locale)}
+                    </span>
+                  </span>
+                </button>
+                <div className="absolute top-1 right-1 hidden group-hover:flex gap-0.5 bg-black/60 rounded-md">
+                  <button
+                    onClick={() => downloadPreset({ ...preset, name: presetName(preset) })}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title={t('presets.export')}
+                  >
+                    <Download size={12} />
+                  </button>
+                  {!isBuiltInPreset(preset) && (
+                    <button
+                      onClick={() => updateSaved(saved.filter((p) => p.id !== preset.id))}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetGallery;
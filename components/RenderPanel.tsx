@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Sparkle } from 'lucide-react';
+import {
+  DEFAULT_RENDER_STYLE,
+  FOCUS_RANGE,
+  MAX_BLOOM,
+  MAX_DEPTH_OF_FIELD,
+  MAX_TRAILS,
+  RenderStyle,
+  SizeMode,
+  SpriteStyle
+} from '../utils/renderStyle';
+import { MessageKey, useI18n } from '../i18n';
+
+interface RenderPanelProps {
+  style: RenderStyle;
+  setStyle: (style: RenderStyle) => void;
+  effectsAvailable: boolean;  // false while the quality tier switches trails, bloom and depth of field off
+}
+
+const SPRITE_LABELS: Record<SpriteStyle, MessageKey> = {
+  [SpriteStyle.SQUARE]: 'render.sprite.square',
+  [SpriteStyle.SOFT]: 'render.sprite.soft',
+  [SpriteStyle.GLOW]: 'render.sprite.glow',
+  [SpriteStyle.SPARKLE]: 'render.sprite.sparkle'
+};
+
+const SIZE_MODE_LABELS: Record<SizeMode, MessageKey> = {
+  [SizeMode.UNIFORM]: 'render.size.uniform',
+  [SizeMode.DEPTH]: 'render.size.depth',
+  [SizeMode.VELOCITY]: 'render.size.velocity'
+};
+
+type SliderKey = Exclude<keyof RenderStyle, 'sprite' | 'sizeMode'>;
+
+interface Slider {
+  key: SliderKey;
+  label: MessageKey;
+  title: MessageKey;
+  min: number;
+  max: number;
+  step: number;
+  shown?: (style: RenderStyle) => boolean;  // detail sliders appear once their effect is on
+}
+
+const EFFECT_SLIDERS: Slider[] = [
+  { key: 'trails', label: 'render.trails', title: 'render.trailsHint', min: 0, max: MAX_TRAILS, step: 0.05 },
+  { key: 'bloom', label: 'render.bloom', title: 'render.bloomHint', min: 0, max: MAX_BLOOM, step: 0.1 },
+  { key: 'bloomRadius', label: 'render.bloomRadius', title: 'render.bloomRadiusHint', min: 0, max: 1, step: 0.05, shown: (style) => style.bloom > 0 },
+  { key: 'bloomThreshold', label: 'render.bloomThreshold', title: 'render.bloomThresholdHint', min: 0, max: 1, step: 0.05, shown: (style) => style.bloom > 0 },
+  { key: 'depthOfField', label: 'render.depthOfField', title: 'render.depthOfFieldHint', min: 0, max: MAX_DEPTH_OF_FIELD, step: 0.05 },
+  { key: 'focus', label: 'render.focus', title: 'render.focusHint', min: FOCUS_RANGE.min, max: FOCUS_RANGE.max, step: 0.1, shown: (style) => style.depthOfField > 0 }
+];
+
+const RenderPanel: React.FC<RenderPanelProps> = ({ style, setStyle, effectsAvailable }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  const renderSlider = ({ key, label, title, min, max, step }: Slider) => (
+    <label key={key} className="flex items-center justify-between gap-2" title={t(title)}>
+      {t(label)}
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={style[key]}
+        onChange={(e) => setStyle({ ...style, [key]: Number(e.target.value) })}
+        className="w-32 accent-cyan-400"
+      />
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <Sparkle size={16} />
+        {t('render.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-72 bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-3 text-xs text-gray-400">
+          <label className="flex items-center justify-between gap-2">
+            {t('render.sprite')}
+            <select
+              value={style.sprite}
+              onChange={(e) => setStyle({ ...style, sprite: e.target.value as SpriteStyle })}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer"
+            >
+              {Object.values(SpriteStyle).map((sprite) => (
+                <option key={sprite} value={sprite} className="bg-gray-900">{t(SPRITE_LABELS[sprite])}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            {t('render.size')}
+            <select
+              value={style.sizeMode}
+              onChange={(e) => setStyle({ ...style, sizeMode: e.target.value as SizeMode })}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer"
+            >
+              {Object.values(SizeMode).map((mode) => (
+                <option key={mode} value={mode} className="bg-gray-900">{t(SIZE_MODE_LABELS[mode])}</option>
+              ))}
+            </select>
+          </label>
+          {style.sizeMode !== SizeMode.UNIFORM && renderSlider({
+            key: 'sizeAmount', label: 'render.sizeAmount', title: 'render.sizeAmountHint', min: 0, max: 1, step: 0.05
+          })}
+
+          {EFFECT_SLIDERS.filter(({ shown }) => !shown || shown(style)).map(renderSlider)}
+          {!effectsAvailable && <p className="text-amber-300/80">{t('render.effectsOff')}</p>}
+
+          <button
+            onClick={() => setStyle(DEFAULT_RENDER_STYLE)}
+            className="self-end px-2 py-1 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-all"
+          >
+            {t('render.reset')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RenderPanel;
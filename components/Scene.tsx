@@ -1,165 +1,475 @@
-import React, { useRef, useMemo, useEffect } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Stars } from '@react-three/drei';
+import React, { useRef, useMemo, useEffect, useCallback } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Stars } from '@react-three/drei';
 import * as THREE from 'three';
-import { ParticleShape, PARTICLE_COUNT } from '../types';
+import { ShapeId, ShapeParams, InteractionData, TrackedHand, Attractor, createDefaultInteraction } from '../types';
 import { generateParticles } from '../utils/geometry';
-import { InteractionData } from '../App';
+import { attractorsFromHands } from '../utils/gestures';
+import { particleVertexShader, particleFragmentShader } from '../utils/particleShader';
+import { ColorStyle, COLOR_MODE_INDEX, getPalette, paletteToLinear, PALETTE_SIZE } from '../utils/colors';
+import { DEFAULT_SIMULATION, ParticleSimulation, SimulationSettings, createParticleSimulation, createSimulationRefs } from '../utils/particleSimulation';
+import { createFireworkAttributes, createFireworksController } from '../utils/fireworks';
+import { ShapeEffect, getShape } from '../shapes';
+import { CanvasCapture, FrameRenderer, createCanvasCapture } from '../utils/capture';
+import { createInteractionInterpolator } from '../utils/interpolation';
+import { AudioFeatures, AudioMapping, beatPulse } from '../inputs/audio';
+import { MappingBinding, MappingTarget, smoothingFor } from '../utils/mapping';
+import { QualityTier, resolveDpr } from '../utils/performance';
+import { RenderStyle, SIZE_MODE_INDEX, SPRITE_SIZE, SPRITE_STYLE_INDEX, usesPostProcessing } from '../utils/renderStyle';
+import { createPostProcessing } from '../utils/postProcessing';
+import { CameraMode, CameraRigHandle, ViewSettings, Viewpoint } from '../utils/cameraRig';
+import CameraRig from './CameraRig';
+import { MORPH_STYLE_INDEX, MorphSettings, assignTargets, createMorphSeeds, morphProgress as easedMorphProgress, particleProgress } from '../utils/morph';
 
-interface SceneProps {
-  currentShape: ParticleShape;
+interface ParticlesProps {
+  currentShape: ShapeId;
+  shapeParams?: ShapeParams;
+  shapeRevision: number;  // bumped when a custom shape is (re)registered under the same id
   color: string;
+  colorStyle: ColorStyle;
+  particleCount: number;
   interactionRef: React.MutableRefObject<InteractionData>;
+  handsRef: React.MutableRefObject<TrackedHand[]>;
+  simulation: SimulationSettings;
+  burstRequestsRef: React.MutableRefObject<Attractor['position'][]>;  // scene-space firework bursts, drained every frame
+  morph: MorphSettings;    // transition style, duration and easing between shapes
+  morphDuration?: number;  // overrides morph.duration, e.g. for timeline keyframes
+  audioRef: React.MutableRefObject<AudioFeatures>;  // latest band energies / beat, silent without an audio source
+  audioMapping: AudioMapping;
+  mapping: MappingBinding[];  // gesture bindings, for how quickly each target follows
+  additive: boolean;          // false draws opaque points, for the low quality tiers
+  renderStyle: RenderStyle;   // with whatever the quality tier rules out already switched off
+  cloudTransform?: boolean;   // false when the interaction moves the camera instead; extras (hue, size...) still apply
 }
 
-const Particles: React.FC<SceneProps> = ({ currentShape, color, interactionRef }) => {
-  const pointsRef = useRef<THREE.Points>(null);
-  
+// Multi-user mode: a second cloud with its own shape, colour and controller; everything else is shared
+type SecondCloudProps = Pick<ParticlesProps, 'currentShape' | 'shapeParams' | 'color' | 'interactionRef' | 'handsRef' | 'burstRequestsRef'>;
+
+interface SceneProps extends ParticlesProps {
+  secondCloud?: SecondCloudProps;
+  quality: QualityTier;  // pixel ratio and star count; particle count and blending arrive already resolved
+  view: ViewSettings;
+  viewpoints: Viewpoint[];
+  orbitEnabled: boolean;
+  captureRef: React.MutableRefObject<CanvasCapture | null>;
+  cameraRigRef: React.MutableRefObject<CameraRigHandle | null>;
+}
+
+// How fast the fireworks effect fades in and out: the old 0.15-per-frame lerp at 60fps
+const FIREWORKS_BLEND_RATE = -60 * Math.log(1 - 0.15);
+// Point size at particleSize 1
+const POINT_SIZE = 0.08;
+// Where the cloud eases to while the camera shows the interaction
+const REST_TRANSFORM = createDefaultInteraction();
+
+const Particles: React.FC<ParticlesProps> = ({
+  currentShape,
+  shapeParams,
+  shapeRevision,
+  color,
+  colorStyle,
+  particleCount,
+  interactionRef,
+  handsRef,
+  simulation,
+  burstRequestsRef,
+  morph,
+  morphDuration,
+  audioRef,
+  audioMapping,
+  mapping,
+  additive,
+  renderStyle,
+  cloudTransform = true
+}) => {
+  const gl = useThree((state) => state.gl);
+
   // Internal refs for smoothing
   const currentScaleRef = useRef<number>(1.0);
   const currentPosRef = useRef<THREE.Vector2>(new THREE.Vector2(0, 0));
   const currentRotRef = useRef<THREE.Euler>(new THREE.Euler(0, 0, 0));
+  const currentParamsRef = useRef({ hue: 0, morph: 1, turbulence: simulation.turbulence, particleSize: 1 });
+  const morphElapsedRef = useRef<number>(0);
+  const morphRef = useRef<MorphSettings>(morph);
+  morphRef.current = morphDuration ? { ...morph, duration: morphDuration } : morph;
+  const colorPhaseRef = useRef<number>(0);
+  const shapeRef = useRef({ id: currentShape, params: shapeParams });
+  shapeRef.current = { id: currentShape, params: shapeParams };
+  const simulationRef = useRef<ParticleSimulation | null>(null);
+  const fireworks = useMemo(() => createFireworksController(), []);
+  const fireworksBlendRef = useRef<number>(0);
+  const hasFireworks = getShape(currentShape)?.effect === ShapeEffect.FIREWORKS;
+  const interpolator = useMemo(() => createInteractionInterpolator(), []);
+
+  // Reusable per-frame objects
+  const euler = useMemo(() => new THREE.Euler(), []);
+  const quaternion = useMemo(() => new THREE.Quaternion(), []);
+  const inverseQuaternion = useMemo(() => new THREE.Quaternion(), []);
+  const tempVec = useMemo(() => new THREE.Vector3(), []);
+  const drawingBufferSize = useMemo(() => new THREE.Vector2(), []);
+  const simulationSettings = useMemo<SimulationSettings>(() => ({ ...DEFAULT_SIMULATION }), []);
+
+  // Shown blend between morph start and target; a gesture mapped onto morph holds it part way
+  const morphProgress = () => easedMorphProgress(morphRef.current, morphElapsedRef.current) * currentParamsRef.current.morph;
+
+  // Writes the on-screen blend of from -> to into `out`, timing each particle as the shader does
+  const blendMorph = (from: Float32Array, to: Float32Array, itemSize: number, out: Float32Array) => {
+    const progress = morphProgress();
+    const seeds = geometry.attributes.aSeed.array as Float32Array;
+    for (let i = 0; i < seeds.length; i++) {
+      const m = particleProgress(morphRef.current.style, progress, seeds[i]);
+      for (let k = i * itemSize; k < (i + 1) * itemSize; k++) {
+        out[k] = from[k] + (to[k] - from[k]) * m;
+      }
+    }
+  };
   
-  // Create geometry buffers
-  const { positions, currentPositions, targetPositions } = useMemo(() => {
-    const pos = new Float32Array(PARTICLE_COUNT * 3);
-    const curr = new Float32Array(PARTICLE_COUNT * 3);
-    const targ = new Float32Array(PARTICLE_COUNT * 3);
-    
-    // Initialize
-    const initial = generateParticles(currentShape);
-    curr.set(initial);
-    targ.set(initial);
-    pos.set(initial);
-
-    return { 
-      positions: pos, 
-      currentPositions: curr, 
-      targetPositions: targ 
-    };
+  // Create geometry buffers: `position` is where each particle morphs from, `aTarget` where it morphs to
+  const geometry = useMemo(() => {
+    const initial = generateParticles(shapeRef.current.id, particleCount, shapeRef.current.params);
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(initial.positions, 3));
+    geo.setAttribute('aTarget', new THREE.BufferAttribute(initial.positions.slice(), 3));
+    geo.setAttribute('aColor', new THREE.BufferAttribute(new Float32Array(particleCount * 4), 4));
+    geo.setAttribute('aTargetColor', new THREE.BufferAttribute(new Float32Array(particleCount * 4), 4));
+    geo.setAttribute('aRef', new THREE.BufferAttribute(createSimulationRefs(particleCount), 2));
+    const { burst, shell } = createFireworkAttributes(particleCount);
+    geo.setAttribute('aBurst', new THREE.BufferAttribute(burst, 4));
+    geo.setAttribute('aShell', new THREE.BufferAttribute(shell, 1));
+    geo.setAttribute('aSeed', new THREE.BufferAttribute(createMorphSeeds(particleCount), 1));
+    return geo;
+  }, [particleCount]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uMorph: { value: 1 },
+      uRotation: { value: new THREE.Vector4(0, 0, 0, 1) },
+      uScale: { value: 1 },
+      uOffset: { value: new THREE.Vector2() },
+      uSize: { value: POINT_SIZE },
+      uViewportScale: { value: 1 },
+      uSprite: { value: 0 },
+      uSizeMode: { value: 0 },
+      uSizeAmount: { value: 0 },
+      uFocus: { value: 0 },
+      uFocusBlur: { value: 0 },
+      uColor: { value: new THREE.Color() },
+      uOpacity: { value: 0.8 },
+      uSimulated: { value: 0 },
+      uPositions: { value: null },
+      uVelocities: { value: null },
+      uMorphSpeed: { value: 0 },
+      uMorphStyle: { value: 0 },
+      uColorMode: { value: 0 },
+      uPalette: { value: Array.from({ length: PALETTE_SIZE }, () => new THREE.Color()) },
+      uColorPhase: { value: 0 },
+      uFireworks: { value: 0 },
+      uTime: { value: 0 },
+      uShells: { value: fireworks.shells },
+      uOrigins: { value: fireworks.origins }
+    },
+    vertexShader: particleVertexShader,
+    fragmentShader: particleFragmentShader,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    transparent: true
+  }), [fireworks]);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Blending many overlapping points is what slows tablet GPUs down most, so low tiers draw them opaque
+  useEffect(() => {
+    material.blending = additive ? THREE.AdditiveBlending : THREE.NoBlending;
+    material.transparent = additive;
+    material.depthWrite = !additive;
+    material.defines = additive ? {} : { OPAQUE: '' };
+    material.needsUpdate = true;
+  }, [additive, material]);
+
+  useEffect(() => {
+    const { uniforms } = material;
+    uniforms.uSprite.value = SPRITE_STYLE_INDEX[renderStyle.sprite];
+    uniforms.uSizeMode.value = SIZE_MODE_INDEX[renderStyle.sizeMode];
+    uniforms.uSizeAmount.value = renderStyle.sizeAmount;
+    uniforms.uFocus.value = renderStyle.focus;
+    uniforms.uFocusBlur.value = renderStyle.depthOfField;
+  }, [renderStyle, material]);
+
+  // Point size follows whatever is being drawn to, so captures at other resolutions keep the look
+  const updateViewportScale = useCallback((renderer: THREE.WebGLRenderer) => {
+    const target = renderer.getRenderTarget();
+    const height = target ? target.height : renderer.getDrawingBufferSize(drawingBufferSize).y;
+    material.uniforms.uViewportScale.value = height / 2;
+  }, [material, drawingBufferSize]);
+
+  useEffect(() => {
+    material.uniforms.uColor.value.set(color);
+  }, [color, material]);
+
+  useEffect(() => {
+    material.uniforms.uColorMode.value = COLOR_MODE_INDEX[colorStyle.mode];
+    paletteToLinear(getPalette(colorStyle.paletteId), material.uniforms.uPalette.value);
+  }, [colorStyle.mode, colorStyle.paletteId, material]);
+
+  useEffect(() => {
+    material.uniforms.uMorphStyle.value = MORPH_STYLE_INDEX[morph.style];
+  }, [morph.style, material]);
+
+  // Update target positions when shape (or its parameters) changes: freeze the in-flight morph as the new start,
+  // then hand each particle the nearest free spot of the new shape
+  useEffect(() => {
+    const start = geometry.attributes.position as THREE.BufferAttribute;
+    const target = geometry.attributes.aTarget as THREE.BufferAttribute;
+    const from = start.array as Float32Array;
+    const to = target.array as Float32Array;
+
+    blendMorph(from, to, 3, from);
+    const sample = assignTargets(from, generateParticles(currentShape, particleCount, shapeParams));
+    to.set(sample.positions);
+    simulationRef.current?.setTargets(to);
+
+    // Colours morph alongside: freeze the current blend, then load the new shape's
+    // colours (alpha 0 where the shape has none, which falls back to the solid colour)
+    const startColor = geometry.attributes.aColor as THREE.BufferAttribute;
+    const targetColor = geometry.attributes.aTargetColor as THREE.BufferAttribute;
+    const fromColor = startColor.array as Float32Array;
+    const toColor = targetColor.array as Float32Array;
+    blendMorph(fromColor, toColor, 4, fromColor);
+    for (let i = 0; i < particleCount; i++) {
+      const i3 = i * 3;
+      const i4 = i * 4;
+      if (sample.colors) {
+        toColor[i4] = sample.colors[i3];
+        toColor[i4 + 1] = sample.colors[i3 + 1];
+        toColor[i4 + 2] = sample.colors[i3 + 2];
+        toColor[i4 + 3] = 1;
+      } else {
+        toColor[i4 + 3] = 0;
+      }
+    }
+
+    start.needsUpdate = true;
+    target.needsUpdate = true;
+    startColor.needsUpdate = true;
+    targetColor.needsUpdate = true;
+    morphElapsedRef.current = 0;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [currentShape, shapeParams, shapeRevision, geometry, particleCount]);
 
-  // Update target positions when shape changes
+  // Physics mode: hand the current morph state to the GPU simulation, and take
+  // the simulated positions back as the morph start when leaving it
   useEffect(() => {
-    const newTargets = generateParticles(currentShape);
-    targetPositions.set(newTargets);
-  }, [currentShape, targetPositions]);
+    if (!simulation.enabled) return;
 
-  // Animation Loop
-  useFrame((state) => {
-    if (!pointsRef.current) return;
+    const start = geometry.attributes.position as THREE.BufferAttribute;
+    const target = geometry.attributes.aTarget as THREE.BufferAttribute;
+    const from = start.array as Float32Array;
+    const to = target.array as Float32Array;
+    const current = new Float32Array(from.length);
+    blendMorph(from, to, 3, current);
 
-    const geometry = pointsRef.current.geometry;
-    const positionAttribute = geometry.attributes.position;
-    
-    // Lerp Speed (Response speed)
-    const lerpSpeed = 0.15; 
+    const sim = createParticleSimulation(gl, current, to);
+    simulationRef.current = sim;
+    material.uniforms.uSimulated.value = 1;
+
+    return () => {
+      sim.readPositions(from);
+      start.needsUpdate = true;
+      morphElapsedRef.current = 0;
+
+      simulationRef.current = null;
+      material.uniforms.uSimulated.value = 0;
+      material.uniforms.uPositions.value = null;
+      material.uniforms.uVelocities.value = null;
+      sim.dispose();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [simulation.enabled, geometry, material, gl]);
+
+  // Animation Loop: only uniforms change per frame
+  useFrame((state, delta) => {
+    const uniforms = material.uniforms;
     
-    // Get interactive data
+    // Get interactive data, interpolated between hand detections
+    interpolator.push(interactionRef.current, performance.now());
+    const sampled = interpolator.sample(performance.now());
     const { 
       scale: targetScale, 
       position: targetPos,
-      rotation: targetRot 
-    } = interactionRef.current;
+      rotation: targetRot,
+      params: targetParams = {}
+    } = cloudTransform ? sampled : { ...REST_TRANSFORM, params: sampled.params };
+
+    // Each target eases with the smoothing of the binding driving it, independent of frame rate
+    const handCount = handsRef.current.length;
+    const follow = (target: MappingTarget) => {
+      const smoothing = smoothingFor(mapping, target, handCount);
+      return smoothing > 0 ? 1 - Math.exp(-delta / smoothing) : 1;
+    };
     
     // 1. Smooth Scale
-    currentScaleRef.current = THREE.MathUtils.lerp(currentScaleRef.current, targetScale, 0.15);
+    currentScaleRef.current = THREE.MathUtils.lerp(currentScaleRef.current, targetScale, follow(MappingTarget.SCALE));
     const smoothedScale = currentScaleRef.current;
 
     // 2. Smooth Position
-    currentPosRef.current.x = THREE.MathUtils.lerp(currentPosRef.current.x, targetPos.x, 0.1);
-    currentPosRef.current.y = THREE.MathUtils.lerp(currentPosRef.current.y, targetPos.y, 0.1);
-    const offsetX = currentPosRef.current.x;
-    const offsetY = currentPosRef.current.y;
+    currentPosRef.current.x = THREE.MathUtils.lerp(currentPosRef.current.x, targetPos.x, follow(MappingTarget.POSITION_X));
+    currentPosRef.current.y = THREE.MathUtils.lerp(currentPosRef.current.y, targetPos.y, follow(MappingTarget.POSITION_Y));
 
     // 3. Smooth Rotation
-    currentRotRef.current.x = THREE.MathUtils.lerp(currentRotRef.current.x, targetRot.x, 0.1);
-    currentRotRef.current.y = THREE.MathUtils.lerp(currentRotRef.current.y, targetRot.y, 0.1);
-    currentRotRef.current.z = THREE.MathUtils.lerp(currentRotRef.current.z, targetRot.z, 0.1);
+    currentRotRef.current.x = THREE.MathUtils.lerp(currentRotRef.current.x, targetRot.x, follow(MappingTarget.ROTATION_X));
+    currentRotRef.current.y = THREE.MathUtils.lerp(currentRotRef.current.y, targetRot.y, follow(MappingTarget.ROTATION_Y));
+    currentRotRef.current.z = THREE.MathUtils.lerp(currentRotRef.current.z, targetRot.z, follow(MappingTarget.ROTATION_Z));
+
+    // Mapped extras ease back to neutral (or the configured turbulence) when nothing drives them
+    const params = currentParamsRef.current;
+    params.hue = THREE.MathUtils.lerp(params.hue, targetParams.hue ?? 0, follow(MappingTarget.HUE));
+    params.morph = THREE.MathUtils.lerp(params.morph, THREE.MathUtils.clamp(targetParams.morph ?? 1, 0, 1), follow(MappingTarget.MORPH));
+    params.turbulence = THREE.MathUtils.lerp(params.turbulence, targetParams.turbulence ?? simulation.turbulence, follow(MappingTarget.TURBULENCE));
+    params.particleSize = THREE.MathUtils.lerp(params.particleSize, targetParams.particleSize ?? 1, follow(MappingTarget.PARTICLE_SIZE));
     
-    // Pre-calculate rotation matrix to apply to every particle efficiently
-    const euler = new THREE.Euler(
+    euler.set(
         currentRotRef.current.x,
         currentRotRef.current.y + state.clock.getElapsedTime() * 0.05, // Add subtle auto-spin
         currentRotRef.current.z
     );
-    const quaternion = new THREE.Quaternion().setFromEuler(euler);
-    const tempVec = new THREE.Vector3();
+    quaternion.setFromEuler(euler);
 
-    // Loop through particles
-    for (let i = 0; i < PARTICLE_COUNT; i++) {
-      const i3 = i * 3;
+    // Music: bass and beats pump the size, mids deepen the breathing (both on top of the hands)
+    const audio = audioRef.current;
+    const pulse = beatPulse(audio, performance.now());
+    const audioScale = 1 + audioMapping.scale * (0.3 * audio.bass + 0.4 * pulse);
+    const breathingAmount = 0.05 + audioMapping.breathing * audio.mid * 0.25;
+
+    // Breathing only while idle, so it does not fight the hands
+    const breathing = Math.sin(state.clock.getElapsedTime() * 2) * breathingAmount + 1;
+    const isInteracting = Math.abs(smoothedScale - 1.0) > 0.05;
 
-      // A. Interpolate shape morphing
-      currentPositions[i3] += (targetPositions[i3] - currentPositions[i3]) * lerpSpeed;
-      currentPositions[i3 + 1] += (targetPositions[i3 + 1] - currentPositions[i3 + 1]) * lerpSpeed;
-      currentPositions[i3 + 2] += (targetPositions[i3 + 2] - currentPositions[i3 + 2]) * lerpSpeed;
-
-      // B. Apply Scale
-      const breathing = Math.sin(state.clock.getElapsedTime() * 2) * 0.05 + 1;
-      const isInteracting = Math.abs(smoothedScale - 1.0) > 0.05;
-      const finalScale = isInteracting ? smoothedScale : smoothedScale * breathing;
-
-      // C. Apply Rotation
-      tempVec.set(
-        currentPositions[i3],
-        currentPositions[i3 + 1],
-        currentPositions[i3 + 2]
-      );
-      
-      // Apply rotation quaternion
-      tempVec.applyQuaternion(quaternion);
-
-      // D. Apply Final Scale + Translation
-      positionAttribute.setXYZ(
-        i,
-        tempVec.x * finalScale + offsetX,
-        tempVec.y * finalScale + offsetY,
-        tempVec.z * finalScale
-      );
+    const finalScale = (isInteracting ? smoothedScale : smoothedScale * breathing) * audioScale;
+
+    morphElapsedRef.current += delta;
+
+    const progress = morphProgress();
+    uniforms.uMorphSpeed.value = Math.abs(progress - uniforms.uMorph.value) / Math.max(delta, 1e-3);
+    uniforms.uMorph.value = progress;
+    uniforms.uSize.value = POINT_SIZE * SPRITE_SIZE[renderStyle.sprite] * params.particleSize;
+
+    // Colour cycling: cycleSpeed 1 = one full palette / hue turn every 10 seconds; loud passages spin faster
+    const cycleSpeed = colorStyle.cycleSpeed + audioMapping.color * audio.level * 5;
+    colorPhaseRef.current = (colorPhaseRef.current + delta * cycleSpeed * 0.1) % 2;
+    uniforms.uColorPhase.value = colorPhaseRef.current + params.hue;
+    uniforms.uRotation.value.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    uniforms.uScale.value = finalScale;
+    uniforms.uOffset.value.copy(currentPosRef.current);
+
+    // Hands act in scene space, particles live in local space,
+    // so undo the cloud's translation, scale and rotation for each point
+    inverseQuaternion.copy(quaternion).invert();
+    const toLocal = (position: Attractor['position']) => {
+      tempVec.set(position.x - currentPosRef.current.x, position.y - currentPosRef.current.y, position.z)
+        .divideScalar(finalScale)
+        .applyQuaternion(inverseQuaternion);
+      return { x: tempVec.x, y: tempVec.y, z: tempVec.z };
+    };
+
+    // 4. Fireworks: blends in and out with the shape morph; bursts requested by gestures start here
+    const time = state.clock.getElapsedTime();
+    fireworksBlendRef.current += ((hasFireworks ? 1 : 0) - fireworksBlendRef.current) * (1 - Math.exp(-delta * FIREWORKS_BLEND_RATE));
+    uniforms.uFireworks.value = fireworksBlendRef.current;
+    uniforms.uTime.value = time;
+    if (hasFireworks) {
+      fireworks.update(time);
+      burstRequestsRef.current.forEach((position) => fireworks.burstAt(toLocal(position), time));
     }
+    burstRequestsRef.current = [];
+
+    // 5. Physics: the simulation ignores the fireworks effect and springs to the resting layout
+    const sim = simulationRef.current;
+    if (sim) {
+      const localAttractors: Attractor[] = attractorsFromHands(handsRef.current).map(({ position, strength }) => ({
+        position: toLocal(position),
+        strength
+      }));
 
-    positionAttribute.needsUpdate = true;
+      // Treble stirs the flow, on top of the (possibly gesture-driven) turbulence
+      Object.assign(simulationSettings, simulation);
+      simulationSettings.turbulence = params.turbulence + audioMapping.turbulence * audio.treble * 3;
+      sim.step(delta, state.clock.getElapsedTime(), simulationSettings, localAttractors);
+      uniforms.uPositions.value = sim.getPositionTexture();
+      uniforms.uVelocities.value = sim.getVelocityTexture();
+    }
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={PARTICLE_COUNT}
-          array={positions}
-          itemSize={3}
-        />
-      </bufferGeometry>
-      <pointsMaterial
-        size={0.08}
-        color={color}
-        sizeAttenuation={true}
-        depthWrite={false}
-        blending={THREE.AdditiveBlending}
-        transparent={true}
-        opacity={0.8}
-      />
-    </points>
+    <points geometry={geometry} material={material} frustumCulled={false} onBeforeRender={updateViewportScale} />
   );
 };
 
-const Scene: React.FC<SceneProps> = (props) => {
+// Trails and bloom. Mounted only while the style uses them; a positive useFrame
+// priority takes rendering over from r3f, which goes back to plain renders on unmount.
+const PostProcessing: React.FC<{ style: RenderStyle; rendererRef: React.MutableRefObject<FrameRenderer | null> }> = ({ style, rendererRef }) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+  const effects = useMemo(() => createPostProcessing(gl, scene, camera), [gl, scene, camera]);
+
+  useEffect(() => () => effects.dispose(), [effects]);
+
+  useEffect(() => {
+    effects.setStyle(style);
+  }, [effects, style]);
+
+  // Screenshots render one frame outside the loop; trails then fade as if at 60fps
+  useEffect(() => {
+    rendererRef.current = () => effects.render(1 / 60);
+    return () => {
+      rendererRef.current = null;
+    };
+  }, [effects, rendererRef]);
+
+  useFrame((_, delta) => effects.render(delta), 1);
+
+  return null;
+};
+
+// Hands the r3f root to the capture tools outside the Canvas
+const CaptureBridge: React.FC<{ captureRef: SceneProps['captureRef']; rendererRef: React.MutableRefObject<FrameRenderer | null> }> = ({ captureRef, rendererRef }) => {
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    captureRef.current = createCanvasCapture(get, rendererRef);
+    return () => {
+      captureRef.current = null;
+    };
+  }, [get, captureRef, rendererRef]);
+
+  return null;
+};
+
+const Scene: React.FC<SceneProps> = ({ secondCloud, quality, view, viewpoints, orbitEnabled, captureRef, cameraRigRef, ...props }) => {
+  // How frames reach the screen when post-processing is on, for captures
+  const rendererRef = useRef<FrameRenderer | null>(null);
+
   return (
     <div className="w-full h-screen bg-black">
-      <Canvas camera={{ position: [0, 0, 10], fov: 60 }} dpr={[1, 2]}>
+      <Canvas camera={{ position: [0, 0, 10], fov: 60 }} dpr={resolveDpr(quality)}>
         <color attach="background" args={['#050505']} />
         <ambientLight intensity={0.5} />
-        <Stars radius={100} depth={50} count={2000} factor={4} saturation={0} fade speed={1} />
+        {quality.stars > 0 && <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />}
         
-        <Particles {...props} />
+        {/* In GESTURE camera mode the first cloud's input moves the camera; a second cloud keeps its own transform */}
+        <Particles {...props} cloudTransform={view.mode !== CameraMode.GESTURE} />
+        {secondCloud && <Particles {...props} {...secondCloud} />}
+        {usesPostProcessing(props.renderStyle) && <PostProcessing style={props.renderStyle} rendererRef={rendererRef} />}
+        <CaptureBridge captureRef={captureRef} rendererRef={rendererRef} />
         
-        <OrbitControls 
-          enableZoom={false} 
-          enablePan={false} 
-          autoRotate={false} 
+        <CameraRig
+          view={view}
+          viewpoints={viewpoints}
+          interactionRef={props.interactionRef}
+          controlsEnabled={orbitEnabled}
+          rigRef={cameraRigRef}
         />
       </Canvas>
     </div>
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Film, Pause, Play, Plus, Repeat, RotateCcw, Trash2 } from 'lucide-react';
+import { getShape } from '../shapes';
+import {
+  ATTRACT_DELAY_OPTIONS,
+  AttractSettings,
+  DEFAULT_TIMELINE,
+  Easing,
+  Timeline,
+  TimelineKeyframe,
+  TimelinePlayer
+} from '../utils/timeline';
+import { MessageKey, useI18n } from '../i18n';
+
+interface TimelinePanelProps {
+  playerRef: React.MutableRefObject<TimelinePlayer | null>;
+  timeline: Timeline;
+  setTimeline: (timeline: Timeline) => void;
+  playing: boolean;
+  attract: AttractSettings;
+  setAttract: (settings: AttractSettings) => void;
+  attracting: boolean;
+  createKeyframe: (time: number) => TimelineKeyframe;  // snapshot of what is on screen now
+}
+
+const EASING_LABELS: Record<Easing, MessageKey> = {
+  [Easing.LINEAR]: 'easing.linear',
+  [Easing.EASE_IN]: 'easing.easeIn',
+  [Easing.EASE_OUT]: 'easing.easeOut',
+  [Easing.EASE_IN_OUT]: 'easing.easeInOut',
+  [Easing.HOLD]: 'easing.hold'
+};
+
+// Keyframes stay sorted and inside the timeline
+const normalize = (timeline: Timeline): Timeline => {
+  const keyframes = [...timeline.keyframes].sort((a, b) => a.time - b.time);
+  const last = keyframes[keyframes.length - 1]?.time ?? 0;
+  return { duration: Math.max(timeline.duration, last), keyframes };
+};
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  playerRef,
+  timeline,
+  setTimeline,
+  playing,
+  attract,
+  setAttract,
+  attracting,
+  createKeyframe
+}) => {
+  const { t, label } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [loop, setLoop] = useState(true);
+  const [time, setTime] = useState(0);
+
+  // The player runs outside React; poll its clock for the scrubber while visible
+  useEffect(() => {
+    if (!open) return;
+    const timer = setInterval(() => setTime(playerRef.current?.getTime() ?? 0), 100);
+    return () => clearInterval(timer);
+  }, [open, playerRef]);
+
+  useEffect(() => {
+    playerRef.current?.setLoop(loop);
+  }, [loop, playerRef]);
+
+  const togglePlay = () => {
+    if (playing) playerRef.current?.pause();
+    else playerRef.current?.play();
+  };
+
+  const seek = (t: number) => {
+    playerRef.current?.seek(t);
+    setTime(t);
+  };
+
+  const updateKeyframe = (index: number, patch: Partial<TimelineKeyframe>) => {
+    setTimeline(normalize({
+      ...timeline,
+      keyframes: timeline.keyframes.map((keyframe, i) => (i === index ? { ...keyframe, ...patch } : keyframe))
+    }));
+  };
+
+  const removeKeyframe = (index: number) => {
+    setTimeline({ ...timeline, keyframes: timeline.keyframes.filter((_, i) => i !== index) });
+  };
+
+  const addKeyframe = () => {
+    // At the playhead, or a few seconds after the last keyframe when the playhead sits on one
+    const last = timeline.keyframes[timeline.keyframes.length - 1];
+    const taken = timeline.keyframes.some((keyframe) => Math.abs(keyframe.time - time) < 0.05);
+    const at = taken && last ? last.time + 4 : time;
+    setTimeline(normalize({ duration: Math.max(timeline.duration, at + 4), keyframes: [...timeline.keyframes, createKeyframe(at)] }));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <Film size={16} className={playing ? 'text-cyan-400' : ''} />
+        {t('timeline.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-96 max-h-[60vh] overflow-y-auto bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-3 text-xs text-gray-400">
+          {/* Transport */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={togglePlay}
+              disabled={timeline.keyframes.length === 0}
+              className="p-2 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-all disabled:opacity-30"
+              title={t(playing ? 'common.pause' : 'common.play')}
+            >
+              {playing ? <Pause size={16} /> : <Play size={16} />}
+            </button>
+            <button
+              onClick={() => setLoop(!loop)}
+              className={`p-2 rounded-lg transition-all ${loop ? 'text-cyan-400' : 'text-gray-500 hover:text-white'}`}
+              title={t('timeline.loop')}
+            >
+              <Repeat size={16} />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={timeline.duration}
+              step={0.1}
+              value={Math.min(time, timeline.duration)}
+              onChange={(e) => seek(Number(e.target.value))}
+              className="flex-1 accent-cyan-400"
+              aria-label={t('timeline.position')}
+            />
+            <span className="w-20 text-right tabular-nums text-gray-300">
+              {time.toFixed(1)} / {timeline.duration.toFixed(0)} s
+            </span>
+          </div>
+
+          {/* Attract mode */}
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 cursor-pointer" title={t('timeline.attractHint')}>
+              <input
+                type="checkbox"
+                checked={attract.enabled}
+                onChange={(e) => setAttract({ ...attract, enabled: e.target.checked })}
+                className="accent-cyan-400"
+              />
+              {t('timeline.attract')}
+            </label>
+            <select
+              value={attract.delay}
+              onChange={(e) => setAttract({ ...attract, delay: Number(e.target.value) })}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer"
+              aria-label={t('timeline.attractDelay')}
+            >
+              {ATTRACT_DELAY_OPTIONS.map((delay) => (
+                <option key={delay} value={delay} className="bg-gray-900">{t('timeline.attractAfter', { seconds: delay })}</option>
+              ))}
+            </select>
+            {attracting && <span className="ml-auto text-cyan-300">{t('timeline.attracting')}</span>}
+          </div>
+
+          {/* Keyframes */}
+          <div className="flex flex-col gap-1">
+            {timeline.keyframes.map((keyframe, i) => (
+              <div key={i} className="flex items-center gap-2 rounded-lg px-1 py-0.5 hover:bg-white/5">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={keyframe.time}
+                  onChange={(e) => updateKeyframe(i, { time: Math.max(0, Number(e.target.value)) })}
+                  className="w-12 bg-transparent text-gray-300 outline-none tabular-nums"
+                  aria-label={t('timeline.keyframeTime')}
+                />
+                <button onClick={() => seek(keyframe.time)} className="flex items-center gap-1.5 flex-1 min-w-0 text-left" title={t('timeline.seek')}>
+                  <span className="w-3 h-3 shrink-0 rounded-full" style={{ backgroundColor: keyframe.color }} />
+                  <span className="truncate text-gray-200">{label(getShape(keyframe.shape)?.label ?? keyframe.shape)}</span>
+                </button>
+                <select
+                  value={keyframe.easing}
+                  onChange={(e) => updateKeyframe(i, { easing: e.target.value as Easing })}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer"
+                  aria-label={t('timeline.keyframeEasing')}
+                >
+                  {Object.values(Easing).map((easing) => (
+                    <option key={easing} value={easing} className="bg-gray-900">{t(EASING_LABELS[easing])}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1" title={t('timeline.morphDuration')}>
+                  <input
+                    type="number"
+                    min={0.1}
+                    max={10}
+                    step={0.1}
+                    value={keyframe.morphDuration}
+                    onChange={(e) => updateKeyframe(i, { morphDuration: Math.max(0.1, Number(e.target.value)) })}
+                    className="w-10 bg-transparent text-gray-300 outline-none tabular-nums"
+                    aria-label={t('timeline.morphDuration')}
+                  />
+                  s
+                </label>
+                <button
+                  onClick={() => removeKeyframe(i)}
+                  className="p-1 text-gray-500 hover:text-red-400"
+                  title={t('timeline.deleteKeyframe')}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={addKeyframe}
+              className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-all"
+              title={t('timeline.addKeyframeHint')}
+            >
+              <Plus size={14} />
+              {t('timeline.addKeyframe')}
+            </button>
+            <label className="flex items-center gap-1 ml-auto" title={t('timeline.durationHint')}>
+              {t('timeline.duration')}
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={timeline.duration}
+                onChange={(e) => setTimeline(normalize({ ...timeline, duration: Math.max(1, Number(e.target.value)) }))}
+                className="w-12 bg-transparent text-gray-300 outline-none tabular-nums"
+                aria-label={t('timeline.durationHint')}
+              />
+              s
+            </label>
+            <button
+              onClick={() => setTimeline(DEFAULT_TIMELINE)}
+              className="p-1.5 rounded-lg hover:text-white hover:bg-white/5 transition-all"
+              title={t('timeline.reset')}
+            >
+              <RotateCcw size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
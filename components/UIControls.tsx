@@ -1,34 +1,318 @@
-import React, { useState } from 'react';
-import { ParticleShape } from '../types';
-import { Maximize2, Minimize2, Palette, Shapes } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { SIMULATION_RANGES, SimulationSettings } from '../utils/particleSimulation';
+import { CONFIDENCE_RANGE, DETECTION_RATE_OPTIONS, HandTrackingOptions, NUM_HANDS_OPTIONS } from '../inputs/handLandmarker';
+import { DropoutMode, FILTER_RANGES, FilterSettings, SmoothingMode } from '../utils/handFilter';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS, CameraSettings } from '../inputs/camera';
+import { MODEL_EXTENSIONS, MODEL_SHAPE_ID, getShape, listShapes } from '../shapes';
+import { CYCLE_SPEED_RANGE, ColorMode, ColorStyle, PALETTES } from '../utils/colors';
+import { SceneConfig } from '../utils/presets';
+import { AttractSettings, Easing, Timeline, TimelineKeyframe, TimelinePlayer } from '../utils/timeline';
+import { AudioFeatures, AudioMapping, AudioSourceKind } from '../inputs/audio';
+import { MappingBinding } from '../utils/mapping';
+import { CloudGrouping, CloudInteraction, MultiUserSettings } from '../utils/multiUser';
+import { MORPH_DURATION_RANGE, MORPH_SCRUB_ID, MorphSettings, MorphStyle, createMorphScrubBinding } from '../utils/morph';
+import { PerformanceSettings } from '../utils/performance';
+import { RenderStyle } from '../utils/renderStyle';
+import { ViewSettings, Viewpoint } from '../utils/cameraRig';
+import PresetGallery from './PresetGallery';
+import AudioPanel from './AudioPanel';
+import TimelinePanel from './TimelinePanel';
+import MappingPanel from './MappingPanel';
+import PerformancePanel from './PerformancePanel';
+import RenderPanel from './RenderPanel';
+import ViewPanel from './ViewPanel';
+import { I18n, LOCALES, LOCALE_NAMES, Locale, MessageKey, useI18n } from '../i18n';
+import { ShapeId, ShapeParams, TrackedHand, InputMode, InputStatus, InputError, COLOR_PRESETS, PARTICLE_COUNT_OPTIONS, Gesture, GestureEvent } from '../types';
+import { Atom, Blend, Box, Users, Bug, Languages, Circle, Image as ImageIcon, Send, Type, Clapperboard, FolderOpen, Hand, SlidersHorizontal, Sparkles, Keyboard, LucideIcon, Maximize2, Minimize2, MousePointer2, Palette, Pause, Play, RotateCcw, Shapes } from 'lucide-react';
 
 interface UIControlsProps {
-  currentShape: ParticleShape;
-  setShape: (shape: ParticleShape) => void;
+  currentShape: ShapeId;
+  setShape: (shape: ShapeId) => void;
+  shapeParams?: ShapeParams;
+  setShapeParam: (key: string, value: number) => void;
+  onCreateText: (text: string) => void;
+  onLoadImage: (file: File) => void;
+  onLoadModel: (file: File) => void;
+  customShapeFailed: ShapeId | null;  // the upload that could not be loaded, if the last one failed
   color: string;
   setColor: (color: string) => void;
-  isTracking: boolean;
+  colorStyle: ColorStyle;
+  setColorStyle: (style: ColorStyle) => void;
+  morph: MorphSettings;
+  setMorph: (morph: MorphSettings) => void;
+  multiUser: MultiUserSettings;
+  setMultiUser: (settings: MultiUserSettings) => void;
+  particleCount: number;
+  setParticleCount: (count: number) => void;
+  simulation: SimulationSettings;
+  setSimulation: (settings: SimulationSettings) => void;
+  inputMode: InputMode;
+  setInputMode: (mode: InputMode) => void;
+  inputStatus: InputStatus;
+  inputError: InputError | null;
+  cameras: MediaDeviceInfo[];
+  camera: CameraSettings;
+  setCamera: (camera: CameraSettings) => void;
+  cameraPaused: boolean;
+  setCameraPaused: (paused: boolean) => void;
+  showTrackingDebug: boolean;
+  setShowTrackingDebug: (show: boolean) => void;
+  handTracking: HandTrackingOptions;
+  setHandTracking: (options: HandTrackingOptions) => void;
+  handFilter: FilterSettings;
+  setHandFilter: (settings: FilterSettings) => void;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  onLoadSession: (file: File) => void;
+  sessionFailed: boolean;  // the last session file could not be read
+  lastGesture: GestureEvent | null;
+  sceneConfig: SceneConfig;
+  onApplyConfig: (config: SceneConfig) => void;
+  unavailableShape: ShapeId | null;  // asked for by the last preset or share link, replaced by the default
+  timelinePlayerRef: React.MutableRefObject<TimelinePlayer | null>;
+  timeline: Timeline;
+  setTimeline: (timeline: Timeline) => void;
+  timelinePlaying: boolean;
+  attract: AttractSettings;
+  setAttract: (settings: AttractSettings) => void;
+  attracting: boolean;
+  createKeyframe: (time: number) => TimelineKeyframe;
+  audioRef: React.MutableRefObject<AudioFeatures>;
+  audioSource: AudioSourceKind | null;
+  audioFailed: boolean;
+  onStartMicrophone: () => void;
+  onLoadAudioFile: (file: File) => void;
+  onStopAudio: () => void;
+  audioMapping: AudioMapping;
+  setAudioMapping: (mapping: AudioMapping) => void;
+  mapping: MappingBinding[];
+  setMapping: (mapping: MappingBinding[]) => void;
+  handsRef: React.MutableRefObject<TrackedHand[]>;
+  performanceSettings: PerformanceSettings;
+  setPerformanceSettings: (settings: PerformanceSettings) => void;
+  renderStyle: RenderStyle;
+  setRenderStyle: (style: RenderStyle) => void;
+  effectsAvailable: boolean;
+  view: ViewSettings;
+  setView: (view: ViewSettings) => void;
+  viewpoints: Viewpoint[];
+  setViewpoints: (viewpoints: Viewpoint[]) => void;
+  onSaveViewpoint: (name: string) => void;
+  onGoToViewpoint: (viewpoint: Viewpoint) => void;
+  onResetView: () => void;
 }
 
-const SHAPE_OPTIONS = Object.values(ParticleShape);
-const COLORS = ['#ffffff', '#ff6b6b', '#4ecdc4', '#ffe66d', '#ff9ff3', '#a29bfe'];
+const COLOR_MODE_LABELS: Record<ColorMode, MessageKey> = {
+  [ColorMode.SOLID]: 'color.mode.solid',
+  [ColorMode.SHAPE]: 'color.mode.shape',
+  [ColorMode.RADIUS]: 'color.mode.radius',
+  [ColorMode.HEIGHT]: 'color.mode.height',
+  [ColorMode.VELOCITY]: 'color.mode.velocity'
+};
+
+const MORPH_STYLE_LABELS: Record<MorphStyle, MessageKey> = {
+  [MorphStyle.DIRECT]: 'morph.style.direct',
+  [MorphStyle.EXPLODE]: 'morph.style.explode',
+  [MorphStyle.VORTEX]: 'morph.style.vortex',
+  [MorphStyle.STAGGER]: 'morph.style.stagger',
+  [MorphStyle.DISSOLVE]: 'morph.style.dissolve'
+};
+
+// Jumping at the end (Easing.HOLD) makes no sense for a morph
+const MORPH_EASING_LABELS: [Easing, MessageKey][] = [
+  [Easing.LINEAR, 'easing.linear'],
+  [Easing.EASE_IN, 'easing.easeIn'],
+  [Easing.EASE_OUT, 'easing.easeOut'],
+  [Easing.EASE_IN_OUT, 'easing.easeInOut']
+];
+
+const CLOUD_INTERACTION_LABELS: Record<CloudInteraction, MessageKey> = {
+  [CloudInteraction.NONE]: 'multiUser.interaction.none',
+  [CloudInteraction.REPEL]: 'multiUser.interaction.repel',
+  [CloudInteraction.MERGE]: 'multiUser.interaction.merge'
+};
+
+const INPUT_OPTIONS: { mode: InputMode; label: MessageKey; icon: LucideIcon }[] = [
+  { mode: InputMode.HANDS, label: 'input.hands', icon: Hand },
+  { mode: InputMode.POINTER, label: 'input.pointer', icon: MousePointer2 },
+  { mode: InputMode.KEYBOARD, label: 'input.keyboard', icon: Keyboard },
+  { mode: InputMode.SCRIPTED, label: 'input.scripted', icon: Clapperboard },
+  { mode: InputMode.REPLAY, label: 'input.replay', icon: FolderOpen }
+];
+
+const INPUT_HINTS: Record<InputMode, MessageKey> = {
+  [InputMode.HANDS]: 'input.hint.hands',
+  [InputMode.POINTER]: 'input.hint.pointer',
+  [InputMode.KEYBOARD]: 'input.hint.keyboard',
+  [InputMode.SCRIPTED]: 'input.hint.scripted',
+  [InputMode.REPLAY]: 'input.hint.replay'
+};
+
+const GESTURE_LABELS: Record<Gesture, MessageKey> = {
+  [Gesture.OPEN_PALM]: 'gesture.openPalm',
+  [Gesture.FIST]: 'gesture.fist',
+  [Gesture.POINT]: 'gesture.point',
+  [Gesture.PEACE]: 'gesture.peace',
+  [Gesture.THUMBS_UP]: 'gesture.thumbsUp',
+  [Gesture.SWIPE_LEFT]: 'gesture.swipeLeft',
+  [Gesture.SWIPE_RIGHT]: 'gesture.swipeRight',
+  [Gesture.BURST]: 'gesture.burst'
+};
+
+const INPUT_ERROR_LABELS: Record<InputError, MessageKey> = {
+  'camera-denied': 'error.cameraDenied',
+  'camera-not-found': 'error.cameraNotFound',
+  'camera-in-use': 'error.cameraInUse',
+  'camera-unsupported': 'error.cameraUnsupported',
+  'camera-disconnected': 'error.cameraDisconnected',
+  'tracker-failed': 'error.trackerFailed',
+  'empty-session': 'error.emptySession'
+};
+
+const getStatusLabel = (t: I18n['t'], mode: InputMode, status: InputStatus, error: InputError | null) => {
+  if (status === 'error') return t(error ? INPUT_ERROR_LABELS[error] : 'status.unavailable');
+  if (mode === InputMode.HANDS) {
+    if (status === 'active') return t('status.active');
+    if (status === 'searching') return t('status.searching');
+    if (status === 'paused') return t('status.paused');
+    return t('status.initializing');
+  }
+  const option = INPUT_OPTIONS.find((o) => o.mode === mode);
+  return t('status.controlling', { input: option ? t(option.label) : mode });
+};
 
-const SHAPE_LABELS: Record<ParticleShape, string> = {
-  [ParticleShape.GALAXY]: '星系',
-  [ParticleShape.HEART]: '爱心',
-  [ParticleShape.FLOWER]: '花朵',
-  [ParticleShape.SATURN]: '土星',
-  [ParticleShape.FIREWORKS]: '烟花'
+const SMOOTHING_LABELS: Record<SmoothingMode, MessageKey> = {
+  [SmoothingMode.NONE]: 'tracking.smoothing.none',
+  [SmoothingMode.ONE_EURO]: 'tracking.smoothing.oneEuro',
+  [SmoothingMode.KALMAN]: 'tracking.smoothing.kalman'
+};
+
+const DROPOUT_LABELS: Record<DropoutMode, MessageKey> = {
+  hold: 'tracking.dropout.hold',
+  ease: 'tracking.dropout.ease'
+};
+
+const STATUS_DOT: Record<InputStatus, string> = {
+  initializing: 'bg-yellow-400',
+  searching: 'bg-yellow-400 animate-pulse',
+  active: 'bg-green-500 animate-pulse',
+  paused: 'bg-gray-400',
+  error: 'bg-red-500'
 };
 
 const UIControls: React.FC<UIControlsProps> = ({ 
   currentShape, 
   setShape, 
+  shapeParams,
+  setShapeParam,
+  onCreateText,
+  onLoadImage,
+  onLoadModel,
+  customShapeFailed,
   color, 
   setColor,
-  isTracking
+  colorStyle,
+  setColorStyle,
+  morph,
+  setMorph,
+  multiUser,
+  setMultiUser,
+  particleCount,
+  setParticleCount,
+  simulation,
+  setSimulation,
+  inputMode,
+  setInputMode,
+  inputStatus,
+  inputError,
+  cameras,
+  camera,
+  setCamera,
+  cameraPaused,
+  setCameraPaused,
+  showTrackingDebug,
+  setShowTrackingDebug,
+  handTracking,
+  setHandTracking,
+  handFilter,
+  setHandFilter,
+  isRecording,
+  onToggleRecording,
+  onLoadSession,
+  sessionFailed,
+  lastGesture,
+  sceneConfig,
+  onApplyConfig,
+  unavailableShape,
+  timelinePlayerRef,
+  timeline,
+  setTimeline,
+  timelinePlaying,
+  attract,
+  setAttract,
+  attracting,
+  createKeyframe,
+  audioRef,
+  audioSource,
+  audioFailed,
+  onStartMicrophone,
+  onLoadAudioFile,
+  onStopAudio,
+  audioMapping,
+  setAudioMapping,
+  mapping,
+  setMapping,
+  handsRef,
+  performanceSettings,
+  setPerformanceSettings,
+  renderStyle,
+  setRenderStyle,
+  effectsAvailable,
+  view,
+  setView,
+  viewpoints,
+  setViewpoints,
+  onSaveViewpoint,
+  onGoToViewpoint,
+  onResetView
 }) => {
+  const { t, label, locale, setLocale } = useI18n();
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const paramSchema = getShape(currentShape)?.params ?? [];
+
+  // Gesture scrubbing is an ordinary mapping binding, switched on and off from here
+  const morphScrub = mapping.some((binding) => binding.id === MORPH_SCRUB_ID && binding.enabled);
+  const toggleMorphScrub = () => {
+    const rest = mapping.filter((binding) => binding.id !== MORPH_SCRUB_ID);
+    setMapping(morphScrub ? rest : [...rest, createMorphScrubBinding()]);
+  };
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [customText, setCustomText] = useState('');
+  const [showTrackingSettings, setShowTrackingSettings] = useState(false);
+
+  const selectInput = (mode: InputMode) => {
+    // Replay always asks for a session file; App switches mode once it parses
+    if (mode === InputMode.REPLAY) {
+      sessionInputRef.current?.click();
+    } else {
+      setInputMode(mode);
+    }
+  };
+
+  const handleFile = (load: (file: File) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) load(file);
+    e.target.value = '';
+  };
+
+  const submitText = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (customText.trim()) onCreateText(customText.trim());
+  };
+
+  const handleSessionFile = handleFile(onLoadSession);
 
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -49,52 +333,448 @@ const UIControls: React.FC<UIControlsProps> = ({
         <div className="bg-black/40 backdrop-blur-md p-4 rounded-2xl border border-white/10 shadow-xl">
           <h1 className="text-white font-bold text-xl tracking-wider flex items-center gap-2">
             <Shapes className="w-5 h-5 text-cyan-400" />
-            粒子<span className="text-cyan-400">流体</span>
+            {t('app.title')}<span className="text-cyan-400">{t('app.titleAccent')}</span>
           </h1>
           <div className="flex items-center gap-2 mt-2">
-            <div className={`w-2 h-2 rounded-full ${isTracking ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
-            <span className="text-xs text-gray-300 uppercase tracking-widest">
-              {isTracking ? '摄像头已开启' : '视觉系统初始化中...'}
+            <div className={`w-2 h-2 rounded-full shrink-0 ${STATUS_DOT[inputStatus]}`} />
+            <span className="text-xs text-gray-300 uppercase tracking-widest max-w-[240px]">
+              {getStatusLabel(t, inputMode, inputStatus, inputError)}
             </span>
+            {inputError?.startsWith('camera-') && (
+              <button
+                onClick={() => setCamera({ ...camera })}
+                className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+                title={t('camera.retry')}
+                aria-label={t('camera.retry')}
+              >
+                <RotateCcw size={12} />
+              </button>
+            )}
           </div>
           <p className="text-xs text-gray-400 mt-1 max-w-[240px]">
-            双手张合控制粒子扩散与缩放。
+            {t(INPUT_HINTS[inputMode])}
           </p>
+          {lastGesture && (
+            <p key={lastGesture.timestamp} className="text-xs text-cyan-300 mt-1">
+              ✋ {t(GESTURE_LABELS[lastGesture.type])}
+            </p>
+          )}
+
+          {/* Input Source Selector */}
+          <div className="flex gap-1 mt-3">
+            {INPUT_OPTIONS.map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => selectInput(mode)}
+                className={`p-2 rounded-lg transition-all ${
+                  inputMode === mode
+                    ? 'bg-cyan-500/80 text-white'
+                    : 'text-gray-400 hover:text-white hover:bg-white/5'
+                }`}
+                title={t(label)}
+                aria-label={t('input.use', { input: t(label) })}
+              >
+                <Icon size={16} />
+              </button>
+            ))}
+
+            {inputMode === InputMode.HANDS && (inputStatus === 'searching' || inputStatus === 'active') && (
+              <button
+                onClick={onToggleRecording}
+                className={`ml-auto p-2 rounded-lg transition-all ${
+                  isRecording ? 'bg-red-500/80 text-white animate-pulse' : 'text-gray-400 hover:text-white hover:bg-white/5'
+                }`}
+                title={t(isRecording ? 'common.stopAndSave' : 'input.recordSession')}
+                aria-label={t(isRecording ? 'common.stopAndSave' : 'input.recordSession')}
+              >
+                <Circle size={16} className={isRecording ? 'fill-current' : ''} />
+              </button>
+            )}
+            <input
+              ref={sessionInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleSessionFile}
+            />
+          </div>
+          {sessionFailed && <p className="text-xs text-red-400 mt-1">{t('input.sessionFailed')}</p>}
+
+          {/* Hand Tracking Settings */}
+          {inputMode === InputMode.HANDS && (
+            <div className="flex flex-col gap-1.5 mt-3 text-xs text-gray-400">
+              <div className="flex items-center gap-1">
+                <select
+                  value={camera.deviceId ?? ''}
+                  onChange={(e) => setCamera({ ...camera, deviceId: e.target.value || null })}
+                  className="w-32 bg-transparent text-gray-300 outline-none cursor-pointer truncate"
+                  aria-label={t('camera.device')}
+                >
+                  <option value="" className="bg-gray-900">{t('camera.default')}</option>
+                  {cameras.filter((device) => device.deviceId).map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId} className="bg-gray-900">
+                      {device.label || t('camera.numbered', { index: i + 1 })}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={`${camera.width}x${camera.height}`}
+                  onChange={(e) => {
+                    const [width, height] = e.target.value.split('x').map(Number);
+                    setCamera({ ...camera, width, height });
+                  }}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer"
+                  aria-label={t('camera.resolution')}
+                >
+                  {CAMERA_RESOLUTIONS.map(({ label, width, height }) => (
+                    <option key={label} value={`${width}x${height}`} className="bg-gray-900">{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={camera.frameRate}
+                  onChange={(e) => setCamera({ ...camera, frameRate: Number(e.target.value) })}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer"
+                  aria-label={t('camera.frameRate')}
+                >
+                  {CAMERA_FRAME_RATES.map((fps) => (
+                    <option key={fps} value={fps} className="bg-gray-900">{fps} fps</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setCameraPaused(!cameraPaused)}
+                  disabled={inputStatus === 'error' || inputStatus === 'initializing'}
+                  className="ml-auto p-1.5 rounded-md hover:text-white hover:bg-white/5 transition-all disabled:opacity-30"
+                  title={t(cameraPaused ? 'camera.resume' : 'camera.pause')}
+                  aria-label={t(cameraPaused ? 'camera.resume' : 'camera.pause')}
+                >
+                  {cameraPaused ? <Play size={14} /> : <Pause size={14} />}
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                {t('tracking.hands')}
+                {NUM_HANDS_OPTIONS.map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => setHandTracking({ ...handTracking, numHands: n })}
+                    className={`px-2 py-0.5 rounded-md transition-all ${
+                      handTracking.numHands === n ? 'bg-cyan-500/80 text-white' : 'hover:text-white hover:bg-white/5'
+                    }`}
+                  >
+                    {n}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setShowTrackingSettings(!showTrackingSettings)}
+                  className={`ml-auto p-1.5 rounded-md transition-all ${
+                    showTrackingSettings ? 'bg-cyan-500/80 text-white' : 'hover:text-white hover:bg-white/5'
+                  }`}
+                  title={t('tracking.settings')}
+                  aria-label={t('tracking.settings')}
+                >
+                  <SlidersHorizontal size={14} />
+                </button>
+                <button
+                  onClick={() => setShowTrackingDebug(!showTrackingDebug)}
+                  className={`p-1.5 rounded-md transition-all ${
+                    showTrackingDebug ? 'bg-cyan-500/80 text-white' : 'hover:text-white hover:bg-white/5'
+                  }`}
+                  title={t('tracking.debug')}
+                  aria-label={t('tracking.debug')}
+                >
+                  <Bug size={14} />
+                </button>
+              </div>
+              {showTrackingSettings && (
+                <>
+                <label className="flex items-center justify-between gap-2" title={t('tracking.detectionHint')}>
+                  {t('tracking.detection')}
+                  <input
+                    type="range"
+                    min={CONFIDENCE_RANGE.min}
+                    max={CONFIDENCE_RANGE.max}
+                    step={0.05}
+                    value={handTracking.minHandDetectionConfidence}
+                    onChange={(e) => setHandTracking({ ...handTracking, minHandDetectionConfidence: Number(e.target.value) })}
+                    className="w-24 accent-cyan-400"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2" title={t('tracking.trackingHint')}>
+                  {t('tracking.tracking')}
+                  <input
+                    type="range"
+                    min={CONFIDENCE_RANGE.min}
+                    max={CONFIDENCE_RANGE.max}
+                    step={0.05}
+                    value={handTracking.minTrackingConfidence}
+                    onChange={(e) => setHandTracking({ ...handTracking, minTrackingConfidence: Number(e.target.value) })}
+                    className="w-24 accent-cyan-400"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2" title={t('tracking.rateHint')}>
+                  {t('tracking.rate')}
+                  <select
+                    value={handTracking.detectionRate}
+                    onChange={(e) => setHandTracking({ ...handTracking, detectionRate: Number(e.target.value) })}
+                    className="bg-transparent text-gray-300 outline-none cursor-pointer"
+                  >
+                    {DETECTION_RATE_OPTIONS.map((rate) => (
+                      <option key={rate} value={rate} className="bg-gray-900">{rate === 0 ? t('tracking.everyFrame') : `${rate} Hz`}</option>
+                    ))}
+                  </select>
+                </label>
+
+                {/* Filtering */}
+                <div className="flex items-center gap-2">
+                  <select
+                    value={handFilter.smoothing}
+                    onChange={(e) => setHandFilter({ ...handFilter, smoothing: e.target.value as SmoothingMode })}
+                    className="bg-transparent text-gray-300 outline-none cursor-pointer"
+                    aria-label={t('tracking.smoothing')}
+                  >
+                    {Object.values(SmoothingMode).map((mode) => (
+                      <option key={mode} value={mode} className="bg-gray-900">{t(SMOOTHING_LABELS[mode])}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={handFilter.dropout}
+                    onChange={(e) => setHandFilter({ ...handFilter, dropout: e.target.value as DropoutMode })}
+                    className="ml-auto bg-transparent text-gray-300 outline-none cursor-pointer"
+                    aria-label={t('tracking.dropout')}
+                  >
+                    {(Object.keys(DROPOUT_LABELS) as DropoutMode[]).map((mode) => (
+                      <option key={mode} value={mode} className="bg-gray-900">{t(DROPOUT_LABELS[mode])}</option>
+                    ))}
+                  </select>
+                </div>
+                {handFilter.smoothing === SmoothingMode.ONE_EURO && (
+                  <>
+                    <label className="flex items-center justify-between gap-2" title={t('tracking.minCutoffHint')}>
+                      {t('tracking.minCutoff')}
+                      <input
+                        type="range"
+                        min={FILTER_RANGES.minCutoff.min}
+                        max={FILTER_RANGES.minCutoff.max}
+                        step={0.1}
+                        value={handFilter.minCutoff}
+                        onChange={(e) => setHandFilter({ ...handFilter, minCutoff: Number(e.target.value) })}
+                        className="w-24 accent-cyan-400"
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-2" title={t('tracking.betaHint')}>
+                      {t('tracking.beta')}
+                      <input
+                        type="range"
+                        min={FILTER_RANGES.beta.min}
+                        max={FILTER_RANGES.beta.max}
+                        step={0.1}
+                        value={handFilter.beta}
+                        onChange={(e) => setHandFilter({ ...handFilter, beta: Number(e.target.value) })}
+                        className="w-24 accent-cyan-400"
+                      />
+                    </label>
+                  </>
+                )}
+                {handFilter.smoothing === SmoothingMode.KALMAN && (
+                  <label className="flex items-center justify-between gap-2" title={t('tracking.responseHint')}>
+                    {t('tracking.response')}
+                    <input
+                      type="range"
+                      min={Math.log10(FILTER_RANGES.processNoise.min)}
+                      max={Math.log10(FILTER_RANGES.processNoise.max)}
+                      step={0.1}
+                      value={Math.log10(handFilter.processNoise)}
+                      onChange={(e) => setHandFilter({ ...handFilter, processNoise: 10 ** Number(e.target.value) })}
+                      className="w-24 accent-cyan-400"
+                    />
+                  </label>
+                )}
+                <label className="flex items-center justify-between gap-2" title={t('tracking.graceHint')}>
+                  {t('tracking.grace', { ms: handFilter.graceMs })}
+                  <input
+                    type="range"
+                    min={FILTER_RANGES.graceMs.min}
+                    max={FILTER_RANGES.graceMs.max}
+                    step={50}
+                    value={handFilter.graceMs}
+                    onChange={(e) => setHandFilter({ ...handFilter, graceMs: Number(e.target.value) })}
+                    className="w-24 accent-cyan-400"
+                  />
+                </label>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
-        <button 
-          onClick={toggleFullscreen}
-          className="bg-black/40 backdrop-blur-md p-3 rounded-full border border-white/10 hover:bg-white/10 transition-all text-white"
-        >
-          {isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}
-        </button>
+        <div className="flex items-center gap-2">
+          {/* Language */}
+          <label
+            className="bg-black/40 backdrop-blur-md flex items-center gap-2 px-3 py-2.5 rounded-full border border-white/10 text-gray-300"
+            title={t('app.language')}
+          >
+            <Languages size={16} />
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              className="bg-transparent text-sm outline-none cursor-pointer"
+              aria-label={t('app.language')}
+            >
+              {LOCALES.map((option) => (
+                <option key={option} value={option} lang={option} className="bg-gray-900">{LOCALE_NAMES[option]}</option>
+              ))}
+            </select>
+          </label>
+
+          <button 
+            onClick={toggleFullscreen}
+            className="bg-black/40 backdrop-blur-md p-3 rounded-full border border-white/10 hover:bg-white/10 transition-all text-white"
+            title={t(isFullscreen ? 'app.exitFullscreen' : 'app.fullscreen')}
+            aria-label={t(isFullscreen ? 'app.exitFullscreen' : 'app.fullscreen')}
+          >
+            {isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}
+          </button>
+        </div>
       </div>
 
       {/* Controls */}
-      <div className="flex flex-col md:flex-row gap-4 items-end md:items-center justify-center pointer-events-auto">
+      <div className="flex flex-col md:flex-row md:flex-wrap gap-4 items-end md:items-center justify-center pointer-events-auto">
         
         {/* Shape Selector */}
         <div className="bg-black/40 backdrop-blur-md p-2 rounded-2xl border border-white/10 flex gap-1 overflow-x-auto max-w-full">
-          {SHAPE_OPTIONS.map((shape) => (
+          {listShapes().map(({ id, label: shapeLabel, icon: Icon }) => (
             <button
-              key={shape}
-              onClick={() => setShape(shape)}
-              className={`px-4 py-2 rounded-xl text-sm font-medium transition-all whitespace-nowrap ${
-                currentShape === shape 
+              key={id}
+              onClick={() => setShape(id)}
+              className={`flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium transition-all whitespace-nowrap ${
+                currentShape === id 
                   ? 'bg-cyan-500/80 text-white shadow-lg shadow-cyan-500/20' 
                   : 'text-gray-400 hover:text-white hover:bg-white/5'
               }`}
             >
-              {SHAPE_LABELS[shape]}
+              <Icon size={14} />
+              {label(shapeLabel)}
             </button>
           ))}
         </div>
 
+        {/* Custom Sources: text, image, 3D model */}
+        <div className="bg-black/40 backdrop-blur-md p-2 rounded-2xl border border-white/10 flex items-center gap-1">
+          <form onSubmit={submitText} className="flex items-center gap-1">
+            <Type className="w-4 h-4 text-gray-400 ml-1" />
+            <input
+              type="text"
+              value={customText}
+              onChange={(e) => setCustomText(e.target.value)}
+              placeholder={t('custom.textPlaceholder')}
+              className="w-28 bg-transparent px-2 py-1.5 text-sm text-white placeholder-gray-500 outline-none"
+              aria-label={t('custom.text')}
+            />
+            <button
+              type="submit"
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+              title={t('custom.createText')}
+            >
+              <Send size={16} />
+            </button>
+          </form>
+          <button
+            onClick={() => imageInputRef.current?.click()}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+            title={t('custom.image')}
+          >
+            <ImageIcon size={16} />
+          </button>
+          <button
+            onClick={() => modelInputRef.current?.click()}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+            title={t('custom.model')}
+          >
+            <Box size={16} />
+          </button>
+          <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile(onLoadImage)} />
+          <input ref={modelInputRef} type="file" accept={MODEL_EXTENSIONS.join(',')} className="hidden" onChange={handleFile(onLoadModel)} />
+          {customShapeFailed && (
+            <span className="px-1 text-xs text-red-400">
+              {t(customShapeFailed === MODEL_SHAPE_ID ? 'custom.modelFailed' : 'custom.imageFailed')}
+            </span>
+          )}
+        </div>
+
+        {/* Shape Parameters */}
+        {paramSchema.length > 0 && (
+          <div className="bg-black/40 backdrop-blur-md p-3 rounded-2xl border border-white/10 flex items-center gap-3">
+            <SlidersHorizontal className="w-4 h-4 text-gray-400" />
+            {paramSchema.map((param) => (
+              <label key={param.key} className="flex items-center gap-2 text-xs text-gray-400 whitespace-nowrap">
+                {label(param.label)}
+                <input
+                  type="range"
+                  min={param.min}
+                  max={param.max}
+                  step={param.step}
+                  value={shapeParams?.[param.key] ?? param.default}
+                  onChange={(e) => setShapeParam(param.key, Number(e.target.value))}
+                  className="w-20 accent-cyan-400"
+                />
+                <span className="w-6 text-gray-300 tabular-nums">{shapeParams?.[param.key] ?? param.default}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {/* Morph transition */}
+        <div className="bg-black/40 backdrop-blur-md p-3 rounded-2xl border border-white/10 flex items-center gap-3">
+          <Blend className="w-4 h-4 text-gray-400" />
+          <select
+            value={morph.style}
+            onChange={(e) => setMorph({ ...morph, style: e.target.value as MorphStyle })}
+            className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+            aria-label={t('morph.style')}
+          >
+            {Object.values(MorphStyle).map((style) => (
+              <option key={style} value={style} className="bg-black">
+                {t(MORPH_STYLE_LABELS[style])}
+              </option>
+            ))}
+          </select>
+          <select
+            value={morph.easing}
+            onChange={(e) => setMorph({ ...morph, easing: e.target.value as Easing })}
+            className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+            aria-label={t('morph.easing')}
+          >
+            {MORPH_EASING_LABELS.map(([easing, easingLabel]) => (
+              <option key={easing} value={easing} className="bg-black">{t(easingLabel)}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-xs text-gray-400 whitespace-nowrap" title={t('morph.duration')}>
+            <input
+              type="range"
+              min={MORPH_DURATION_RANGE.min}
+              max={MORPH_DURATION_RANGE.max}
+              step={0.1}
+              value={morph.duration}
+              onChange={(e) => setMorph({ ...morph, duration: Number(e.target.value) })}
+              className="w-16 accent-cyan-400"
+            />
+            <span className="w-8 text-gray-300 tabular-nums">{morph.duration.toFixed(1)}s</span>
+          </label>
+          <label className="flex items-center gap-1.5 text-xs text-gray-400 whitespace-nowrap cursor-pointer" title={t('morph.scrubHint')}>
+            <input
+              type="checkbox"
+              checked={morphScrub}
+              onChange={toggleMorphScrub}
+              className="accent-cyan-400"
+            />
+            {t('morph.scrub')}
+          </label>
+        </div>
+
         {/* Color Selector */}
         <div className="bg-black/40 backdrop-blur-md p-3 rounded-2xl border border-white/10 flex items-center gap-3">
           <Palette className="w-4 h-4 text-gray-400" />
           <div className="flex gap-2">
-            {COLORS.map((c) => (
+            {COLOR_PRESETS.map((c) => (
               <button
                 key={c}
                 onClick={() => setColor(c)}
@@ -102,11 +782,236 @@ const UIControls: React.FC<UIControlsProps> = ({
                   color === c ? 'border-white scale-110' : 'border-transparent'
                 }`}
                 style={{ backgroundColor: c }}
-                aria-label={`Select color ${c}`}
+                aria-label={t('color.select', { color: c })}
               />
             ))}
+            {/* Custom colour */}
+            <label
+              className={`relative w-6 h-6 rounded-full border-2 cursor-pointer overflow-hidden transition-transform hover:scale-110 ${
+                COLOR_PRESETS.includes(color) ? 'border-white/30' : 'border-white scale-110'
+              }`}
+              style={{ background: 'conic-gradient(red, yellow, lime, aqua, blue, magenta, red)' }}
+              title={t('color.custom')}
+            >
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+                aria-label={t('color.custom')}
+              />
+            </label>
           </div>
+          <select
+            value={colorStyle.mode}
+            onChange={(e) => setColorStyle({ ...colorStyle, mode: e.target.value as ColorMode })}
+            className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+            aria-label={t('color.mode')}
+          >
+            {Object.values(ColorMode).map((mode) => (
+              <option key={mode} value={mode} className="bg-black">
+                {t(COLOR_MODE_LABELS[mode])}
+              </option>
+            ))}
+          </select>
+          {colorStyle.mode !== ColorMode.SOLID && colorStyle.mode !== ColorMode.SHAPE && (
+            <select
+              value={colorStyle.paletteId}
+              onChange={(e) => setColorStyle({ ...colorStyle, paletteId: e.target.value })}
+              className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+              aria-label={t('color.palette')}
+            >
+              {PALETTES.map((palette) => (
+                <option key={palette.id} value={palette.id} className="bg-black">
+                  {label(palette.label)}
+                </option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-2 text-xs text-gray-400" title={t('color.cycleHint')}>
+            {t('color.cycle')}
+            <input
+              type="range"
+              min={CYCLE_SPEED_RANGE.min}
+              max={CYCLE_SPEED_RANGE.max}
+              step={0.25}
+              value={colorStyle.cycleSpeed}
+              onChange={(e) => setColorStyle({ ...colorStyle, cycleSpeed: Number(e.target.value) })}
+              className="w-16 accent-cyan-400"
+            />
+          </label>
+        </div>
+
+        {/* Particle Count */}
+        <div className="bg-black/40 backdrop-blur-md p-3 rounded-2xl border border-white/10 flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-gray-400" />
+          <select
+            value={particleCount}
+            onChange={(e) => setParticleCount(Number(e.target.value))}
+            className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+            aria-label={t('particles.countLabel')}
+          >
+            {PARTICLE_COUNT_OPTIONS.map((count) => (
+              <option key={count} value={count} className="bg-black">
+                {t('particles.count', { count: count.toLocaleString(locale) })}
+              </option>
+            ))}
+          </select>
         </div>
+
+        {/* Physics Mode */}
+        <div className="bg-black/40 backdrop-blur-md p-2 rounded-2xl border border-white/10 flex items-center gap-3">
+          <button
+            onClick={() => setSimulation({ ...simulation, enabled: !simulation.enabled })}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-sm font-medium transition-all ${
+              simulation.enabled
+                ? 'bg-cyan-500/80 text-white shadow-lg shadow-cyan-500/20'
+                : 'text-gray-400 hover:text-white hover:bg-white/5'
+            }`}
+            title={t('physics.hint')}
+          >
+            <Atom size={16} />
+            {t('physics.mode')}
+          </button>
+          {simulation.enabled && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                {t('physics.turbulence')}
+                <input
+                  type="range"
+                  min={SIMULATION_RANGES.turbulence.min}
+                  max={SIMULATION_RANGES.turbulence.max}
+                  step={0.1}
+                  value={simulation.turbulence}
+                  onChange={(e) => setSimulation({ ...simulation, turbulence: Number(e.target.value) })}
+                  className="w-20 accent-cyan-400"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                {t('physics.handForce')}
+                <input
+                  type="range"
+                  min={SIMULATION_RANGES.handForce.min}
+                  max={SIMULATION_RANGES.handForce.max}
+                  step={5}
+                  value={simulation.handForce}
+                  onChange={(e) => setSimulation({ ...simulation, handForce: Number(e.target.value) })}
+                  className="w-20 accent-cyan-400"
+                />
+              </label>
+            </>
+          )}
+        </div>
+
+        {/* Multi-user mode */}
+        <div className="bg-black/40 backdrop-blur-md p-2 rounded-2xl border border-white/10 flex items-center gap-3">
+          <button
+            onClick={() => setMultiUser({ ...multiUser, enabled: !multiUser.enabled })}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-sm font-medium transition-all ${
+              multiUser.enabled
+                ? 'bg-cyan-500/80 text-white shadow-lg shadow-cyan-500/20'
+                : 'text-gray-400 hover:text-white hover:bg-white/5'
+            }`}
+            title={t('multiUser.hint')}
+          >
+            <Users size={16} />
+            {t('multiUser.mode')}
+          </button>
+          {multiUser.enabled && (
+            <>
+              <select
+                value={multiUser.grouping}
+                onChange={(e) => {
+                  const grouping = e.target.value as CloudGrouping;
+                  setMultiUser({ ...multiUser, grouping });
+                  // Two people need room for four hands
+                  if (grouping === 'person' && handTracking.numHands < 4) setHandTracking({ ...handTracking, numHands: 4 });
+                }}
+                className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+                aria-label={t('multiUser.grouping')}
+              >
+                <option value="hand" className="bg-black">{t('multiUser.grouping.hand')}</option>
+                <option value="person" className="bg-black">{t('multiUser.grouping.person')}</option>
+              </select>
+              <select
+                value={multiUser.interaction}
+                onChange={(e) => setMultiUser({ ...multiUser, interaction: e.target.value as CloudInteraction })}
+                className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+                aria-label={t('multiUser.interaction')}
+              >
+                {Object.values(CloudInteraction).map((interaction) => (
+                  <option key={interaction} value={interaction} className="bg-black">
+                    {t(CLOUD_INTERACTION_LABELS[interaction])}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={multiUser.shape}
+                onChange={(e) => setMultiUser({ ...multiUser, shape: e.target.value })}
+                className="bg-transparent text-sm text-gray-200 outline-none cursor-pointer"
+                title={t('multiUser.shape')}
+              >
+                {listShapes().map(({ id, label: shapeLabel }) => (
+                  <option key={id} value={id} className="bg-black">{label(shapeLabel)}</option>
+                ))}
+              </select>
+              <input
+                type="color"
+                value={multiUser.color}
+                onChange={(e) => setMultiUser({ ...multiUser, color: e.target.value })}
+                className="w-6 h-6 rounded-full bg-transparent cursor-pointer"
+                title={t('multiUser.color')}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Presets */}
+        <PresetGallery config={sceneConfig} onApply={onApplyConfig} unavailableShape={unavailableShape} />
+
+        {/* Timeline / attract mode */}
+        <TimelinePanel
+          playerRef={timelinePlayerRef}
+          timeline={timeline}
+          setTimeline={setTimeline}
+          playing={timelinePlaying}
+          attract={attract}
+          setAttract={setAttract}
+          attracting={attracting}
+          createKeyframe={createKeyframe}
+        />
+
+        {/* Audio-reactive input */}
+        <AudioPanel
+          audioRef={audioRef}
+          source={audioSource}
+          failed={audioFailed}
+          onStartMicrophone={onStartMicrophone}
+          onLoadFile={onLoadAudioFile}
+          onStop={onStopAudio}
+          mapping={audioMapping}
+          setMapping={setAudioMapping}
+        />
+
+        {/* Gesture -> parameter bindings */}
+        <MappingPanel mapping={mapping} setMapping={setMapping} handsRef={handsRef} />
+
+        {/* Sprites, trails, bloom, depth of field */}
+        <RenderPanel style={renderStyle} setStyle={setRenderStyle} effectsAvailable={effectsAvailable} />
+
+        {/* Camera modes / saved viewpoints */}
+        <ViewPanel
+          view={view}
+          setView={setView}
+          viewpoints={viewpoints}
+          setViewpoints={setViewpoints}
+          onSaveViewpoint={onSaveViewpoint}
+          onGoToViewpoint={onGoToViewpoint}
+          onResetView={onResetView}
+        />
+
+        {/* Quality tiers / frame rate */}
+        <PerformancePanel settings={performanceSettings} setSettings={setPerformanceSettings} />
       </div>
     </div>
   );
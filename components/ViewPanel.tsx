@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, House, Orbit, Trash2 } from 'lucide-react';
+import { CameraMode, TOUR_SPEED_RANGE, TourPath, ViewSettings, Viewpoint } from '../utils/cameraRig';
+import { MessageKey, useI18n } from '../i18n';
+
+interface ViewPanelProps {
+  view: ViewSettings;
+  setView: (view: ViewSettings) => void;
+  viewpoints: Viewpoint[];
+  setViewpoints: (viewpoints: Viewpoint[]) => void;
+  onSaveViewpoint: (name: string) => void;
+  onGoToViewpoint: (viewpoint: Viewpoint) => void;
+  onResetView: () => void;
+}
+
+const CAMERA_MODE_LABELS: Record<CameraMode, { label: MessageKey; hint: MessageKey }> = {
+  [CameraMode.CLOUD]: { label: 'view.mode.cloud', hint: 'view.mode.cloudHint' },
+  [CameraMode.ORBIT]: { label: 'view.mode.orbit', hint: 'view.mode.orbitHint' },
+  [CameraMode.GESTURE]: { label: 'view.mode.gesture', hint: 'view.mode.gestureHint' },
+  [CameraMode.TOUR]: { label: 'view.mode.tour', hint: 'view.mode.tourHint' }
+};
+
+const TOUR_PATH_LABELS: Record<TourPath, MessageKey> = {
+  [TourPath.ORBIT]: 'view.tourPath.orbit',
+  [TourPath.VIEWPOINTS]: 'view.tourPath.viewpoints'
+};
+
+const ViewPanel: React.FC<ViewPanelProps> = ({
+  view,
+  setView,
+  viewpoints,
+  setViewpoints,
+  onSaveViewpoint,
+  onGoToViewpoint,
+  onResetView
+}) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveViewpoint(name.trim() || t('view.viewpointName', { index: viewpoints.length + 1 }));
+    setName('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`bg-black/40 backdrop-blur-md flex items-center gap-2 px-4 py-3 rounded-2xl border border-white/10 text-sm font-medium transition-all ${
+          open ? 'text-white bg-cyan-500/30' : 'text-gray-400 hover:text-white'
+        }`}
+        aria-expanded={open}
+      >
+        <Orbit size={16} className={view.mode === CameraMode.TOUR || view.mode === CameraMode.GESTURE ? 'text-cyan-400' : ''} />
+        {t('view.title')}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 w-72 max-h-[60vh] overflow-y-auto bg-black/70 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-xl flex flex-col gap-3 text-xs text-gray-400">
+          <label className="flex items-center justify-between gap-2">
+            {t('view.mode')}
+            <select
+              value={view.mode}
+              onChange={(e) => setView({ ...view, mode: e.target.value as CameraMode })}
+              className="bg-transparent text-gray-300 outline-none cursor-pointer"
+            >
+              {Object.values(CameraMode).map((mode) => (
+                <option key={mode} value={mode} className="bg-gray-900">{t(CAMERA_MODE_LABELS[mode].label)}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-gray-500 leading-relaxed">{t(CAMERA_MODE_LABELS[view.mode].hint)}</p>
+
+          {view.mode === CameraMode.TOUR && (
+            <>
+              <label className="flex items-center justify-between gap-2" title={t('view.tourPathHint')}>
+                {t('view.tourPath')}
+                <select
+                  value={view.tourPath}
+                  onChange={(e) => setView({ ...view, tourPath: e.target.value as TourPath })}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer"
+                >
+                  {Object.values(TourPath).map((path) => (
+                    <option
+                      key={path}
+                      value={path}
+                      disabled={path === TourPath.VIEWPOINTS && viewpoints.length < 2}
+                      className="bg-gray-900"
+                    >
+                      {t(TOUR_PATH_LABELS[path])}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                {t('view.tourSpeed')}
+                <input
+                  type="range"
+                  min={TOUR_SPEED_RANGE.min}
+                  max={TOUR_SPEED_RANGE.max}
+                  step={0.25}
+                  value={view.tourSpeed}
+                  onChange={(e) => setView({ ...view, tourSpeed: Number(e.target.value) })}
+                  className="w-32 accent-cyan-400"
+                />
+              </label>
+            </>
+          )}
+
+          {/* Saved viewpoints */}
+          <form onSubmit={save} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('view.viewpointPlaceholder')}
+              className="flex-1 min-w-0 bg-transparent px-2 py-1.5 text-sm text-white placeholder-gray-500 outline-none border-b border-white/10"
+              aria-label={t('view.viewpointLabel')}
+            />
+            <button
+              type="submit"
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+              title={t('view.saveViewpoint')}
+            >
+              <BookmarkPlus size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={onResetView}
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-all"
+              title={t('view.reset')}
+            >
+              <House size={16} />
+            </button>
+          </form>
+          {viewpoints.length === 0 ? (
+            <p className="text-gray-500">{t('view.noViewpoints')}</p>
+          ) : (
+            <div className="flex flex-col gap-1">
+              {viewpoints.map((viewpoint) => (
+                <div key={viewpoint.id} className="flex items-center gap-1">
+                  <button
+                    onClick={() => onGoToViewpoint(viewpoint)}
+                    className="flex-1 min-w-0 truncate text-left px-2 py-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-all"
+                    title={t('view.goTo', { name: viewpoint.name })}
+                  >
+                    {viewpoint.name}
+                  </button>
+                  <button
+                    onClick={() => setViewpoints(viewpoints.filter((v) => v.id !== viewpoint.id))}
+                    className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 transition-all"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewPanel;
@@ -0,0 +1,63 @@
+import { HandFrame, Landmark, TrackedHand } from '../types';
+
+// Synthetic MediaPipe-style hands for tests: 21 landmarks in normalized image
+// coordinates (y grows downwards), an upright hand about a fifth of the image tall.
+
+export interface HandShape {
+  thumb: 'folded' | 'out' | 'up';
+  index: boolean;  // extended
+  middle: boolean;
+  ring: boolean;
+  pinky: boolean;
+}
+
+export const OPEN_PALM: HandShape = { thumb: 'out', index: true, middle: true, ring: true, pinky: true };
+export const FIST: HandShape = { thumb: 'folded', index: false, middle: false, ring: false, pinky: false };
+export const POINT: HandShape = { thumb: 'folded', index: true, middle: false, ring: false, pinky: false };
+export const PEACE: HandShape = { thumb: 'folded', index: true, middle: true, ring: false, pinky: false };
+export const THUMBS_UP: HandShape = { thumb: 'up', index: false, middle: false, ring: false, pinky: false };
+// Index and pinky out: none of the recognized poses
+export const HORNS: HandShape = { thumb: 'folded', index: true, middle: false, ring: false, pinky: true };
+
+type Offset = [number, number];
+
+// MCP, PIP, DIP and tip of one finger, relative to the wrist
+const finger = (x: number, extended: boolean): Offset[] => extended
+  ? [[x, -0.1], [x, -0.14], [x, -0.17], [x, -0.2]]
+  : [[x, -0.1], [x, -0.13], [x, -0.11], [x, -0.09]];
+
+// CMC, MCP, IP and tip
+const THUMBS: Record<HandShape['thumb'], Offset[]> = {
+  folded: [[-0.03, -0.03], [-0.06, -0.05], [-0.08, -0.07], [-0.02, -0.08]],
+  out: [[-0.03, -0.03], [-0.06, -0.05], [-0.08, -0.07], [-0.12, -0.1]],
+  up: [[-0.03, -0.03], [-0.05, -0.06], [-0.06, -0.12], [-0.06, -0.18]]
+};
+
+export interface HandOptions {
+  x?: number;  // wrist position
+  y?: number;
+  handedness?: TrackedHand['handedness'];
+  score?: number;
+  // Moves the thumb tip to this distance from the index tip, for pinch tests
+  pinch?: number;
+}
+
+export const createHand = (shape: HandShape, options: HandOptions = {}): TrackedHand => {
+  const { x = 0.5, y = 0.7, handedness = 'Right', score = 0.95, pinch } = options;
+  const offsets: Offset[] = [
+    [0, 0],
+    ...THUMBS[shape.thumb],
+    ...finger(-0.03, shape.index),
+    ...finger(-0.01, shape.middle),
+    ...finger(0.01, shape.ring),
+    ...finger(0.03, shape.pinky)
+  ];
+  const landmarks = offsets.map(([dx, dy], i): Landmark => ({ x: x + dx, y: y + dy, z: -0.01 * (i % 4) }));
+  if (pinch !== undefined) {
+    const tip = landmarks[8];
+    landmarks[4] = { x: tip.x - pinch, y: tip.y, z: tip.z };
+  }
+  return { handedness, score, landmarks };
+};
+
+export const createFrame = (timestamp: number, ...hands: TrackedHand[]): HandFrame => ({ timestamp, hands });
@@ -0,0 +1,362 @@
+import { Catalog } from './zh-CN';
+
+export const en: Catalog = {
+  'app.title': 'Particle',
+  'app.titleAccent': 'Flow',
+  'app.language': 'Language',
+  'app.fullscreen': 'Fullscreen',
+  'app.exitFullscreen': 'Exit fullscreen',
+
+  'common.play': 'Play',
+  'common.pause': 'Pause',
+  'common.stop': 'Stop',
+  'common.stopAndSave': 'Stop recording and save',
+  'common.delete': 'Delete',
+  'common.off': 'Off',
+  'common.seconds': '{seconds} s',
+
+  'input.hands': 'Hands',
+  'input.pointer': 'Mouse / touch',
+  'input.keyboard': 'Keyboard',
+  'input.scripted': 'Demo',
+  'input.replay': 'Replay',
+  'input.use': 'Use {input} input',
+  'input.hint.hands': 'Open and close both hands to spread and scale the particles.',
+  'input.hint.pointer': 'Drag to move the particles; scroll or pinch to zoom.',
+  'input.hint.keyboard': 'Arrow keys move, +/- scale, Q/E rotate, space resets.',
+  'input.hint.scripted': 'Automatic demo, no camera needed.',
+  'input.hint.replay': 'Replays a recorded gesture session.',
+  'input.recordSession': 'Record gesture session',
+  'input.sessionFailed': 'Could not read the session file',
+
+  'status.unavailable': 'Input unavailable',
+  'status.active': 'Hands detected',
+  'status.searching': 'Show your hands to the camera',
+  'status.paused': 'Camera paused',
+  'status.initializing': 'Starting vision system...',
+  'status.controlling': '{input} control',
+
+  'error.cameraDenied': 'Camera access was denied; allow it in your browser settings',
+  'error.cameraNotFound': 'No camera found',
+  'error.cameraInUse': 'The camera is in use by another program',
+  'error.cameraUnsupported': 'This browser cannot use a camera',
+  'error.cameraDisconnected': 'Camera disconnected',
+  'error.trackerFailed': 'Could not load the hand tracking model',
+  'error.emptySession': 'The session file is empty',
+
+  'gesture.openPalm': 'Open palm',
+  'gesture.fist': 'Fist',
+  'gesture.point': 'Pointing',
+  'gesture.peace': 'Peace sign · next colour',
+  'gesture.thumbsUp': 'Thumbs up',
+  'gesture.swipeLeft': 'Swipe left · previous shape',
+  'gesture.swipeRight': 'Swipe right · next shape',
+  'gesture.burst': 'Fist, then open · fireworks',
+
+  'camera.device': 'Camera',
+  'camera.default': 'Default camera',
+  'camera.numbered': 'Camera {index}',
+  'camera.resolution': 'Camera resolution',
+  'camera.frameRate': 'Camera frame rate',
+  'camera.retry': 'Retry',
+  'camera.resume': 'Resume',
+  'camera.pause': 'Pause camera',
+
+  'tracking.hands': 'Hands',
+  'tracking.settings': 'Tracking thresholds and smoothing',
+  'tracking.debug': 'Show skeleton and debug info',
+  'tracking.detection': 'Detection threshold',
+  'tracking.detectionHint': 'Confidence needed to pick up a new hand',
+  'tracking.tracking': 'Tracking threshold',
+  'tracking.trackingHint': 'Below this confidence the hand is detected again instead of tracked',
+  'tracking.rate': 'Detection rate',
+  'tracking.rateHint': 'Detections per second; frames in between are interpolated',
+  'tracking.everyFrame': 'Every frame',
+  'tracking.smoothing': 'Smoothing filter',
+  'tracking.smoothing.none': 'No smoothing',
+  'tracking.smoothing.oneEuro': 'One Euro smoothing',
+  'tracking.smoothing.kalman': 'Kalman smoothing',
+  'tracking.dropout': 'When a hand is lost',
+  'tracking.dropout.hold': 'Hold when lost',
+  'tracking.dropout.ease': 'Ease out when lost',
+  'tracking.minCutoff': 'Min cutoff',
+  'tracking.minCutoffHint': 'Lower is steadier, with less jitter at rest',
+  'tracking.beta': 'Speed coefficient',
+  'tracking.betaHint': 'Higher follows faster, with less lag on quick moves',
+  'tracking.response': 'Responsiveness',
+  'tracking.responseHint': 'Higher follows faster, lower is steadier',
+  'tracking.grace': 'Dropout grace {ms}ms',
+  'tracking.graceHint': 'How long a briefly lost hand keeps its pose',
+
+  'shape.galaxy': 'Galaxy',
+  'shape.galaxy.turns': 'Arm turns',
+  'shape.galaxy.tightness': 'Arm tightness',
+  'shape.heart': 'Heart',
+  'shape.flower': 'Flower',
+  'shape.flower.k': 'Petals k',
+  'shape.saturn': 'Saturn',
+  'shape.saturn.ringWidth': 'Ring width',
+  'shape.fireworks': 'Fireworks',
+  'shape.text': 'Text',
+  'shape.text.thickness': 'Thickness',
+  'shape.image': 'Image',
+  'shape.image.threshold': 'Brightness threshold',
+  'shape.image.relief': 'Relief depth',
+  'shape.model': 'Model',
+
+  'custom.text': 'Particle text',
+  'custom.textPlaceholder': 'Type some text...',
+  'custom.createText': 'Turn text into particles',
+  'custom.image': 'Upload image',
+  'custom.model': 'Upload 3D model (OBJ / GLTF / GLB / PLY)',
+  'custom.imageFailed': 'Could not load the image',
+  'custom.modelFailed': 'Could not load the model',
+
+  'easing.linear': 'Linear',
+  'easing.easeIn': 'Ease in',
+  'easing.easeOut': 'Ease out',
+  'easing.easeInOut': 'Ease in-out',
+  'easing.hold': 'Jump',
+
+  'morph.style': 'Transition style',
+  'morph.style.direct': 'Direct',
+  'morph.style.explode': 'Explode',
+  'morph.style.vortex': 'Vortex',
+  'morph.style.stagger': 'Stagger',
+  'morph.style.dissolve': 'Dissolve',
+  'morph.easing': 'Transition easing',
+  'morph.duration': 'Transition duration',
+  'morph.scrub': 'Gesture scrub',
+  'morph.scrubHint': 'Roll one palm to scrub between the previous and the current shape',
+
+  'color.select': 'Select colour {color}',
+  'color.custom': 'Custom colour',
+  'color.mode': 'Colour mode',
+  'color.mode.solid': 'Solid',
+  'color.mode.shape': 'Shape colours',
+  'color.mode.radius': 'Gradient · radius',
+  'color.mode.height': 'Gradient · height',
+  'color.mode.velocity': 'Gradient · velocity',
+  'color.palette': 'Palette',
+  'color.cycle': 'Cycle',
+  'color.cycleHint': 'Colour cycling speed',
+
+  'palette.aurora': 'Aurora',
+  'palette.sunset': 'Sunset',
+  'palette.ocean': 'Ocean',
+  'palette.fire': 'Fire',
+  'palette.candy': 'Candy',
+
+  'particles.count': '{count} particles',
+  'particles.countLabel': 'Particle count',
+
+  'physics.mode': 'Physics',
+  'physics.hint': 'Make a fist to gather the particles, open your palm to push them away',
+  'physics.turbulence': 'Turbulence',
+  'physics.handForce': 'Hand force',
+
+  'multiUser.mode': 'Two clouds',
+  'multiUser.hint': 'Two particle clouds, each controlled by one hand or one person',
+  'multiUser.grouping': 'Grouping',
+  'multiUser.grouping.hand': 'Per hand',
+  'multiUser.grouping.person': 'Per person',
+  'multiUser.interaction': 'Cloud interaction',
+  'multiUser.interaction.none': 'Pass through',
+  'multiUser.interaction.repel': 'Repel on contact',
+  'multiUser.interaction.merge': 'Merge when close',
+  'multiUser.shape': 'Shape of the second cloud',
+  'multiUser.color': 'Colour of the second cloud',
+
+  'presets.title': 'Presets',
+  'presets.name': 'Preset name',
+  'presets.namePlaceholder': 'Preset name...',
+  'presets.defaultName': 'Preset {index}',
+  'presets.save': 'Save current scene',
+  'presets.import': 'Import preset (JSON)',
+  'presets.importFailed': 'Could not read this preset file',
+  'presets.shapeUnavailable': 'The shape “{shape}” is not available here; showing the default instead',
+  'presets.copyLink': 'Copy share link',
+  'presets.linkCopied': 'Link copied',
+  'presets.apply': 'Apply “{name}”',
+  'presets.export': 'Export JSON',
+  'presets.imported': 'Imported preset',
+  'presets.builtin.galaxy': 'Galaxy',
+  'presets.builtin.heart': 'Heart of Fire',
+  'presets.builtin.saturn': 'Deep Sea Saturn',
+  'presets.builtin.flower': 'Flowing Garden',
+  'presets.builtin.fireworks': 'Festival Fireworks',
+
+  'timeline.title': 'Timeline',
+  'timeline.loop': 'Loop',
+  'timeline.position': 'Timeline position',
+  'timeline.attract': 'Demo when idle',
+  'timeline.attractHint': 'Plays the timeline while nobody is in front of the camera; raising a hand hands control back',
+  'timeline.attractDelay': 'Idle delay',
+  'timeline.attractAfter': 'after {seconds} s',
+  'timeline.attracting': 'Demo running',
+  'timeline.keyframeTime': 'Keyframe time',
+  'timeline.keyframeEasing': 'Keyframe easing',
+  'timeline.seek': 'Jump to this keyframe',
+  'timeline.morphDuration': 'Shape transition duration (seconds)',
+  'timeline.deleteKeyframe': 'Delete keyframe',
+  'timeline.addKeyframe': 'Add current view',
+  'timeline.addKeyframeHint': 'Adds a keyframe with the current shape, colour and pose',
+  'timeline.duration': 'Length',
+  'timeline.durationHint': 'Timeline length (seconds)',
+  'timeline.reset': 'Restore default timeline',
+
+  'audio.title': 'Audio',
+  'audio.microphone': 'Microphone',
+  'audio.microphoneHint': 'Use the microphone',
+  'audio.file': 'Audio file',
+  'audio.fileHint': 'Play a local audio file',
+  'audio.failed': 'Could not open the audio input',
+  'audio.bass': 'Low',
+  'audio.mid': 'Mid',
+  'audio.treble': 'High',
+  'audio.beat': 'Beat',
+  'audio.scale': 'Scale',
+  'audio.scaleHint': 'Bass and beats swell the cloud',
+  'audio.breathing': 'Breathing',
+  'audio.breathingHint': 'Mids deepen the breathing motion',
+  'audio.turbulence': 'Turbulence',
+  'audio.turbulenceHint': 'Highs stir the particles (physics mode)',
+  'audio.color': 'Colour',
+  'audio.colorHint': 'Louder audio cycles colours faster',
+  'audio.beatsPerShape': 'Shape on beat',
+  'audio.beatsPerShapeHint': 'Switches to the next shape on the beat',
+  'audio.everyBeats': 'Every {beats} beats',
+
+  'mapping.title': 'Mapping',
+  'mapping.enabled': 'Mapping enabled',
+  'mapping.source': 'Input signal',
+  'mapping.source.pinch': 'Pinch distance',
+  'mapping.source.handDistance': 'Hand distance',
+  'mapping.source.centerX': 'Wrist X',
+  'mapping.source.centerY': 'Wrist Y',
+  'mapping.source.handAngle': 'Angle between hands',
+  'mapping.source.palmRoll': 'Palm roll',
+  'mapping.source.fingerCount': 'Extended fingers',
+  'mapping.source.handCount': 'Hand count',
+  'mapping.target': 'Target parameter',
+  'mapping.target.scale': 'Scale',
+  'mapping.target.positionX': 'Position X',
+  'mapping.target.positionY': 'Position Y',
+  'mapping.target.rotationX': 'Rotation X',
+  'mapping.target.rotationY': 'Rotation Y',
+  'mapping.target.rotationZ': 'Rotation Z',
+  'mapping.target.hue': 'Hue',
+  'mapping.target.morph': 'Morph progress',
+  'mapping.target.turbulence': 'Turbulence',
+  'mapping.target.particleSize': 'Particle size',
+  'mapping.curve': 'Curve',
+  'mapping.curve.sCurve': 'S-curve',
+  'mapping.hands': 'Only applies while this many hands are detected',
+  'mapping.hands.any': 'Any',
+  'mapping.hands.one': 'One hand',
+  'mapping.hands.two': 'Two hands',
+  'mapping.delete': 'Delete mapping',
+  'mapping.input': 'In',
+  'mapping.inputMin': 'Input min',
+  'mapping.inputMax': 'Input max',
+  'mapping.output': 'Out',
+  'mapping.outputMin': 'Output min',
+  'mapping.outputMax': 'Output max',
+  'mapping.signal': 'Current signal',
+  'mapping.invert': 'Invert',
+  'mapping.smoothing': 'Smoothing',
+  'mapping.smoothingHint': 'Follow time constant in seconds; 0 is immediate',
+  'mapping.add': 'Add mapping',
+  'mapping.order': 'Later mappings win',
+  'mapping.reset': 'Restore default mapping',
+
+  'capture.screenshot': 'Save PNG screenshot',
+  'capture.screenshotSize': 'Screenshot resolution',
+  'capture.currentSize': 'Current view',
+  'capture.record': 'Record WebM video',
+  'capture.frameRate': 'Recording frame rate',
+  'capture.offline': 'Render offline, frame by frame (fixed time step)',
+  'capture.offlineDuration': 'Offline render duration',
+  'capture.webcam': 'Webcam',
+  'capture.webcamHint': 'Overlay the webcam in screenshots and videos',
+  'capture.screenshotFailed': 'Could not save the screenshot',
+  'capture.recordingFailed': 'Could not record the video',
+
+  'tracker.stats': 'detect {fps} fps · {latency} ms',
+  'tracker.scale': 'scale {scale}',
+  'tracker.position': 'pos   {x} {y}',
+  'tracker.rotation': 'rot   {x} {y} {z}',
+  'tracker.preview': 'Camera preview',
+
+  'render.title': 'Render',
+  'render.sprite': 'Sprite',
+  'render.sprite.square': 'Square',
+  'render.sprite.soft': 'Soft dot',
+  'render.sprite.glow': 'Glow',
+  'render.sprite.sparkle': 'Sparkle',
+  'render.size': 'Particle size',
+  'render.size.uniform': 'Uniform',
+  'render.size.depth': 'By depth',
+  'render.size.velocity': 'By velocity',
+  'render.sizeAmount': 'Size variation',
+  'render.sizeAmountHint': 'How much larger near or fast particles get',
+  'render.trails': 'Trails',
+  'render.trailsHint': 'How long a trail moving particles leave',
+  'render.bloom': 'Bloom',
+  'render.bloomHint': 'Strength of the glow around bright areas',
+  'render.bloomRadius': 'Bloom radius',
+  'render.bloomRadiusHint': 'How far the glow spreads',
+  'render.bloomThreshold': 'Bloom threshold',
+  'render.bloomThresholdHint': 'Areas darker than this do not glow',
+  'render.depthOfField': 'Depth of field',
+  'render.depthOfFieldHint': 'Particles away from the focus blur into larger, dimmer discs',
+  'render.focus': 'Focus',
+  'render.focusHint': 'Distance of the focus from the cloud centre; negative is nearer',
+  'render.effectsOff': 'Trails, bloom and depth of field are off at the current quality level',
+  'render.reset': 'Reset to defaults',
+  'view.title': 'Camera',
+  'view.mode': 'Camera mode',
+  'view.mode.cloud': 'Gestures move the cloud',
+  'view.mode.cloudHint': 'Gestures turn and scale the cloud; drag to turn the camera',
+  'view.mode.orbit': 'Free orbit',
+  'view.mode.orbitHint': 'Drag to orbit, scroll to zoom, right-drag to pan; gestures still move the cloud',
+  'view.mode.gesture': 'Gestures move the camera',
+  'view.mode.gestureHint': 'Gestures orbit and dolly the camera around a cloud that stays put',
+  'view.mode.tour': 'Auto tour',
+  'view.mode.tourHint': 'The camera drifts along a slow path by itself, for unattended screens',
+  'view.tourPath': 'Tour path',
+  'view.tourPathHint': 'Touring viewpoints needs at least two saved viewpoints',
+  'view.tourPath.orbit': 'Orbit',
+  'view.tourPath.viewpoints': 'Saved viewpoints',
+  'view.tourSpeed': 'Tour speed',
+  'view.viewpointLabel': 'Viewpoint name',
+  'view.viewpointPlaceholder': 'Viewpoint name…',
+  'view.viewpointName': 'View {index}',
+  'view.saveViewpoint': 'Save the current viewpoint',
+  'view.reset': 'Back to the starting view',
+  'view.noViewpoints': 'No saved viewpoints yet',
+  'view.goTo': 'Go to {name}',
+  'performance.title': 'Performance',
+  'performance.quality': 'Quality',
+  'performance.auto': 'Auto · {level}',
+  'performance.level.ultra': 'Ultra',
+  'performance.level.high': 'High',
+  'performance.level.medium': 'Medium',
+  'performance.level.low': 'Low',
+  'performance.level.minimal': 'Minimal',
+  'performance.target': 'Target frame rate',
+  'performance.targetHint': 'Auto quality steps up and down to hold this frame rate, or the refresh rate of the display if that is lower',
+  'performance.detail.particles': 'Particles {percent}%',
+  'performance.detail.dpr': 'Pixel ratio ≤ {dpr}',
+  'performance.detail.stars': 'Stars {stars}',
+  'performance.detail.detection': 'Detection ≤ {rate} Hz',
+  'performance.detail.detectionAny': 'Detection unlimited',
+  'performance.detail.additive': 'Additive blending',
+  'performance.detail.opaque': 'Opaque particles',
+  'performance.detail.effects': 'Trails, bloom and depth of field',
+  'performance.detail.noEffects': 'No effects',
+  'performance.showStats': 'Show performance stats',
+  'performance.stats.render': 'render {fps} fps · target {target}',
+  'performance.stats.frame': 'frame {frame} ms · CPU {cpu} ms',
+  'performance.stats.quality': '{level} · {particles} particles · DPR {dpr}'
+};
@@ -0,0 +1,96 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { readStorage, writeStorage } from '../utils/storage';
+import { Catalog, MessageKey, zhCN } from './zh-CN';
+import { en } from './en';
+
+export type { MessageKey } from './zh-CN';
+
+export type Locale = 'zh-CN' | 'en';
+
+const CATALOGS: Record<Locale, Catalog> = {
+  'zh-CN': zhCN,
+  en
+};
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+
+// Each language is listed in its own name, so it can be found whatever is showing
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-CN': '简体中文',
+  en: 'English'
+};
+
+// For browsers asking for none of the catalogs
+const FALLBACK_LOCALE: Locale = 'en';
+
+// A per-device preference, so it is neither part of presets nor of share links
+const LOCALE_KEY = 'gesture-particles/locale';
+
+export type MessageParams = Record<string, string | number>;
+
+export const isMessageKey = (text: string): text is MessageKey =>
+  Object.prototype.hasOwnProperty.call(zhCN, text);
+
+// Fills `{name}` placeholders; unknown ones stay visible so they get noticed
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const text = CATALOGS[locale][key] ?? zhCN[key] ?? key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// First catalog matching the browser's preferred languages, by full tag and then by language alone (zh-TW -> zh-CN)
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale => {
+  for (const language of languages) {
+    const tag = language.toLowerCase();
+    const exact = LOCALES.find((locale) => locale.toLowerCase() === tag);
+    if (exact) return exact;
+    const sameLanguage = LOCALES.find((locale) => locale.split('-')[0].toLowerCase() === tag.split('-')[0]);
+    if (sameLanguage) return sameLanguage;
+  }
+  return FALLBACK_LOCALE;
+};
+
+// A choice made in the switcher wins over the browser's languages
+const loadLocale = (): Locale => {
+  const stored = readStorage(LOCALE_KEY);
+  return LOCALES.includes(stored as Locale) ? (stored as Locale) : detectLocale();
+};
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Data-driven labels (shapes, palettes, presets) hold a message key, or plain text
+  // when they come from the user or a shape registered elsewhere
+  label: (text: string) => string;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    writeStorage(LOCALE_KEY, next);
+  }, []);
+
+  const value = useMemo<I18n>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    label: (text) => (isMessageKey(text) ? translate(locale, text) : text)
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18n => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
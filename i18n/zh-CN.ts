@@ -0,0 +1,367 @@
+// Source catalog: every other locale translates exactly these keys, and the
+// English catalog is type-checked against them. `{name}` marks a parameter.
+// Keep one entry per line; scripts/check-i18n.mjs reads this file as text.
+export const zhCN = {
+  'app.title': '粒子',
+  'app.titleAccent': '流体',
+  'app.language': '语言',
+  'app.fullscreen': '全屏',
+  'app.exitFullscreen': '退出全屏',
+
+  'common.play': '播放',
+  'common.pause': '暂停',
+  'common.stop': '停止',
+  'common.stopAndSave': '停止录制并保存',
+  'common.delete': '删除',
+  'common.off': '关闭',
+  'common.seconds': '{seconds} 秒',
+
+  'input.hands': '手势',
+  'input.pointer': '鼠标/触摸',
+  'input.keyboard': '键盘',
+  'input.scripted': '演示',
+  'input.replay': '回放',
+  'input.use': '使用{input}输入',
+  'input.hint.hands': '双手张合控制粒子扩散与缩放。',
+  'input.hint.pointer': '拖动移动粒子，滚轮或双指捏合缩放。',
+  'input.hint.keyboard': '方向键移动，+/- 缩放，Q/E 旋转，空格复位。',
+  'input.hint.scripted': '自动演示，无需摄像头。',
+  'input.hint.replay': '回放已录制的手势会话。',
+  'input.recordSession': '录制手势会话',
+  'input.sessionFailed': '无法读取会话文件',
+
+  'status.unavailable': '输入不可用',
+  'status.active': '已检测到手',
+  'status.searching': '请将手放入画面',
+  'status.paused': '摄像头已暂停',
+  'status.initializing': '视觉系统初始化中...',
+  'status.controlling': '{input}控制中',
+
+  'error.cameraDenied': '摄像头权限被拒绝，请在浏览器设置中允许访问',
+  'error.cameraNotFound': '未找到摄像头',
+  'error.cameraInUse': '摄像头被其他程序占用',
+  'error.cameraUnsupported': '当前浏览器无法使用摄像头',
+  'error.cameraDisconnected': '摄像头已断开',
+  'error.trackerFailed': '手势模型加载失败',
+  'error.emptySession': '会话文件为空',
+
+  'gesture.openPalm': '张开手掌',
+  'gesture.fist': '握拳',
+  'gesture.point': '食指指向',
+  'gesture.peace': '剪刀手 · 切换颜色',
+  'gesture.thumbsUp': '点赞',
+  'gesture.swipeLeft': '左滑 · 上一个形状',
+  'gesture.swipeRight': '右滑 · 下一个形状',
+  'gesture.burst': '握拳后张开 · 放烟花',
+
+  'camera.device': '摄像头',
+  'camera.default': '默认摄像头',
+  'camera.numbered': '摄像头 {index}',
+  'camera.resolution': '摄像头分辨率',
+  'camera.frameRate': '摄像头帧率',
+  'camera.retry': '重试',
+  'camera.resume': '继续',
+  'camera.pause': '暂停摄像头',
+
+  'tracking.hands': '手数',
+  'tracking.settings': '追踪阈值与平滑设置',
+  'tracking.debug': '显示骨架与调试信息',
+  'tracking.detection': '检测阈值',
+  'tracking.detectionHint': '检测新出现的手所需的置信度',
+  'tracking.tracking': '追踪阈值',
+  'tracking.trackingHint': '低于此置信度时重新检测而不是继续追踪',
+  'tracking.rate': '检测频率',
+  'tracking.rateHint': '每秒检测次数，画面在两次检测之间插值',
+  'tracking.everyFrame': '每帧',
+  'tracking.smoothing': '平滑滤波',
+  'tracking.smoothing.none': '不平滑',
+  'tracking.smoothing.oneEuro': 'One Euro 平滑',
+  'tracking.smoothing.kalman': 'Kalman 平滑',
+  'tracking.dropout': '手丢失时',
+  'tracking.dropout.hold': '丢失时保持',
+  'tracking.dropout.ease': '丢失时缓出',
+  'tracking.minCutoff': '最小截止频率',
+  'tracking.minCutoffHint': '越低越平稳，静止时抖动越小',
+  'tracking.beta': '速度系数',
+  'tracking.betaHint': '越高越跟手，快速移动时延迟越小',
+  'tracking.response': '响应速度',
+  'tracking.responseHint': '越高越跟手，越低越平稳',
+  'tracking.grace': '丢失宽限 {ms}ms',
+  'tracking.graceHint': '手短暂丢失时保留其姿态的时长',
+
+  'shape.galaxy': '星系',
+  'shape.galaxy.turns': '旋臂圈数',
+  'shape.galaxy.tightness': '旋臂松紧',
+  'shape.heart': '爱心',
+  'shape.flower': '花朵',
+  'shape.flower.k': '花瓣数 k',
+  'shape.saturn': '土星',
+  'shape.saturn.ringWidth': '光环宽度',
+  'shape.fireworks': '烟花',
+  'shape.text': '文字',
+  'shape.text.thickness': '厚度',
+  'shape.image': '图片',
+  'shape.image.threshold': '亮度阈值',
+  'shape.image.relief': '浮雕深度',
+  'shape.model': '模型',
+
+  'custom.text': '粒子文字',
+  'custom.textPlaceholder': '输入文字...',
+  'custom.createText': '生成文字粒子',
+  'custom.image': '上传图片',
+  'custom.model': '上传 3D 模型 (OBJ / GLTF / GLB / PLY)',
+  'custom.imageFailed': '无法加载图片',
+  'custom.modelFailed': '无法加载模型',
+
+  'easing.linear': '线性',
+  'easing.easeIn': '缓入',
+  'easing.easeOut': '缓出',
+  'easing.easeInOut': '缓入缓出',
+  'easing.hold': '跳变',
+
+  'morph.style': '变换方式',
+  'morph.style.direct': '直接',
+  'morph.style.explode': '爆散重组',
+  'morph.style.vortex': '漩涡',
+  'morph.style.stagger': '错落',
+  'morph.style.dissolve': '溶解',
+  'morph.easing': '变换缓动',
+  'morph.duration': '变换时长',
+  'morph.scrub': '手势拖动',
+  'morph.scrubHint': '单手转动手掌，在上一个形状和当前形状之间拖动变形',
+
+  'color.select': '选择颜色 {color}',
+  'color.custom': '自定义颜色',
+  'color.mode': '配色方式',
+  'color.mode.solid': '纯色',
+  'color.mode.shape': '形状配色',
+  'color.mode.radius': '渐变 · 半径',
+  'color.mode.height': '渐变 · 高度',
+  'color.mode.velocity': '渐变 · 速度',
+  'color.palette': '调色板',
+  'color.cycle': '循环',
+  'color.cycleHint': '颜色循环速度',
+
+  'palette.aurora': '极光',
+  'palette.sunset': '日落',
+  'palette.ocean': '深海',
+  'palette.fire': '火焰',
+  'palette.candy': '糖果',
+
+  'particles.count': '{count} 粒子',
+  'particles.countLabel': '粒子数量',
+
+  'physics.mode': '物理模式',
+  'physics.hint': '握拳聚拢粒子，张开手掌推散粒子',
+  'physics.turbulence': '湍流',
+  'physics.handForce': '手部力场',
+
+  'multiUser.mode': '双人模式',
+  'multiUser.hint': '两团粒子，各由一只手或一个人控制',
+  'multiUser.grouping': '分组方式',
+  'multiUser.grouping.hand': '每只手',
+  'multiUser.grouping.person': '每个人',
+  'multiUser.interaction': '两团粒子的互动',
+  'multiUser.interaction.none': '互不影响',
+  'multiUser.interaction.repel': '碰撞排斥',
+  'multiUser.interaction.merge': '靠近融合',
+  'multiUser.shape': '第二团粒子的形状',
+  'multiUser.color': '第二团粒子的颜色',
+
+  'presets.title': '预设',
+  'presets.name': '预设名称',
+  'presets.namePlaceholder': '预设名称...',
+  'presets.defaultName': '预设 {index}',
+  'presets.save': '保存当前场景',
+  'presets.import': '导入预设 (JSON)',
+  'presets.importFailed': '无法读取该预设文件',
+  'presets.shapeUnavailable': '形状「{shape}」在此不可用，已改用默认形状',
+  'presets.copyLink': '复制分享链接',
+  'presets.linkCopied': '链接已复制',
+  'presets.apply': '应用「{name}」',
+  'presets.export': '导出 JSON',
+  'presets.imported': '导入的预设',
+  'presets.builtin.galaxy': '星系',
+  'presets.builtin.heart': '烈焰之心',
+  'presets.builtin.saturn': '深海土星',
+  'presets.builtin.flower': '流动花园',
+  'presets.builtin.fireworks': '节日烟花',
+
+  'timeline.title': '时间轴',
+  'timeline.loop': '循环播放',
+  'timeline.position': '时间轴位置',
+  'timeline.attract': '无人时自动演示',
+  'timeline.attractHint': '摄像头前无人时自动播放时间轴，有人举手即交还手势控制',
+  'timeline.attractDelay': '自动演示等待时间',
+  'timeline.attractAfter': '{seconds} 秒后',
+  'timeline.attracting': '演示中',
+  'timeline.keyframeTime': '关键帧时间',
+  'timeline.keyframeEasing': '关键帧缓动',
+  'timeline.seek': '跳转到此关键帧',
+  'timeline.morphDuration': '形状变换时长（秒）',
+  'timeline.deleteKeyframe': '删除关键帧',
+  'timeline.addKeyframe': '添加当前画面',
+  'timeline.addKeyframeHint': '以当前形状、颜色和姿态添加关键帧',
+  'timeline.duration': '总长',
+  'timeline.durationHint': '时间轴总长（秒）',
+  'timeline.reset': '恢复默认时间轴',
+
+  'audio.title': '音频',
+  'audio.microphone': '麦克风',
+  'audio.microphoneHint': '使用麦克风',
+  'audio.file': '音频文件',
+  'audio.fileHint': '播放本地音频文件',
+  'audio.failed': '无法打开音频输入',
+  'audio.bass': '低',
+  'audio.mid': '中',
+  'audio.treble': '高',
+  'audio.beat': '节拍',
+  'audio.scale': '缩放',
+  'audio.scaleHint': '低音和节拍让粒子云膨胀',
+  'audio.breathing': '呼吸',
+  'audio.breathingHint': '中频加深呼吸起伏',
+  'audio.turbulence': '湍流',
+  'audio.turbulenceHint': '高频搅动粒子（物理模式）',
+  'audio.color': '色彩',
+  'audio.colorHint': '音量越大颜色循环越快',
+  'audio.beatsPerShape': '节拍换形状',
+  'audio.beatsPerShapeHint': '随节拍切换到下一个形状',
+  'audio.everyBeats': '每 {beats} 拍',
+
+  'mapping.title': '映射',
+  'mapping.enabled': '启用映射',
+  'mapping.source': '输入信号',
+  'mapping.source.pinch': '捏合距离',
+  'mapping.source.handDistance': '双手距离',
+  'mapping.source.centerX': '手腕 X',
+  'mapping.source.centerY': '手腕 Y',
+  'mapping.source.handAngle': '双手角度',
+  'mapping.source.palmRoll': '手掌倾斜',
+  'mapping.source.fingerCount': '伸出手指数',
+  'mapping.source.handCount': '手的数量',
+  'mapping.target': '目标参数',
+  'mapping.target.scale': '缩放',
+  'mapping.target.positionX': '位置 X',
+  'mapping.target.positionY': '位置 Y',
+  'mapping.target.rotationX': '旋转 X',
+  'mapping.target.rotationY': '旋转 Y',
+  'mapping.target.rotationZ': '旋转 Z',
+  'mapping.target.hue': '色相',
+  'mapping.target.morph': '变形进度',
+  'mapping.target.turbulence': '湍流',
+  'mapping.target.particleSize': '粒子大小',
+  'mapping.curve': '曲线',
+  'mapping.curve.sCurve': 'S 形',
+  'mapping.hands': '仅在检测到这么多只手时生效',
+  'mapping.hands.any': '任意',
+  'mapping.hands.one': '单手',
+  'mapping.hands.two': '双手',
+  'mapping.delete': '删除映射',
+  'mapping.input': '输入',
+  'mapping.inputMin': '输入最小值',
+  'mapping.inputMax': '输入最大值',
+  'mapping.output': '输出',
+  'mapping.outputMin': '输出最小值',
+  'mapping.outputMax': '输出最大值',
+  'mapping.signal': '当前信号值',
+  'mapping.invert': '反转',
+  'mapping.smoothing': '平滑',
+  'mapping.smoothingHint': '跟随时间常数（秒），0 为立即',
+  'mapping.add': '添加映射',
+  'mapping.order': '后面的映射优先',
+  'mapping.reset': '恢复默认映射',
+
+  'capture.screenshot': '保存 PNG 截图',
+  'capture.screenshotSize': '截图分辨率',
+  'capture.currentSize': '当前画面',
+  'capture.record': '录制 WebM 视频',
+  'capture.frameRate': '录制帧率',
+  'capture.offline': '逐帧离线渲染（固定时间步长）',
+  'capture.offlineDuration': '离线渲染时长',
+  'capture.webcam': '摄像头',
+  'capture.webcamHint': '在截图和视频中叠加摄像头画面',
+  'capture.screenshotFailed': '无法保存截图',
+  'capture.recordingFailed': '无法录制视频',
+
+  'tracker.stats': '检测 {fps} fps · {latency} ms',
+  'tracker.scale': '缩放 {scale}',
+  'tracker.position': '位置 {x} {y}',
+  'tracker.rotation': '旋转 {x} {y} {z}',
+  'tracker.preview': '摄像头预览',
+
+  'render.title': '渲染',
+  'render.sprite': '粒子外形',
+  'render.sprite.square': '方点',
+  'render.sprite.soft': '柔和圆点',
+  'render.sprite.glow': '光晕',
+  'render.sprite.sparkle': '星芒',
+  'render.size': '粒子大小',
+  'render.size.uniform': '统一',
+  'render.size.depth': '随深度变化',
+  'render.size.velocity': '随速度变化',
+  'render.sizeAmount': '大小变化',
+  'render.sizeAmountHint': '近处或快速的粒子放大多少',
+  'render.trails': '拖尾',
+  'render.trailsHint': '运动的粒子留下多长的轨迹',
+  'render.bloom': '辉光',
+  'render.bloomHint': '明亮区域周围的光晕强度',
+  'render.bloomRadius': '辉光半径',
+  'render.bloomRadiusHint': '光晕扩散的范围',
+  'render.bloomThreshold': '辉光阈值',
+  'render.bloomThresholdHint': '低于此亮度的区域不发光',
+  'render.depthOfField': '景深',
+  'render.depthOfFieldHint': '远离焦点的粒子模糊成更大、更暗的光斑',
+  'render.focus': '焦点',
+  'render.focusHint': '焦平面到粒子云中心的距离，负值更近',
+  'render.effectsOff': '当前画质等级关闭了拖尾、辉光和景深',
+  'render.reset': '恢复默认',
+  'view.title': '镜头',
+  'view.mode': '镜头模式',
+  'view.mode.cloud': '手势移动粒子',
+  'view.mode.cloudHint': '手势旋转、缩放粒子云；拖动画面可转动镜头',
+  'view.mode.orbit': '自由环绕',
+  'view.mode.orbitHint': '拖动转动镜头，滚轮缩放，右键平移；手势仍然移动粒子云',
+  'view.mode.gesture': '手势控制镜头',
+  'view.mode.gestureHint': '手势让镜头环绕和推拉，粒子云保持不动',
+  'view.mode.tour': '自动巡游',
+  'view.mode.tourHint': '镜头沿缓慢的路径自动移动，适合无人值守的大屏',
+  'view.tourPath': '巡游路线',
+  'view.tourPathHint': '按视点巡游需要至少两个已保存的视点',
+  'view.tourPath.orbit': '环绕',
+  'view.tourPath.viewpoints': '按视点',
+  'view.tourSpeed': '巡游速度',
+  'view.viewpointLabel': '视点名称',
+  'view.viewpointPlaceholder': '视点名称…',
+  'view.viewpointName': '视点 {index}',
+  'view.saveViewpoint': '保存当前视点',
+  'view.reset': '回到初始视角',
+  'view.noViewpoints': '还没有保存的视点',
+  'view.goTo': '前往 {name}',
+  'performance.title': '性能',
+  'performance.quality': '画质',
+  'performance.auto': '自动 · {level}',
+  'performance.level.ultra': '极高',
+  'performance.level.high': '高',
+  'performance.level.medium': '中',
+  'performance.level.low': '低',
+  'performance.level.minimal': '最低',
+  'performance.target': '目标帧率',
+  'performance.targetHint': '自动画质逐级升降以保持此帧率（显示器刷新率更低时以刷新率为准）',
+  'performance.detail.particles': '粒子 {percent}%',
+  'performance.detail.dpr': '像素比 ≤ {dpr}',
+  'performance.detail.stars': '星空 {stars}',
+  'performance.detail.detection': '检测 ≤ {rate} Hz',
+  'performance.detail.detectionAny': '检测不限速',
+  'performance.detail.additive': '叠加混合',
+  'performance.detail.opaque': '不透明粒子',
+  'performance.detail.effects': '拖尾、辉光与景深',
+  'performance.detail.noEffects': '无后期效果',
+  'performance.showStats': '显示性能统计',
+  'performance.stats.render': '渲染 {fps} fps · 目标 {target}',
+  'performance.stats.frame': '帧间隔 {frame} ms · CPU {cpu} ms',
+  'performance.stats.quality': '{level} · {particles} 粒子 · DPR {dpr}'
+};
+
+export type MessageKey = keyof typeof zhCN;
+
+export type Catalog = Record<MessageKey, string>;
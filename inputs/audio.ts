@@ -0,0 +1,164 @@
+// Audio analysis for music-reactive particles: band energies and beats from the
+// microphone or a local audio file, via a Web Audio AnalyserNode.
+
+export type AudioSourceKind = 'microphone' | 'file';
+
+export interface AudioFeatures {
+  bass: number;      // 0..1, 20-250 Hz
+  mid: number;       // 0..1, 250-2000 Hz
+  treble: number;    // 0..1, 2-8 kHz
+  level: number;     // 0..1, overall loudness
+  lastBeat: number;  // performance.now() of the latest beat, -Infinity before the first
+}
+
+// How strongly each particle parameter follows the music; 0 = not at all
+export interface AudioMapping {
+  scale: number;          // bass + beat pulse -> cloud size
+  breathing: number;      // mids -> breathing amplitude
+  turbulence: number;     // treble -> curl-noise strength (physics mode)
+  color: number;          // loudness -> colour cycling speed
+  beatsPerShape: number;  // switch to the next shape every N beats; 0 = never
+}
+
+export const DEFAULT_AUDIO_MAPPING: AudioMapping = {
+  scale: 0.5,
+  breathing: 0.5,
+  turbulence: 0.5,
+  color: 0.3,
+  beatsPerShape: 0
+};
+
+export const BEATS_PER_SHAPE_OPTIONS = [0, 4, 8, 16, 32];
+
+export const createSilentFeatures = (): AudioFeatures => ({ bass: 0, mid: 0, treble: 0, level: 0, lastBeat: -Infinity });
+
+// Envelope of a beat: 1 on the beat, fading over ~150 ms
+export const beatPulse = (features: AudioFeatures, now: number) => Math.exp(-(now - features.lastBeat) / 150);
+
+export interface AudioAnalyzerCallbacks {
+  onFeatures: (features: AudioFeatures) => void;
+  onBeat: (time: number) => void;
+}
+
+export interface AudioAnalyzer {
+  startMicrophone: () => Promise<void>;
+  startFile: (file: File) => Promise<void>;
+  stop: () => void;
+}
+
+const BANDS = { bass: [20, 250], mid: [250, 2000], treble: [2000, 8000] } as const;
+
+// Beats: bass clearly above its recent average, at most one every MIN_BEAT_GAP_MS
+const BEAT_THRESHOLD = 1.4;
+const MIN_BEAT_GAP_MS = 250;
+// Floor for the normalizing peak, so silence stays silent instead of amplifying noise
+const MIN_PEAK = 0.05;
+
+export const createAudioAnalyzer = (callbacks: AudioAnalyzerCallbacks): AudioAnalyzer => {
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let source: AudioNode | null = null;
+  let stream: MediaStream | null = null;
+  let element: HTMLAudioElement | null = null;
+  let requestId = 0;
+  let bins = new Uint8Array(0);
+  // Per band running peak, so quiet microphones and loud masters both use the full 0..1 range
+  const peaks = { bass: MIN_PEAK, mid: MIN_PEAK, treble: MIN_PEAK };
+  let bassAverage = 0;
+  let lastTick = 0;
+  const features = createSilentFeatures();
+
+  const bandEnergy = (band: keyof typeof BANDS) => {
+    const hzPerBin = context!.sampleRate / 2 / bins.length;
+    const from = Math.max(1, Math.floor(BANDS[band][0] / hzPerBin));
+    const to = Math.min(bins.length, Math.ceil(BANDS[band][1] / hzPerBin));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += bins[i];
+    const energy = sum / Math.max(to - from, 1) / 255;
+    peaks[band] = Math.max(energy, peaks[band] * 0.999, MIN_PEAK);
+    return Math.min(energy / peaks[band], 1);
+  };
+
+  const tick = (now: number) => {
+    requestId = requestAnimationFrame(tick);
+    if (!analyser) return;
+    const dt = Math.min((now - lastTick) / 1000, 0.1);
+    lastTick = now;
+
+    analyser.getByteFrequencyData(bins);
+    features.bass = bandEnergy('bass');
+    features.mid = bandEnergy('mid');
+    features.treble = bandEnergy('treble');
+    features.level = (features.bass + features.mid + features.treble) / 3;
+
+    // ~1 s running average of the bass
+    bassAverage += (features.bass - bassAverage) * (1 - Math.exp(-dt));
+    if (features.bass > bassAverage * BEAT_THRESHOLD + 0.05 && now - features.lastBeat > MIN_BEAT_GAP_MS) {
+      features.lastBeat = now;
+      callbacks.onBeat(now);
+    }
+    callbacks.onFeatures({ ...features });
+  };
+
+  const connect = async (node: (ctx: AudioContext) => AudioNode, audible: boolean) => {
+    stop();
+    context = new AudioContext();
+    // Created from a click, but some browsers still start suspended
+    await context.resume();
+    analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.6;
+    bins = new Uint8Array(analyser.frequencyBinCount);
+    source = node(context);
+    source.connect(analyser);
+    // Files are heard; the microphone is not, or it would feed back
+    if (audible) analyser.connect(context.destination);
+    lastTick = performance.now();
+    requestId = requestAnimationFrame(tick);
+  };
+
+  const stop = () => {
+    cancelAnimationFrame(requestId);
+    source?.disconnect();
+    analyser?.disconnect();
+    stream?.getTracks().forEach((track) => track.stop());
+    if (element) {
+      element.pause();
+      URL.revokeObjectURL(element.src);
+    }
+    context?.close().catch((error) => console.error("Audio context close error:", error));
+    context = null;
+    analyser = null;
+    source = null;
+    stream = null;
+    element = null;
+    bassAverage = 0;
+    Object.assign(peaks, { bass: MIN_PEAK, mid: MIN_PEAK, treble: MIN_PEAK });
+    Object.assign(features, createSilentFeatures());
+    callbacks.onFeatures({ ...features });
+  };
+
+  return {
+    startMicrophone: async () => {
+      const mic = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        video: false
+      });
+      try {
+        await connect((ctx) => ctx.createMediaStreamSource(mic), false);
+        stream = mic;
+      } catch (error) {
+        mic.getTracks().forEach((track) => track.stop());
+        throw error;
+      }
+    },
+    startFile: async (file) => {
+      const audio = new Audio(URL.createObjectURL(file));
+      audio.loop = true;
+      await connect((ctx) => ctx.createMediaElementSource(audio), true);
+      element = audio;
+      await audio.play();
+    },
+    stop
+  };
+};
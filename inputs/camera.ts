@@ -0,0 +1,81 @@
+import { InputError } from '../types';
+
+export interface CameraSettings {
+  deviceId: string | null;  // null = browser default
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const CAMERA_RESOLUTIONS = [
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 }
+];
+
+export const CAMERA_FRAME_RATES = [15, 30, 60];
+
+export const DEFAULT_CAMERA: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30
+};
+
+export class CameraError extends Error {
+  constructor(public kind: InputError, cause?: unknown) {
+    super(`Camera unavailable: ${kind}`);
+    this.name = 'CameraError';
+    this.cause = cause;
+  }
+}
+
+// getUserMedia reports failures as DOMExceptions; map them to something we can explain
+const classify = (error: unknown): InputError => {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'camera-denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError': // only the exact deviceId is a hard constraint
+      return 'camera-not-found';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'camera-in-use';
+    default:
+      return 'camera-unsupported';
+  }
+};
+
+export const isCameraSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+// Device labels are empty until the user granted camera access once
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'videoinput');
+};
+
+// Opens the camera; resolution and frame rate are preferences, the device is not
+export const openCamera = async (settings: CameraSettings): Promise<MediaStream> => {
+  if (!isCameraSupported()) throw new CameraError('camera-unsupported');
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: {
+        deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+        width: { ideal: settings.width },
+        height: { ideal: settings.height },
+        frameRate: { ideal: settings.frameRate }
+      }
+    });
+  } catch (error) {
+    throw new CameraError(classify(error), error);
+  }
+};
+
+export const stopStream = (stream: MediaStream) => {
+  stream.getTracks().forEach((track) => track.stop());
+};
@@ -0,0 +1,121 @@
+import { HandFrame } from '../types';
+import { HandTrackingOptions, WorkerRequest, WorkerResponse, createLandmarker, loadModel, loadVision, toHandFrame, toLandmarkerOptions } from './handLandmarker';
+
+// Runs the hand landmarker on a video frame. Detection happens in a worker where
+// the browser supports it, so a slow model never stalls rendering; otherwise it
+// falls back to the main thread with the same interface.
+export interface HandDetector {
+  // Resolves with the raw (unfiltered) detection, stamped with `timestamp`
+  detect: (video: HTMLVideoElement, timestamp: number) => Promise<HandFrame>;
+  setOptions: (options: HandTrackingOptions) => void;
+  close: () => void;
+}
+
+// The worker died after it was up; every later `detect` rejects with this at once
+export class DetectorFailedError extends Error {
+  constructor(cause?: unknown) {
+    super('Hand detection worker failed');
+    this.name = 'DetectorFailedError';
+    this.cause = cause;
+  }
+}
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const createWorkerDetector = (model: Uint8Array, options: HandTrackingOptions): Promise<HandDetector> => {
+  const worker = new Worker(new URL('./handWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (frame: HandFrame) => void; reject: (error: Error) => void }>();
+  const post = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  return new Promise((resolve, reject) => {
+    let ready = false;
+    let failed: DetectorFailedError | null = null;
+
+    worker.addEventListener('message', ({ data }: MessageEvent<WorkerResponse>) => {
+      switch (data.type) {
+        case 'ready':
+          ready = true;
+          resolve(detector);
+          break;
+        case 'frame':
+          pending.get(data.frame.timestamp)?.resolve(data.frame);
+          pending.delete(data.frame.timestamp);
+          break;
+        case 'error':
+          if (!ready) {
+            worker.terminate();
+            reject(new Error(data.message));
+          } else if (data.timestamp !== undefined) {
+            pending.get(data.timestamp)?.reject(new Error(data.message));
+            pending.delete(data.timestamp);
+          } else {
+            console.error("Hand detection worker error:", data.message);
+          }
+          break;
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      const error = new Error(event.message || 'Hand detection worker failed');
+      worker.terminate();
+      if (!ready) {
+        reject(error);
+        return;
+      }
+      failed = new DetectorFailedError(error);
+      rejectAll(failed);
+    });
+
+    const detector: HandDetector = {
+      detect: async (video, timestamp) => {
+        if (failed) throw failed;
+        const bitmap = await createImageBitmap(video);
+        return new Promise((resolveFrame, rejectFrame) => {
+          pending.set(timestamp, { resolve: resolveFrame, reject: rejectFrame });
+          post({ type: 'detect', bitmap, timestamp }, [bitmap]);
+        });
+      },
+      setOptions: (next) => post({ type: 'options', options: next }),
+      close: () => {
+        worker.terminate();
+        rejectAll(new Error('Hand detector closed'));
+      }
+    };
+
+    // Send a copy: the original stays here in case the worker fails and we fall back
+    const copy = model.slice().buffer;
+    post({ type: 'init', model: copy, options }, [copy]);
+  });
+};
+
+const createMainThreadDetector = async (model: Uint8Array, options: HandTrackingOptions): Promise<HandDetector> => {
+  const landmarker = await createLandmarker(await loadVision(false), model, options);
+  return {
+    detect: async (video, timestamp) => toHandFrame(landmarker.detectForVideo(video, timestamp), timestamp),
+    setOptions: (next) => {
+      landmarker.setOptions(toLandmarkerOptions(next)).catch((error) => {
+        console.error("Hand tracking options error:", error);
+      });
+    },
+    close: () => landmarker.close()
+  };
+};
+
+// Pass `useWorker = false` to skip the worker, e.g. after one has failed
+export const createHandDetector = async (options: HandTrackingOptions, useWorker = true): Promise<HandDetector> => {
+  const model = await loadModel();
+  if (useWorker && supportsWorker()) {
+    try {
+      return await createWorkerDetector(model, options);
+    } catch (error) {
+      console.warn("Hand detection worker unavailable, detecting on the main thread:", error);
+    }
+  }
+  return createMainThreadDetector(model, options);
+};
@@ -0,0 +1,104 @@
+import { FilesetResolver, HandLandmarker, HandLandmarkerOptions, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandFrame } from '../types';
+
+// MediaPipe setup shared by the main thread and the detection worker.
+
+// MediaPipe assets are served by the app itself (see vite.config.ts and
+// `npm run fetch-assets`) so tracking works on networks that block CDNs.
+// Both locations can be overridden at build time for other hosting setups.
+const WASM_URL = import.meta.env.VITE_MEDIAPIPE_WASM_URL ?? `${import.meta.env.BASE_URL}mediapipe/wasm`;
+const MODEL_URLS = [
+  import.meta.env.VITE_HAND_MODEL_URL ?? `${import.meta.env.BASE_URL}models/hand_landmarker.task`,
+  // Last resort for development checkouts that never fetched the model
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+];
+
+export interface HandTrackingOptions {
+  numHands: number;
+  minHandDetectionConfidence: number;  // palm detector, when (re)acquiring hands
+  minHandPresenceConfidence: number;   // below this, a tracked hand counts as lost
+  minTrackingConfidence: number;       // below this, landmarks are re-detected instead of tracked
+  detectionRate: number;               // detections per second; 0 = every new camera frame
+}
+
+export const DEFAULT_HAND_TRACKING: HandTrackingOptions = {
+  numHands: 2,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+  detectionRate: 30
+};
+
+export const DETECTION_RATE_OPTIONS = [0, 15, 30, 60];
+export const NUM_HANDS_OPTIONS = [1, 2, 4];
+export const CONFIDENCE_RANGE = { min: 0.1, max: 0.9 };
+
+// The subset MediaPipe understands
+export const toLandmarkerOptions = ({ detectionRate: _, ...options }: HandTrackingOptions): HandLandmarkerOptions => options;
+
+// First model location that answers with the actual file (dev servers answer
+// unknown paths with index.html, so check the content type too)
+export const loadModel = async (): Promise<Uint8Array> => {
+  for (const url of MODEL_URLS) {
+    try {
+      const response = await fetch(url);
+      if (response.ok && !response.headers.get('content-type')?.includes('text/html')) {
+        return new Uint8Array(await response.arrayBuffer());
+      }
+      console.warn(`Hand model not available at ${url} (${response.status})`);
+    } catch (error) {
+      console.warn(`Hand model not available at ${url}:`, error);
+    }
+  }
+  throw new Error('Hand landmarker model could not be loaded');
+};
+
+// Module workers cannot importScripts the classic WASM loader, so they use its ES module build
+export const loadVision = (inWorker: boolean) =>
+  FilesetResolver.forVisionTasks(new URL(WASM_URL, self.location.href).href, inWorker);
+
+// GPU first; some drivers / browsers cannot create the WebGL delegate, so fall back to CPU
+export const createLandmarker = async (
+  vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>,
+  model: Uint8Array,
+  options: HandTrackingOptions
+) => {
+  try {
+    return await HandLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetBuffer: model, delegate: "GPU" },
+      runningMode: "VIDEO",
+      ...toLandmarkerOptions(options)
+    });
+  } catch (error) {
+    console.warn("GPU delegate unavailable, falling back to CPU:", error);
+    return HandLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetBuffer: model, delegate: "CPU" },
+      runningMode: "VIDEO",
+      ...toLandmarkerOptions(options)
+    });
+  }
+};
+
+// Strip MediaPipe's result down to the plain data we map, record and replay
+export const toHandFrame = (result: HandLandmarkerResult, timestamp: number): HandFrame => ({
+  timestamp,
+  hands: (result.landmarks ?? []).map((landmarks, i) => {
+    const category = result.handedness?.[i]?.[0];
+    return {
+      handedness: category?.categoryName === 'Left' ? 'Left' : 'Right',
+      score: category?.score ?? 0,
+      landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z }))
+    };
+  })
+});
+
+// Messages between the main thread and handWorker
+export type WorkerRequest =
+  | { type: 'init'; model: ArrayBuffer; options: HandTrackingOptions }
+  | { type: 'options'; options: HandTrackingOptions }
+  | { type: 'detect'; bitmap: ImageBitmap; timestamp: number };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'frame'; frame: HandFrame }
+  | { type: 'error'; message: string; timestamp?: number };
@@ -0,0 +1,235 @@
+import { HandFrame, InputSource, InputSourceCallbacks } from '../types';
+import { DEFAULT_FILTER, FilterSettings, createHandFilter } from '../utils/handFilter';
+import { DEFAULT_MAPPING, MappingBinding, applyMapping } from '../utils/mapping';
+import { CameraError, CameraSettings, DEFAULT_CAMERA, openCamera, stopStream } from './camera';
+import { DetectorFailedError, HandDetector, createHandDetector } from './handDetector';
+import { DEFAULT_HAND_TRACKING, HandTrackingOptions } from './handLandmarker';
+
+export interface HandSource extends InputSource {
+  // Applies to the running landmarker without restarting the webcam
+  setOptions: (options: HandTrackingOptions) => void;
+  // Reopens the webcam with another device / resolution / frame rate
+  setCamera: (camera: CameraSettings) => void;
+  // Smoothing / dropout handling applied to detections before anything else sees them
+  setFilter: (settings: FilterSettings) => void;
+  // Gesture -> parameter bindings
+  setMapping: (mapping: MappingBinding[]) => void;
+  // Stops detection and blanks the camera without giving it up
+  pause: () => void;
+  resume: () => void;
+}
+
+// MediaPipe hand tracking on a webcam stream rendered into `video`.
+// Detection runs at `detectionRate`, independent of the render loop, with at most
+// one frame in flight; results are timestamped with their capture time.
+// Reports 'searching' while the camera runs without a hand in view and 'active'
+// only while at least one hand is detected.
+export const createHandSource = (
+  video: HTMLVideoElement,
+  initialOptions: HandTrackingOptions = DEFAULT_HAND_TRACKING,
+  initialCamera: CameraSettings = DEFAULT_CAMERA,
+  initialFilter: FilterSettings = DEFAULT_FILTER,
+  initialMapping: MappingBinding[] = DEFAULT_MAPPING
+): HandSource => {
+  let active = false;
+  let paused = false;
+  let tracking = false;
+  let requestId = 0;
+  let lastVideoTime = -1;
+  let lastDetection = 0;
+  let busy = false;
+  let detector: HandDetector | null = null;
+  let stream: MediaStream | null = null;
+  let cameraRequest = 0;
+  let callbacks: InputSourceCallbacks | null = null;
+  let options = initialOptions;
+  let camera = initialCamera;
+  let mapping = initialMapping;
+  const filter = createHandFilter(initialFilter, initialMapping);
+
+  // Once both the model and the camera are up, wait for a hand
+  const reportReady = () => {
+    if (!stream || !detector) return;
+    tracking = false;
+    callbacks?.onStatus(paused ? 'paused' : 'searching');
+  };
+
+  const setupMediaPipe = async (useWorker = true) => {
+    try {
+      const created = await createHandDetector(options, useWorker);
+
+      if (!active) {
+        created.close();
+        return;
+      }
+      detector = created;
+      reportReady();
+    } catch (error) {
+      console.error("Error initializing MediaPipe:", error);
+      callbacks?.onStatus('error', 'tracker-failed');
+    }
+  };
+
+  const handleTrackEnded = () => {
+    if (active) callbacks?.onStatus('error', 'camera-disconnected');
+  };
+
+  const releaseStream = () => {
+    if (!stream) return;
+    stream.getVideoTracks().forEach((track) => track.removeEventListener('ended', handleTrackEnded));
+    stopStream(stream);
+    stream = null;
+    video.srcObject = null;
+  };
+
+  // (Re)opens the camera; a newer request wins if the user switches devices quickly
+  const startWebcam = async () => {
+    const request = ++cameraRequest;
+
+    try {
+      const mediaStream = await openCamera(camera);
+
+      if (!active || request !== cameraRequest) {
+        stopStream(mediaStream);
+        return;
+      }
+      releaseStream();
+      stream = mediaStream;
+      stream.getVideoTracks().forEach((track) => {
+        track.enabled = !paused;
+        track.addEventListener('ended', handleTrackEnded);
+      });
+
+      video.srcObject = mediaStream;
+      lastVideoTime = -1;
+      reportReady();
+    } catch (error) {
+      if (!active || request !== cameraRequest) return;
+      console.error("Webcam error:", error);
+      callbacks?.onStatus('error', error instanceof CameraError ? error.kind : 'camera-unsupported');
+    }
+  };
+
+  // Drop whatever was being tracked, e.g. when pausing
+  const clearHands = () => {
+    filter.reset();
+    const frame: HandFrame = { timestamp: performance.now(), hands: [] };
+    callbacks?.onFrame?.(frame);
+    callbacks?.onInteraction(applyMapping(mapping, frame.hands));
+  };
+
+  const handleFrame = (raw: HandFrame) => {
+    callbacks?.onRawFrame?.(raw);
+    const { frame, interaction } = filter.process(raw);
+    frame.latency = performance.now() - raw.timestamp;
+
+    callbacks?.onFrame?.(frame);
+    callbacks?.onInteraction({ ...interaction, timestamp: frame.timestamp });
+
+    const found = frame.hands.length > 0;
+    if (found !== tracking) {
+      tracking = found;
+      callbacks?.onStatus(found ? 'active' : 'searching');
+    }
+  };
+
+  const predictWebcam = () => {
+    requestId = requestAnimationFrame(predictWebcam);
+    if (!active || paused || busy || !detector || !stream) return;
+
+    // Only run detection on new video frames; the display usually refreshes faster than the camera
+    if (video.readyState < 2 || video.paused || video.ended || video.currentTime === lastVideoTime) return;
+
+    // Some slack so e.g. 30 Hz is not rounded down to every third 60 Hz frame
+    const now = performance.now();
+    if (options.detectionRate > 0 && now - lastDetection < 900 / options.detectionRate) return;
+    lastVideoTime = video.currentTime;
+    lastDetection = now;
+
+    busy = true;
+    const current = detector;
+    current.detect(video, now)
+      .then((raw) => {
+        if (active && !paused) handleFrame(raw);
+      })
+      .catch((error) => {
+        if (!active) return;
+        if (!(error instanceof DetectorFailedError)) {
+          console.error("Hand detection error:", error);
+          return;
+        }
+        // The worker died: carry on with a detector on the main thread
+        if (detector !== current) return;
+        console.warn("Hand detection worker failed, detecting on the main thread:", error);
+        current.close();
+        detector = null;
+        clearHands();
+        callbacks?.onStatus('initializing');
+        setupMediaPipe(false);
+      })
+      .finally(() => {
+        busy = false;
+      });
+  };
+
+  return {
+    setOptions: (next) => {
+      options = next;
+      detector?.setOptions(next);
+    },
+    setFilter: (next) => {
+      filter.setSettings(next);
+    },
+    setMapping: (next) => {
+      mapping = next;
+      filter.setMapping(next);
+    },
+    setCamera: (next) => {
+      camera = next;
+      if (!active) return;
+      callbacks?.onStatus('initializing');
+      startWebcam();
+    },
+    pause: () => {
+      if (!active || paused) return;
+      paused = true;
+      tracking = false;
+      stream?.getVideoTracks().forEach((track) => {
+        track.enabled = false;
+      });
+      video.pause();
+      clearHands();
+      callbacks?.onStatus('paused');
+    },
+    resume: () => {
+      if (!active || !paused) return;
+      paused = false;
+      stream?.getVideoTracks().forEach((track) => {
+        track.enabled = true;
+      });
+      video.play().catch((error) => console.error("Webcam playback error:", error));
+      reportReady();
+    },
+    start: (cb) => {
+      callbacks = cb;
+      active = true;
+      callbacks.onStatus('initializing');
+      setupMediaPipe();
+      startWebcam();
+      requestId = requestAnimationFrame(predictWebcam);
+    },
+    stop: () => {
+      active = false;
+      callbacks = null;
+      cameraRequest++;
+      if (requestId) {
+        cancelAnimationFrame(requestId);
+      }
+      if (detector) {
+        detector.close();
+        detector = null;
+      }
+      releaseStream();
+    }
+  };
+};
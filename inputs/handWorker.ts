@@ -0,0 +1,47 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { WorkerRequest, WorkerResponse, createLandmarker, loadVision, toHandFrame, toLandmarkerOptions } from './handLandmarker';
+
+// Runs the hand landmarker off the main thread. Frames arrive as transferred
+// ImageBitmaps; MediaPipe renders them through its own OffscreenCanvas.
+
+// The project compiles against the DOM lib only, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  addEventListener: (type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void) => void;
+};
+
+let landmarker: HandLandmarker | null = null;
+
+const init = async (model: ArrayBuffer, options: Parameters<typeof createLandmarker>[2]) => {
+  try {
+    const vision = await loadVision(true);
+    landmarker = await createLandmarker(vision, new Uint8Array(model), options);
+    scope.postMessage({ type: 'ready' });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: String(error) });
+  }
+};
+
+scope.addEventListener('message', ({ data }) => {
+  switch (data.type) {
+    case 'init':
+      init(data.model, data.options);
+      break;
+    case 'options':
+      landmarker?.setOptions(toLandmarkerOptions(data.options)).catch((error) => {
+        scope.postMessage({ type: 'error', message: String(error) });
+      });
+      break;
+    case 'detect':
+      try {
+        if (!landmarker) throw new Error('Hand landmarker not ready');
+        const result = landmarker.detectForVideo(data.bitmap, data.timestamp);
+        scope.postMessage({ type: 'frame', frame: toHandFrame(result, data.timestamp) });
+      } catch (error) {
+        scope.postMessage({ type: 'error', message: String(error), timestamp: data.timestamp });
+      } finally {
+        data.bitmap.close();
+      }
+      break;
+  }
+});
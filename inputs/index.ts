@@ -0,0 +1,28 @@
+import { InputMode, InputSource } from '../types';
+import { createPointerSource } from './pointerSource';
+import { createKeyboardSource } from './keyboardSource';
+import { createScriptedSource } from './scriptedSource';
+import { createReplaySource } from './replaySource';
+import { HandSession } from '../utils/handSession';
+import { MappingBinding } from '../utils/mapping';
+import { FilterSettings } from '../utils/handFilter';
+
+// Sources that need no DOM of their own. HANDS is owned by <HandTracker>,
+// which has to render the webcam <video> element the tracker reads from.
+export const createInputSource = (
+  mode: Exclude<InputMode, InputMode.HANDS>,
+  session: HandSession | null,
+  getMapping: () => MappingBinding[],
+  getFilter: () => FilterSettings
+): InputSource => {
+  switch (mode) {
+    case InputMode.POINTER:
+      return createPointerSource();
+    case InputMode.KEYBOARD:
+      return createKeyboardSource();
+    case InputMode.SCRIPTED:
+      return createScriptedSource();
+    case InputMode.REPLAY:
+      return createReplaySource(session, true, getMapping, getFilter);
+  }
+};
@@ -0,0 +1,81 @@
+import { InputSource, InputSourceCallbacks, createDefaultInteraction } from '../types';
+
+const MOVE_SPEED = 4.0;   // scene units per second
+const SCALE_SPEED = 1.0;  // scale units per second
+const ROLL_SPEED = 1.5;   // radians per second
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(v, max));
+
+// Keyboard control: arrows / WASD move, +/- scale, Q/E roll, Space or 0 resets.
+export const createKeyboardSource = (): InputSource => {
+  let callbacks: InputSourceCallbacks | null = null;
+  let requestId = 0;
+  let lastTime = 0;
+  let data = createDefaultInteraction();
+  const pressed = new Set<string>();
+
+  const isDown = (...keys: string[]) => keys.some((k) => pressed.has(k));
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+    if (e.key === ' ' || e.key === '0') {
+      data = createDefaultInteraction();
+      return;
+    }
+    pressed.add(e.key.toLowerCase());
+  };
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    pressed.delete(e.key.toLowerCase());
+  };
+
+  const onBlur = () => pressed.clear();
+
+  const tick = (now: number) => {
+    const dt = lastTime ? Math.min((now - lastTime) / 1000, 0.1) : 0;
+    lastTime = now;
+
+    const dx = (isDown('arrowright', 'd') ? 1 : 0) - (isDown('arrowleft', 'a') ? 1 : 0);
+    const dy = (isDown('arrowup', 'w') ? 1 : 0) - (isDown('arrowdown', 's') ? 1 : 0);
+    const ds = (isDown('+', '=') ? 1 : 0) - (isDown('-', '_') ? 1 : 0);
+    const dr = (isDown('q') ? 1 : 0) - (isDown('e') ? 1 : 0);
+
+    data.position.x = clamp(data.position.x + dx * MOVE_SPEED * dt, -4, 4);
+    data.position.y = clamp(data.position.y + dy * MOVE_SPEED * dt, -3, 3);
+    data.scale = clamp(data.scale + ds * SCALE_SPEED * dt, 0.5, 2.5);
+    data.rotation.z += dr * ROLL_SPEED * dt;
+
+    // Tilt follows position, like the webcam mapping does
+    data.rotation.y = (data.position.x / 8) * 3.0;
+    data.rotation.x = -(data.position.y / 6) * 3.0;
+
+    callbacks?.onInteraction({
+      scale: data.scale,
+      position: { ...data.position },
+      rotation: { ...data.rotation }
+    });
+
+    requestId = requestAnimationFrame(tick);
+  };
+
+  return {
+    start: (cb) => {
+      callbacks = cb;
+      lastTime = 0;
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('keyup', onKeyUp);
+      window.addEventListener('blur', onBlur);
+      callbacks.onStatus('active');
+      requestId = requestAnimationFrame(tick);
+    },
+    stop: () => {
+      callbacks = null;
+      pressed.clear();
+      cancelAnimationFrame(requestId);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    }
+  };
+};
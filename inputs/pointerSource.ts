@@ -0,0 +1,109 @@
+import { InputSource, InputSourceCallbacks, createDefaultInteraction } from '../types';
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2.5;
+
+const clampScale = (s: number) => Math.max(MIN_SCALE, Math.min(s, MAX_SCALE));
+
+// Mouse / touch control: drag moves the cloud, wheel or two-finger pinch scales it.
+// Only events that land on the 3D canvas are used so the toolbar stays clickable.
+export const createPointerSource = (): InputSource => {
+  let callbacks: InputSourceCallbacks | null = null;
+  const data = createDefaultInteraction();
+  const pointers = new Map<number, { x: number; y: number }>();
+  let pinchStartDist = 0;
+  let pinchStartScale = 1.0;
+
+  const emit = () => {
+    callbacks?.onInteraction({
+      scale: data.scale,
+      position: { ...data.position },
+      rotation: { ...data.rotation }
+    });
+  };
+
+  const pinchDistance = () => {
+    const [a, b] = Array.from(pointers.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  // Same mapping as the one-hand webcam logic, but without the mirror flip
+  const moveTo = (clientX: number, clientY: number) => {
+    const nx = clientX / window.innerWidth;
+    const ny = clientY / window.innerHeight;
+
+    data.position.x = (nx - 0.5) * 8;
+    data.position.y = -(ny - 0.5) * 6;
+    data.rotation.y = (nx - 0.5) * 3.0;
+    data.rotation.x = (ny - 0.5) * 3.0;
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size === 2) {
+      pinchStartDist = pinchDistance();
+      pinchStartScale = data.scale;
+    } else {
+      moveTo(e.clientX, e.clientY);
+    }
+    emit();
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (!pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size >= 2) {
+      const [a, b] = Array.from(pointers.values());
+      if (pinchStartDist > 0) {
+        data.scale = clampScale(pinchStartScale * (pinchDistance() / pinchStartDist));
+      }
+      moveTo((a.x + b.x) / 2, (a.y + b.y) / 2);
+    } else {
+      moveTo(e.clientX, e.clientY);
+    }
+    emit();
+  };
+
+  const onPointerUp = (e: PointerEvent) => {
+    if (!pointers.delete(e.pointerId)) return;
+
+    // Releasing behaves like a hand leaving the frame: the cloud drifts back home
+    if (pointers.size === 0) {
+      data.position = { x: 0, y: 0 };
+      data.rotation = { x: 0, y: 0, z: 0 };
+    }
+    pinchStartDist = 0;
+    emit();
+  };
+
+  const onWheel = (e: WheelEvent) => {
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    data.scale = clampScale(data.scale * Math.exp(-e.deltaY * 0.001));
+    emit();
+  };
+
+  return {
+    start: (cb) => {
+      callbacks = cb;
+      window.addEventListener('pointerdown', onPointerDown);
+      window.addEventListener('pointermove', onPointerMove);
+      window.addEventListener('pointerup', onPointerUp);
+      window.addEventListener('pointercancel', onPointerUp);
+      window.addEventListener('wheel', onWheel, { passive: true });
+      callbacks.onStatus('active');
+      emit();
+    },
+    stop: () => {
+      callbacks = null;
+      pointers.clear();
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+      window.removeEventListener('wheel', onWheel);
+    }
+  };
+};
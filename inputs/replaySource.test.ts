@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import sessionText from '../fixtures/session.json?raw';
+import { HandFrame, InputStatus, InteractionData } from '../types';
+import { parseSession } from '../utils/handSession';
+import { DEFAULT_FILTER, FilterSettings, SmoothingMode, createHandFilter } from '../utils/handFilter';
+import { DEFAULT_MAPPING, MappingBinding, MappingSource, MappingTarget, applyMapping, createBinding } from '../utils/mapping';
+import { createReplaySource } from './replaySource';
+
+// Drives the source's animation frames by hand instead of waiting for a display
+let pending: FrameRequestCallback | null = null;
+
+beforeEach(() => {
+  pending = null;
+  vi.spyOn(performance, 'now').mockReturnValue(0);
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    pending = callback;
+    return 1;
+  });
+  vi.stubGlobal('cancelAnimationFrame', () => {
+    pending = null;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// No smoothing and no grace period: the filter passes the recorded hands straight through
+const PASS_THROUGH: FilterSettings = { ...DEFAULT_FILTER, smoothing: SmoothingMode.NONE, graceMs: 0 };
+
+const play = (mapping: () => MappingBinding[], until: number, loop = false, filter = DEFAULT_FILTER) => {
+  const session = parseSession(sessionText);
+  const frames: HandFrame[] = [];
+  const interactions: InteractionData[] = [];
+  const statuses: InputStatus[] = [];
+  const source = createReplaySource(session, loop, mapping, () => filter);
+  source.start({
+    onFrame: (frame) => frames.push(frame),
+    onInteraction: (data) => interactions.push(data),
+    onStatus: (status) => statuses.push(status)
+  });
+  // A 60 Hz display
+  for (let now = 0; now <= until; now += 1000 / 60) pending?.(now);
+  source.stop();
+  return { session, frames, interactions, statuses };
+};
+
+describe('createReplaySource', () => {
+  it('replays every frame of the session in order through the same filter and mapping as live tracking', () => {
+    const { session, frames, interactions, statuses } = play(() => DEFAULT_MAPPING, 1200);
+
+    const live = createHandFilter(DEFAULT_FILTER, DEFAULT_MAPPING);
+    const expected = session.frames.map((frame) => live.process(frame));
+    expect(statuses).toEqual(['active']);
+    expect(frames).toEqual(expected.map(({ frame }) => frame));
+    expect(interactions).toEqual(expected.map(({ interaction }) => interaction));
+  });
+
+  it('holds lost hands for the grace period', () => {
+    const { session, frames } = play(() => DEFAULT_MAPPING, 1200);
+    expect(session.frames[15].hands).toEqual([]);
+    expect(frames[15].hands).toHaveLength(1);
+    expect(frames[15].hands[0].handedness).toBe('Right');
+  });
+
+  it('reproduces the gestures in the session', () => {
+    const { interactions } = play(() => DEFAULT_MAPPING, 1200, false, PASS_THROUGH);
+
+    // One hand: the pinch opens from 0.02 to 0.2 while the wrist moves from x 0.6 to 0.4
+    expect(interactions[0].scale).toBeCloseTo(0.5);
+    expect(interactions[14].scale).toBeCloseTo(2);
+    expect(interactions[0].position.x).toBeCloseTo(-0.8);
+    expect(interactions[14].position.x).toBeCloseTo(0.8);
+    // Lost: neutral
+    expect(interactions[16]).toEqual(applyMapping(DEFAULT_MAPPING, []));
+    // Two hands: spread from 0.2 to 0.5 apart, the line between the wrists tilting
+    expect(interactions[18].scale).toBeCloseTo(0.5 + (0.1 / 0.7) * 2);
+    expect(interactions[29].rotation.z).toBeCloseTo(-Math.atan2(-0.2, 0.5));
+    expect(interactions[29].rotation.z).toBeGreaterThan(0);
+  });
+
+  it('reads the mapping on every frame', () => {
+    let mapping = DEFAULT_MAPPING;
+    const hue = createBinding(MappingSource.HAND_COUNT, MappingTarget.HUE);
+    const session = parseSession(sessionText);
+    const interactions: InteractionData[] = [];
+    const source = createReplaySource(session, false, () => mapping, () => PASS_THROUGH);
+    source.start({ onInteraction: (data) => interactions.push(data), onStatus: () => {} });
+
+    pending?.(0);
+    mapping = [...DEFAULT_MAPPING, hue];
+    pending?.(session.frames[1].timestamp);
+    source.stop();
+
+    expect(interactions[0].params).toBeUndefined();
+    expect(interactions[1].params?.hue).toBeCloseTo(0.5);
+  });
+
+  it('loops back to the first frame', () => {
+    const { session, frames } = play(() => DEFAULT_MAPPING, 1500, true);
+    const count = session.frames.length;
+    expect(frames.length).toBeGreaterThan(count);
+    // Filter state starts over too: the first frame comes out as it did the first time
+    expect(frames[count].timestamp).toBe(0);
+    expect(frames[count].hands[0].landmarks).toEqual(frames[0].hands[0].landmarks);
+  });
+
+  it('reports an empty session', () => {
+    const statuses: unknown[] = [];
+    createReplaySource({ recordedAt: '', frames: [] }).start({
+      onInteraction: () => {},
+      onStatus: (status, error) => statuses.push([status, error])
+    });
+    expect(statuses).toEqual([['error', 'empty-session']]);
+  });
+});
@@ -0,0 +1,72 @@
+import { InputSource, InputSourceCallbacks } from '../types';
+import { HandSession } from '../utils/handSession';
+import { DEFAULT_FILTER, FilterSettings, createHandFilter } from '../utils/handFilter';
+import { DEFAULT_MAPPING, MappingBinding } from '../utils/mapping';
+
+// Feeds a recorded session (raw detector output) back through the same hand filter
+// and mapping as live tracking. Both are read on every frame, so they can be tuned
+// while a session plays.
+export const createReplaySource = (
+  session: HandSession | null,
+  loop = true,
+  getMapping: () => MappingBinding[] = () => DEFAULT_MAPPING,
+  getFilter: () => FilterSettings = () => DEFAULT_FILTER
+): InputSource => {
+  let callbacks: InputSourceCallbacks | null = null;
+  let requestId = 0;
+  let startTime = 0;
+  let cursor = -1;
+
+  const frames = session?.frames ?? [];
+  const duration = frames.length > 0 ? frames[frames.length - 1].timestamp : 0;
+  let filterSettings = getFilter();
+  const filter = createHandFilter(filterSettings, getMapping());
+
+  const tick = (now: number) => {
+    let elapsed = now - startTime;
+    // Start over once the last frame has been shown
+    if (elapsed > duration && loop && cursor === frames.length - 1) {
+      startTime = now;
+      elapsed = 0;
+      cursor = -1;
+      // Session time starts over, and with it the filter
+      filter.reset();
+    }
+
+    const settings = getFilter();
+    if (settings !== filterSettings) {
+      filterSettings = settings;
+      filter.setSettings(settings);
+    }
+    filter.setMapping(getMapping());
+
+    // Emit every frame up to `elapsed`, like detections arriving between two display frames
+    while (cursor + 1 < frames.length && frames[cursor + 1].timestamp <= elapsed) {
+      cursor++;
+      const { frame, interaction } = filter.process(frames[cursor]);
+      callbacks?.onFrame?.(frame);
+      callbacks?.onInteraction(interaction);
+    }
+
+    requestId = requestAnimationFrame(tick);
+  };
+
+  return {
+    start: (cb) => {
+      callbacks = cb;
+      if (frames.length === 0) {
+        callbacks.onStatus('error', 'empty-session');
+        return;
+      }
+      startTime = performance.now();
+      cursor = -1;
+      filter.reset();
+      callbacks.onStatus('active');
+      requestId = requestAnimationFrame(tick);
+    },
+    stop: () => {
+      callbacks = null;
+      cancelAnimationFrame(requestId);
+    }
+  };
+};
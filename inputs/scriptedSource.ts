@@ -0,0 +1,76 @@
+import { InputSource, InputSourceCallbacks, InteractionData } from '../types';
+
+export interface ScriptKeyframe {
+  time: number; // seconds from the start of the script
+  data: InteractionData;
+}
+
+// A gentle loop used as the camera-less demo: sway, zoom in, roll, settle
+export const DEMO_SCRIPT: ScriptKeyframe[] = [
+  { time: 0, data: { scale: 1.0, position: { x: 0, y: 0 }, rotation: { x: 0, y: 0, z: 0 } } },
+  { time: 3, data: { scale: 1.4, position: { x: -2, y: 0.5 }, rotation: { x: -0.25, y: -0.75, z: 0 } } },
+  { time: 6, data: { scale: 0.8, position: { x: 2, y: -0.5 }, rotation: { x: 0.25, y: 0.75, z: 0.3 } } },
+  { time: 9, data: { scale: 2.0, position: { x: 0, y: 0 }, rotation: { x: 0, y: 0, z: -0.6 } } },
+  { time: 12, data: { scale: 1.0, position: { x: 0, y: 0 }, rotation: { x: 0, y: 0, z: 0 } } }
+];
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export const sampleScript = (keyframes: ScriptKeyframe[], time: number): InteractionData => {
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (time <= first.time) return first.data;
+  if (time >= last.time) return last.data;
+
+  let i = 1;
+  while (keyframes[i].time < time) i++;
+  const a = keyframes[i - 1];
+  const b = keyframes[i];
+  const t = smoothstep((time - a.time) / (b.time - a.time));
+
+  return {
+    scale: lerp(a.data.scale, b.data.scale, t),
+    position: {
+      x: lerp(a.data.position.x, b.data.position.x, t),
+      y: lerp(a.data.position.y, b.data.position.y, t)
+    },
+    rotation: {
+      x: lerp(a.data.rotation.x, b.data.rotation.x, t),
+      y: lerp(a.data.rotation.y, b.data.rotation.y, t),
+      z: lerp(a.data.rotation.z, b.data.rotation.z, t)
+    }
+  };
+};
+
+// Plays a keyframed script in real time, looping by default
+export const createScriptedSource = (
+  keyframes: ScriptKeyframe[] = DEMO_SCRIPT,
+  loop = true
+): InputSource => {
+  let callbacks: InputSourceCallbacks | null = null;
+  let requestId = 0;
+  let startTime = 0;
+  const duration = keyframes[keyframes.length - 1].time;
+
+  const tick = (now: number) => {
+    let elapsed = (now - startTime) / 1000;
+    if (loop && duration > 0) elapsed %= duration;
+
+    callbacks?.onInteraction(sampleScript(keyframes, elapsed));
+    requestId = requestAnimationFrame(tick);
+  };
+
+  return {
+    start: (cb) => {
+      callbacks = cb;
+      startTime = performance.now();
+      callbacks.onStatus('active');
+      requestId = requestAnimationFrame(tick);
+    },
+    stop: () => {
+      callbacks = null;
+      cancelAnimationFrame(requestId);
+    }
+  };
+};
@@ -0,0 +1,98 @@
+// Checks the message catalogs in i18n/ against the source catalog (zh-CN) and
+// looks for UI text that bypasses them:
+//   npm run check-i18n
+// Errors: missing, extra or empty keys, `{param}` mismatches, untranslated copies
+// of the source text, and Chinese text in source files outside i18n/.
+// Warnings: keys no source file mentions.
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const catalogDir = path.join(root, 'i18n');
+const SOURCE_LOCALE = 'zh-CN';
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'public', 'i18n', '.git']);
+const HAN = /[㐀-鿿豈-﫿]/;
+
+// Catalogs keep one `'key': 'text',` entry per line
+const ENTRY = /^\s*'([^']+)':\s*(['"])((?:\\.|(?!\2).)*)\2,?\s*$/;
+
+const parseCatalog = async (file) => {
+  const entries = new Map();
+  const lines = (await readFile(file, 'utf8')).split('\n');
+  lines.forEach((line) => {
+    const match = ENTRY.exec(line);
+    if (match) entries.set(match[1], match[3]);
+  });
+  return entries;
+};
+
+const placeholders = (text) => [...text.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).sort().join(',');
+
+const listSources = async (dir) => {
+  const files = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) files.push(...await listSources(path.join(dir, entry.name)));
+    } else if (/\.(ts|tsx)$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+      files.push(path.join(dir, entry.name));
+    }
+  }
+  return files;
+};
+
+const errors = [];
+const warnings = [];
+
+const locales = (await readdir(catalogDir))
+  .filter((name) => /^[a-z]{2}(-[A-Z]{2})?\.ts$/.test(name))
+  .map((name) => name.replace(/\.ts$/, ''));
+const catalogs = new Map();
+for (const locale of locales) {
+  catalogs.set(locale, await parseCatalog(path.join(catalogDir, `${locale}.ts`)));
+}
+
+const source = catalogs.get(SOURCE_LOCALE);
+if (!source || source.size === 0) {
+  console.error(`✗ i18n/${SOURCE_LOCALE}.ts has no entries`);
+  process.exit(1);
+}
+
+for (const [locale, catalog] of catalogs) {
+  for (const [key, text] of catalog) {
+    if (!text.trim()) errors.push(`${locale}: "${key}" is empty`);
+    if (locale === SOURCE_LOCALE) continue;
+    if (!source.has(key)) errors.push(`${locale}: "${key}" is not in ${SOURCE_LOCALE}`);
+    else if (placeholders(text) !== placeholders(source.get(key))) {
+      errors.push(`${locale}: "${key}" has parameters {${placeholders(text)}}, ${SOURCE_LOCALE} has {${placeholders(source.get(key))}}`);
+    } else if (text === source.get(key) && HAN.test(text)) {
+      errors.push(`${locale}: "${key}" is an untranslated copy of ${SOURCE_LOCALE}`);
+    }
+  }
+  if (locale === SOURCE_LOCALE) continue;
+  for (const key of source.keys()) {
+    if (!catalog.has(key)) errors.push(`${locale}: "${key}" is missing`);
+  }
+}
+
+// Text in the UI should come from a catalog; hard-coded Chinese is the usual slip
+const sources = await listSources(root);
+const code = [];
+for (const file of sources) {
+  const text = await readFile(file, 'utf8');
+  code.push(text);
+  text.split('\n').forEach((line, i) => {
+    if (HAN.test(line)) errors.push(`${path.relative(root, file)}:${i + 1}: hard-coded text: ${line.trim()}`);
+  });
+}
+
+// Keys are always written out in full (no template-built keys), so a key no file mentions is unused
+const allCode = code.join('\n');
+for (const key of source.keys()) {
+  if (!allCode.includes(`'${key}'`)) warnings.push(`"${key}" is not used anywhere`);
+}
+
+warnings.forEach((warning) => console.warn(`! ${warning}`));
+errors.forEach((error) => console.error(`✗ ${error}`));
+console.log(`${locales.join(', ')}: ${source.size} keys, ${errors.length} errors, ${warnings.length} warnings`);
+process.exit(errors.length > 0 ? 1 : 0);
@@ -0,0 +1,41 @@
+// Downloads the runtime assets that are not on npm into public/, so the app
+// can be served without reaching any CDN. Run once after `npm install`:
+//   npm run fetch-assets
+// The MediaPipe WASM files need no download; vite.config.ts serves them from node_modules.
+import { mkdir, writeFile, access } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const ASSETS = [
+  {
+    url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+    file: 'public/models/hand_landmarker.task'
+  },
+  {
+    url: 'https://cdn.tailwindcss.com/3.4.16',
+    file: 'public/vendor/tailwindcss.js'
+  }
+];
+
+const exists = (file) => access(file).then(() => true, () => false);
+
+for (const { url, file } of ASSETS) {
+  const target = path.join(root, file);
+  if (await exists(target) && !process.argv.includes('--force')) {
+    console.log(`✓ ${file} (already present)`);
+    continue;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    console.error(`✗ ${file}: ${url} answered ${response.status}`);
+    process.exitCode = 1;
+    continue;
+  }
+
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`✓ ${file}`);
+}
@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import { Box, Image as ImageIcon, Type } from 'lucide-react';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ShapeDefinition } from './registry';
+import { loadImage, sampleImage, sampleObject, sampleText } from '../utils/sampling';
+
+// User-provided shape sources. Each kind has a fixed id, so loading a new text,
+// image or model replaces the previous one in the toolbar instead of piling up.
+export const TEXT_SHAPE_ID = 'Text';
+export const IMAGE_SHAPE_ID = 'Image';
+export const MODEL_SHAPE_ID = 'Model';
+
+export const MODEL_EXTENSIONS = ['.obj', '.gltf', '.glb', '.ply'];
+
+export const createTextShape = (text: string): ShapeDefinition => ({
+  id: TEXT_SHAPE_ID,
+  label: 'shape.text',
+  icon: Type,
+  params: [
+    { key: 'thickness', label: 'shape.text.thickness', min: 0, max: 2, step: 0.1, default: 0.4 }
+  ],
+  generate: (count, { thickness }) => sampleText(text, count, thickness)
+});
+
+export const createImageShape = async (file: File): Promise<ShapeDefinition> => {
+  const image = await loadImage(file);
+
+  return {
+    id: IMAGE_SHAPE_ID,
+    label: 'shape.image',
+    icon: ImageIcon,
+    params: [
+      { key: 'threshold', label: 'shape.image.threshold', min: 0, max: 0.9, step: 0.05, default: 0.2 },
+      { key: 'relief', label: 'shape.image.relief', min: 0, max: 3, step: 0.1, default: 1 }
+    ],
+    generate: (count, { threshold, relief }) => sampleImage(image, count, threshold, relief)
+  };
+};
+
+const loadModel = async (file: File): Promise<THREE.Object3D> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.obj')) {
+    return new OBJLoader().parse(await file.text());
+  }
+  if (name.endsWith('.gltf') || name.endsWith('.glb')) {
+    const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+    return gltf.scene;
+  }
+  if (name.endsWith('.ply')) {
+    const geometry = new PLYLoader().parse(await file.arrayBuffer());
+    // PLY files are often bare point clouds; only treat them as surfaces if they have faces
+    return geometry.index
+      ? new THREE.Mesh(geometry)
+      : new THREE.Points(geometry);
+  }
+  throw new Error(`Unsupported model format: ${file.name}`);
+};
+
+export const createModelShape = async (file: File): Promise<ShapeDefinition> => {
+  const model = await loadModel(file);
+  // An empty model fails here, where the upload error is shown, rather than when the shape is drawn
+  sampleObject(model, 1);
+
+  return {
+    id: MODEL_SHAPE_ID,
+    label: 'shape.model',
+    icon: Box,
+    generate: (count) => sampleObject(model, count)
+  };
+};
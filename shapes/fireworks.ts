@@ -0,0 +1,21 @@
+import * as THREE from 'three';
+import { PartyPopper } from 'lucide-react';
+import { ParticleShape } from '../types';
+import { fillShape, randomSpherePoint } from '../utils/geometry';
+import { MAX_SHELLS } from '../utils/fireworks';
+import { ShapeDefinition, ShapeEffect } from './registry';
+
+// The generated sphere is only the resting layout (physics targets, morph start);
+// the launch / burst / fall animation comes from the FIREWORKS effect.
+export const fireworks: ShapeDefinition = {
+  id: ParticleShape.FIREWORKS,
+  label: 'shape.fireworks',
+  icon: PartyPopper,
+  effect: ShapeEffect.FIREWORKS,
+  generate: (count) => fillShape(count, (i) => {
+    const p = randomSpherePoint(Math.random() * 4);
+    // One hue per shell, matching the round-robin shell assignment
+    const hue = (i % MAX_SHELLS) / MAX_SHELLS;
+    return { x: p.x, y: p.y, z: p.z, color: new THREE.Color().setHSL(hue, 1, 0.6) };
+  })
+};
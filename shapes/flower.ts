@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+import { Flower2 } from 'lucide-react';
+import { ParticleShape } from '../types';
+import { fillShape } from '../utils/geometry';
+import { ShapeDefinition } from './registry';
+
+const HEART = new THREE.Color('#ffe66d');
+const PETAL = new THREE.Color('#ff6fb5');
+
+export const flower: ShapeDefinition = {
+  id: ParticleShape.FLOWER,
+  label: 'shape.flower',
+  icon: Flower2,
+  params: [
+    { key: 'k', label: 'shape.flower.k', min: 1, max: 12, step: 1, default: 4 }
+  ],
+  generate: (count, { k }) => fillShape(count, () => {
+    // Rose curve: r = cos(k * theta)
+    const theta = Math.random() * Math.PI * 2;
+    const rad = Math.cos(k * theta) * 3 + 1; // Base radius variation
+
+    // Add depth variation
+    const phi = (Math.random() - 0.5) * Math.PI * 0.5;
+
+    return {
+      x: rad * Math.cos(theta) * Math.cos(phi),
+      y: rad * Math.sin(theta) * Math.cos(phi),
+      z: rad * Math.sin(phi),
+      // Yellow heart, pink petal tips
+      color: new THREE.Color().lerpColors(HEART, PETAL, Math.min(1, Math.abs(rad) / 3))
+    };
+  })
+};
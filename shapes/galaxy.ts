@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+import { Orbit } from 'lucide-react';
+import { ParticleShape } from '../types';
+import { fillShape } from '../utils/geometry';
+import { ShapeDefinition } from './registry';
+
+const CORE = new THREE.Color('#fff1c1');
+const ARMS = new THREE.Color('#7aa2ff');
+
+export const galaxy: ShapeDefinition = {
+  id: ParticleShape.GALAXY,
+  label: 'shape.galaxy',
+  icon: Orbit,
+  params: [
+    { key: 'turns', label: 'shape.galaxy.turns', min: 1, max: 6, step: 0.5, default: 3 },
+    { key: 'tightness', label: 'shape.galaxy.tightness', min: 0.1, max: 1.5, step: 0.1, default: 0.5 }
+  ],
+  generate: (count, { turns, tightness }) => fillShape(count, () => {
+    // Spiral
+    const angle = Math.random() * Math.PI * 2 * turns;
+    const radius = Math.random() * 5;
+
+    const x = (radius + tightness * angle) * Math.cos(angle);
+    const z = (radius + tightness * angle) * Math.sin(angle);
+    const y = (Math.random() - 0.5) * (10 - radius); // Thicker in center
+
+    // Warm core fading into blue arms
+    const color = new THREE.Color().lerpColors(CORE, ARMS, Math.min(1, radius / 4));
+
+    // Scale down to fit view
+    return { x: x * 0.3, y: y * 0.1, z: z * 0.3, color };
+  })
+};
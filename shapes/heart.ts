@@ -0,0 +1,34 @@
+import * as THREE from 'three';
+import { Heart } from 'lucide-react';
+import { ParticleShape } from '../types';
+import { fillShape } from '../utils/geometry';
+import { ShapeDefinition } from './registry';
+
+const EDGE = new THREE.Color('#ff4d6d');
+const CENTER = new THREE.Color('#ffc2d1');
+
+export const heart: ShapeDefinition = {
+  id: ParticleShape.HEART,
+  label: 'shape.heart',
+  icon: Heart,
+  generate: (count) => fillShape(count, () => {
+    // Parametric Heart
+    // x = 16sin^3(t)
+    // y = 13cos(t) - 5cos(2t) - 2cos(3t) - cos(4t)
+    // z = variation for depth
+    const t = Math.random() * Math.PI * 2;
+    const scale = 0.15;
+
+    let x = (16 * Math.pow(Math.sin(t), 3)) * scale + (Math.random() - 0.5);
+    let y = (13 * Math.cos(t) - 5 * Math.cos(2*t) - 2 * Math.cos(3*t) - Math.cos(4*t)) * scale + (Math.random() - 0.5);
+    let z = (Math.random() - 0.5) * 2;
+
+    // Fill inside slightly; the filling is paler than the outline
+    let s = 1;
+    if (Math.random() > 0.5) {
+      s = Math.random();
+      x *= s; y *= s; z *= s;
+    }
+    return { x, y, z, color: new THREE.Color().lerpColors(CENTER, EDGE, s) };
+  })
+};
@@ -0,0 +1,12 @@
+import { registerShape } from './registry';
+import { galaxy } from './galaxy';
+import { heart } from './heart';
+import { flower } from './flower';
+import { saturn } from './saturn';
+import { fireworks } from './fireworks';
+
+// Built-in shapes. To add one: create a ShapeDefinition file next to these and register it here.
+[galaxy, heart, flower, saturn, fireworks].forEach(registerShape);
+
+export * from './registry';
+export * from './custom';
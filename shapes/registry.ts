@@ -0,0 +1,54 @@
+import { LucideIcon } from 'lucide-react';
+import { ShapeId, ShapeParams, ShapeSample } from '../types';
+
+// A slider the UI shows for a shape; the value reaches the generator under `key`
+export interface ShapeParamSchema {
+  key: string;
+  label: string;  // message key (see i18n), or plain text
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+// Animated behaviour layered on top of the generated positions, evaluated in the vertex shader
+export enum ShapeEffect {
+  FIREWORKS = 'Fireworks'  // shells launch, burst, fall and fade; see utils/fireworks
+}
+
+export interface ShapeDefinition {
+  id: ShapeId;
+  label: string;  // message key (see i18n), or plain text for shapes registered without a catalog entry
+  icon: LucideIcon;
+  params?: ShapeParamSchema[];
+  // Returns `count` xyz triples, optionally with a colour per particle
+  generate: (count: number, params: ShapeParams) => Float32Array | ShapeSample;
+  effect?: ShapeEffect;
+}
+
+const shapes = new Map<ShapeId, ShapeDefinition>();
+
+// Shapes appear in the toolbar (and in swipe order) in registration order
+export const registerShape = (shape: ShapeDefinition) => {
+  if (shapes.has(shape.id)) {
+    console.warn(`Shape "${shape.id}" registered twice; keeping the latest`);
+  }
+  shapes.set(shape.id, shape);
+};
+
+// For shapes rebuilt from user input (text, image, model): swaps in the new version, keeping its place
+export const replaceShape = (shape: ShapeDefinition) => {
+  shapes.set(shape.id, shape);
+};
+
+export const getShape = (id: ShapeId): ShapeDefinition | undefined => shapes.get(id);
+
+export const listShapes = (): ShapeDefinition[] => Array.from(shapes.values());
+
+export const getDefaultParams = (id: ShapeId): ShapeParams => {
+  const params: ShapeParams = {};
+  getShape(id)?.params?.forEach((p) => {
+    params[p.key] = p.default;
+  });
+  return params;
+};
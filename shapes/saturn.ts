@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { Globe } from 'lucide-react';
+import { ParticleShape } from '../types';
+import { fillShape, randomSpherePoint } from '../utils/geometry';
+import { ShapeDefinition } from './registry';
+
+const PLANET_LIGHT = new THREE.Color('#f0d39a');
+const PLANET_DARK = new THREE.Color('#b07d48');
+const RING_INNER = new THREE.Color('#e8dcc0');
+const RING_OUTER = new THREE.Color('#7d6f58');
+
+export const saturn: ShapeDefinition = {
+  id: ParticleShape.SATURN,
+  label: 'shape.saturn',
+  icon: Globe,
+  params: [
+    { key: 'ringWidth', label: 'shape.saturn.ringWidth', min: 0.5, max: 4, step: 0.1, default: 2.5 }
+  ],
+  generate: (count, { ringWidth }) => fillShape(count, () => {
+    // Planet + Rings
+    if (Math.random() > 0.6) {
+      const p = randomSpherePoint(1.5);
+      // Latitude bands
+      const band = 0.5 + 0.5 * Math.sin(p.y * 6);
+      return { x: p.x, y: p.y, z: p.z, color: new THREE.Color().lerpColors(PLANET_DARK, PLANET_LIGHT, band) };
+    }
+
+    const ringT = Math.random();
+    const ringRad = 2.0 + ringT * ringWidth;
+    const theta = Math.random() * Math.PI * 2;
+    return {
+      x: ringRad * Math.cos(theta),
+      y: (Math.random() - 0.5) * 0.1, // Flat ring
+      z: ringRad * Math.sin(theta),
+      color: new THREE.Color().lerpColors(RING_INNER, RING_OUTER, ringT)
+    };
+  })
+};
@@ -1,3 +1,4 @@
+// Ids of the built-in shapes; more can be added through the shape registry (see shapes/)
 export enum ParticleShape {
   GALAXY = 'Galaxy',
   HEART = 'Heart',
@@ -6,9 +7,128 @@ export enum ParticleShape {
   FIREWORKS = 'Fireworks'
 }
 
-export const PARTICLE_COUNT = 4000;
+export type ShapeId = string;
+
+// Generator parameters for one shape, keyed by ShapeParamSchema.key
+export type ShapeParams = Record<string, number>;
+
+// Generated particle targets; `colors` (linear rgb per particle) when the source has its own
+export interface ShapeSample {
+  positions: Float32Array;
+  colors?: Float32Array;
+}
+
+export const DEFAULT_PARTICLE_COUNT = 4000;
+
+// Selectable in the UI; the per-particle work runs in the vertex shader, so large counts are cheap
+export const PARTICLE_COUNT_OPTIONS = [4000, 20000, 50000, 100000, 200000];
+
+export const COLOR_PRESETS = ['#ffffff', '#ff6b6b', '#4ecdc4', '#ffe66d', '#ff9ff3', '#a29bfe'];
 
 export interface AppState {
-  shape: ParticleShape;
+  shape: ShapeId;
   color: string;
-}
\ No newline at end of file
+}
+
+// Parameters beyond the transform that a gesture mapping can drive (see utils/mapping.ts);
+// unset ones keep their neutral value
+export interface InteractionParams {
+  hue?: number;           // colour cycling offset, in hue turns / palette lengths
+  morph?: number;         // 0..1, how far the current shape morph may go
+  turbulence?: number;    // curl-noise strength in physics mode, replacing the setting
+  particleSize?: number;  // point size multiplier
+}
+
+export interface InteractionData {
+  scale: number;
+  position: { x: number; y: number };
+  rotation: { x: number; y: number; z: number };
+  params?: InteractionParams;
+  timestamp?: number;  // capture time (performance.now ms) of the detection it came from, for interpolation
+}
+
+export const createDefaultInteraction = (): InteractionData => ({
+  scale: 1.0,
+  position: { x: 0, y: 0 },
+  rotation: { x: 0, y: 0, z: 0 }
+});
+
+export enum InputMode {
+  HANDS = 'Hands',
+  POINTER = 'Pointer',
+  KEYBOARD = 'Keyboard',
+  SCRIPTED = 'Scripted',
+  REPLAY = 'Replay'
+}
+
+// 'searching': running, but nothing to follow yet (e.g. camera on, no hand in view)
+export type InputStatus = 'initializing' | 'searching' | 'active' | 'paused' | 'error';
+
+// Why a source reported 'error', so the UI can tell the user what to do about it
+export type InputError =
+  | 'camera-denied'
+  | 'camera-not-found'
+  | 'camera-in-use'
+  | 'camera-unsupported'
+  | 'camera-disconnected'
+  | 'tracker-failed'
+  | 'empty-session';
+
+export interface InputSourceCallbacks {
+  onInteraction: (data: InteractionData) => void;
+  onStatus: (status: InputStatus, error?: InputError) => void;
+  // Hand landmarks as the hand filter passes them on, for sources that have them (live tracking, replay)
+  onFrame?: (frame: HandFrame) => void;
+  // Detector output before any filtering (live tracking only), for recording sessions
+  onRawFrame?: (frame: HandFrame) => void;
+}
+
+// Anything that can drive the particle cloud: webcam hands, mouse, keyboard, scripts...
+export interface InputSource {
+  start: (callbacks: InputSourceCallbacks) => void;
+  stop: () => void;
+}
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One detected hand: 21 normalized landmarks (MediaPipe ordering) plus handedness
+export interface TrackedHand {
+  handedness: 'Left' | 'Right';
+  score: number;
+  landmarks: Landmark[];
+  id?: number;  // stable while the hand stays tracked, assigned by the hand filter
+}
+
+export interface HandFrame {
+  timestamp: number; // ms
+  hands: TrackedHand[];
+  latency?: number;  // ms spent detecting this frame; live tracking only, not recorded
+}
+
+// A point force acting on the particles; negative strength repels
+export interface Attractor {
+  position: { x: number; y: number; z: number };
+  strength: number;
+}
+
+export enum Gesture {
+  OPEN_PALM = 'OpenPalm',
+  FIST = 'Fist',
+  POINT = 'Point',
+  PEACE = 'Peace',
+  THUMBS_UP = 'ThumbsUp',
+  SWIPE_LEFT = 'SwipeLeft',
+  SWIPE_RIGHT = 'SwipeRight',
+  BURST = 'Burst'           // a quick fist -> open palm
+}
+
+export interface GestureEvent {
+  type: Gesture;
+  hand: TrackedHand['handedness'];
+  timestamp: number;              // ms, same clock as HandFrame.timestamp
+  position: { x: number; y: number }; // wrist, normalized and mirrored like the preview
+}
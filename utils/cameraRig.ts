@@ -0,0 +1,187 @@
+import * as THREE from 'three';
+import { InteractionData } from '../types';
+import { Easing, ease } from './timeline';
+import { readStorage, writeStorage } from './storage';
+
+// Camera modes. In CLOUD and ORBIT the user drags the camera (OrbitControls) and
+// gestures transform the particle cloud; in GESTURE the same gestures move the
+// camera around a cloud that stays put; TOUR flies the camera by itself. Every
+// change of mode or jump to a saved viewpoint is an animated transition.
+
+export enum CameraMode {
+  CLOUD = 'Cloud',      // the original setup: gestures move the cloud, dragging turns the camera, no zoom
+  ORBIT = 'Orbit',      // free orbit with zoom and pan; gestures still move the cloud
+  GESTURE = 'Gesture',  // gestures orbit and dolly the camera instead of transforming the particles
+  TOUR = 'Tour'         // slow automatic camera path
+}
+
+export enum TourPath {
+  ORBIT = 'Orbit',            // drifting orbit around the cloud
+  VIEWPOINTS = 'Viewpoints'   // from one saved viewpoint to the next
+}
+
+export interface ViewSettings {
+  mode: CameraMode;
+  tourPath: TourPath;
+  tourSpeed: number;  // 1 = one orbit in about a minute
+}
+
+export const DEFAULT_VIEW: ViewSettings = {
+  mode: CameraMode.CLOUD,
+  tourPath: TourPath.ORBIT,
+  tourSpeed: 1
+};
+
+export const TOUR_SPEED_RANGE = { min: 0.25, max: 3 };
+
+// Where the camera looks from and at, and how far it is turned around its view axis
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  roll: number;
+}
+
+export const HOME_DISTANCE = 10;
+export const ORBIT_DISTANCE_RANGE = { min: 2, max: 40 };
+// Seconds a mode change or a jump to a viewpoint takes
+export const TRANSITION_DURATION = 1.5;
+
+export const createPose = (): CameraPose => ({ position: new THREE.Vector3(), target: new THREE.Vector3(), roll: 0 });
+
+export const copyPose = (from: CameraPose, out: CameraPose) => {
+  out.position.copy(from.position);
+  out.target.copy(from.target);
+  out.roll = from.roll;
+  return out;
+};
+
+export const homePose = (out: CameraPose) => {
+  out.position.set(0, 0, HOME_DISTANCE);
+  out.target.set(0, 0, 0);
+  out.roll = 0;
+  return out;
+};
+
+const offsetA = new THREE.Vector3();
+const offsetB = new THREE.Vector3();
+const sphericalA = new THREE.Spherical();
+const sphericalB = new THREE.Spherical();
+
+// Blends around the (moving) target in spherical coordinates, so the camera swings
+// around the cloud instead of cutting through it. `out` may be `a` or `b`.
+export const blendPoses = (a: CameraPose, b: CameraPose, t: number, out: CameraPose) => {
+  sphericalA.setFromVector3(offsetA.subVectors(a.position, a.target));
+  sphericalB.setFromVector3(offsetB.subVectors(b.position, b.target));
+  // Shortest way round
+  let turn = sphericalB.theta - sphericalA.theta;
+  turn -= Math.round(turn / (2 * Math.PI)) * 2 * Math.PI;
+  sphericalA.set(
+    THREE.MathUtils.lerp(sphericalA.radius, sphericalB.radius, t),
+    THREE.MathUtils.lerp(sphericalA.phi, sphericalB.phi, t),
+    sphericalA.theta + turn * t
+  );
+  out.roll = THREE.MathUtils.lerp(a.roll, b.roll, t);
+  out.target.lerpVectors(a.target, b.target, t);
+  out.position.setFromSpherical(sphericalA).add(out.target);
+  return out;
+};
+
+const spherical = new THREE.Spherical();
+
+// The camera move that shows what the same interaction shows in CLOUD mode: turning
+// the cloud one way is orbiting the other way, scaling it up is moving closer.
+// Orbiting is amplified so a comfortable hand movement reaches the back of the cloud.
+const GESTURE_ORBIT_GAIN = 2;
+const MAX_ELEVATION = 1.3;
+
+export const gesturePose = (interaction: Pick<InteractionData, 'scale' | 'position' | 'rotation'>, out: CameraPose) => {
+  const elevation = THREE.MathUtils.clamp(interaction.rotation.x * GESTURE_ORBIT_GAIN, -MAX_ELEVATION, MAX_ELEVATION);
+  const distance = THREE.MathUtils.clamp(HOME_DISTANCE / Math.max(interaction.scale, 1e-3), ORBIT_DISTANCE_RANGE.min, ORBIT_DISTANCE_RANGE.max);
+  out.target.set(-interaction.position.x, -interaction.position.y, 0);
+  spherical.set(distance, Math.PI / 2 - elevation, -interaction.rotation.y * GESTURE_ORBIT_GAIN);
+  out.position.setFromSpherical(spherical).add(out.target);
+  out.roll = -interaction.rotation.z;
+  return out;
+};
+
+// Incommensurate periods, so the path does not visibly repeat
+export const orbitTourPose = (time: number, out: CameraPose) => {
+  const azimuth = time * 0.1;
+  const elevation = 0.4 * Math.sin(time * 0.047);
+  const distance = HOME_DISTANCE * (1 + 0.3 * Math.sin(time * 0.031));
+  out.target.set(0.5 * Math.sin(time * 0.023), 0.3 * Math.sin(time * 0.037), 0);
+  spherical.set(distance, Math.PI / 2 - elevation, azimuth);
+  out.position.setFromSpherical(spherical).add(out.target);
+  out.roll = 0.05 * Math.sin(time * 0.029);
+  return out;
+};
+
+// --- Saved viewpoints ---
+
+export type Vector3Tuple = [number, number, number];
+
+export interface Viewpoint {
+  id: string;
+  name: string;
+  position: Vector3Tuple;
+  target: Vector3Tuple;
+}
+
+export const createViewpoint = (name: string, pose: CameraPose): Viewpoint => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  position: pose.position.toArray(),
+  target: pose.target.toArray()
+});
+
+export const viewpointPose = (viewpoint: Viewpoint, out: CameraPose) => {
+  out.position.fromArray(viewpoint.position);
+  out.target.fromArray(viewpoint.target);
+  out.roll = 0;
+  return out;
+};
+
+// The viewpoint tour holds each viewpoint, then travels to the next one
+const TOUR_HOLD = 5;
+const TOUR_TRAVEL = 3;
+const from = createPose();
+const to = createPose();
+
+export const viewpointTourPose = (viewpoints: Viewpoint[], time: number, out: CameraPose) => {
+  const segment = TOUR_HOLD + TOUR_TRAVEL;
+  const count = viewpoints.length;
+  const index = Math.floor(time / segment) % count;
+  const local = time % segment;
+  viewpointPose(viewpoints[index], to);
+  if (local >= TOUR_TRAVEL) return copyPose(to, out);
+  viewpointPose(viewpoints[(index - 1 + count) % count], from);
+  return blendPoses(from, to, ease(Easing.EASE_IN_OUT, local / TOUR_TRAVEL), out);
+};
+
+// A viewpoint tour needs somewhere to go
+export const resolveTourPath = (path: TourPath, viewpoints: Viewpoint[]) =>
+  path === TourPath.VIEWPOINTS && viewpoints.length >= 2 ? TourPath.VIEWPOINTS : TourPath.ORBIT;
+
+// Viewpoints belong to the device (an installation's screen and room), not to a scene
+const VIEWPOINTS_KEY = 'gesture-particles/viewpoints';
+
+const isTuple = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+const isViewpoint = (value: unknown): value is Viewpoint => {
+  const v = value as Partial<Viewpoint> | null;
+  return typeof v?.id === 'string' && typeof v.name === 'string' && isTuple(v.position) && isTuple(v.target);
+};
+
+export const loadViewpoints = (): Viewpoint[] => {
+  const stored = readStorage(VIEWPOINTS_KEY);
+  return Array.isArray(stored) ? stored.filter(isViewpoint) : [];
+};
+
+export const storeViewpoints = (viewpoints: Viewpoint[]) => writeStorage(VIEWPOINTS_KEY, viewpoints);
+
+// Lets UI outside the Canvas read and move the camera
+export interface CameraRigHandle {
+  getPose: () => CameraPose;
+  goTo: (pose: CameraPose) => void;
+}
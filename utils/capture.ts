@@ -0,0 +1,233 @@
+import * as THREE from 'three';
+import { RootState, addAfterEffect } from '@react-three/fiber';
+
+export interface CaptureSize {
+  label: string;  // message key, or plain text for resolution names
+  width: number;   // 0 = current canvas size
+  height: number;
+}
+
+export const SCREENSHOT_SIZES: CaptureSize[] = [
+  { label: 'capture.currentSize', width: 0, height: 0 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 }
+];
+
+export const RECORDING_FPS_OPTIONS = [30, 60];
+export const OFFLINE_DURATION_OPTIONS = [5, 10, 20];
+
+export interface RecordingOptions {
+  fps: number;
+  webcam: HTMLVideoElement | null;  // composited into the bottom-right corner when given
+}
+
+export interface OfflineRenderOptions extends RecordingOptions {
+  duration: number;  // seconds of output
+}
+
+export interface CanvasCapture {
+  screenshot: (size: CaptureSize, webcam: HTMLVideoElement | null) => Promise<Blob>;
+  startRecording: (options: RecordingOptions) => void;
+  // Ends a live recording or an offline render early; resolves with the video so far
+  stopRecording: () => Promise<Blob>;
+  // Steps the scene with a fixed timestep, so every frame is rendered whatever the machine can keep up with
+  renderOffline: (options: OfflineRenderOptions, onProgress: (progress: number) => void) => Promise<Blob>;
+  isRecording: () => boolean;
+}
+
+// Draws one frame the way the live loop does, e.g. through post-processing passes
+export type FrameRenderer = () => void;
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const pickMimeType = () =>
+  MIME_TYPES.find((type) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+
+export const isRecordingSupported = () => pickMimeType() !== undefined;
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// toBlob snapshots the canvas synchronously, so the caller may change it right after this returns
+const canvasToBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), 'image/png');
+});
+
+// Draws the WebGL canvas plus a mirrored webcam inset, like the on-screen preview
+const createCompositor = (source: HTMLCanvasElement, webcam: HTMLVideoElement) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  return {
+    canvas,
+    draw: () => {
+      if (!ctx) return;
+      if (canvas.width !== source.width || canvas.height !== source.height) {
+        canvas.width = source.width;
+        canvas.height = source.height;
+      }
+      ctx.drawImage(source, 0, 0);
+
+      if (webcam.readyState < 2 || webcam.videoWidth === 0) return;
+      const width = canvas.width * 0.2;
+      const height = width * (webcam.videoHeight / webcam.videoWidth);
+      const margin = canvas.width * 0.015;
+      ctx.save();
+      ctx.translate(canvas.width - margin, canvas.height - margin - height);
+      ctx.scale(-1, 1);
+      ctx.globalAlpha = 0.9;
+      ctx.drawImage(webcam, 0, 0, width, height);
+      ctx.restore();
+    }
+  };
+};
+
+// Capture tools over an r3f root. Frames are read in the same task that rendered
+// them (screenshots render explicitly, the webcam composite runs as an after effect),
+// so the Canvas does not have to keep its drawing buffer between frames.
+// Without a renderer in `rendererRef`, screenshots render the scene directly.
+export const createCanvasCapture = (
+  getState: () => RootState,
+  rendererRef?: { current: FrameRenderer | null }
+): CanvasCapture => {
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+  let finished: Promise<Blob> | null = null;
+  let cleanup: (() => void) | null = null;
+  let cancelOffline = false;
+
+  const record = (canvas: HTMLCanvasElement, fps: number) => {
+    const mimeType = pickMimeType();
+    if (!mimeType) throw new Error('MediaRecorder does not support WebM in this browser');
+
+    const stream = canvas.captureStream(fps);
+    recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 12_000_000 });
+    chunks = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    finished = new Promise((resolve) => {
+      recorder!.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+    });
+    recorder.start();
+    return stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  };
+
+  const renderFrame = () => {
+    if (rendererRef?.current) {
+      rendererRef.current();
+      return;
+    }
+    const { gl, scene, camera } = getState();
+    gl.render(scene, camera);
+  };
+
+  const stopRecording = async () => {
+    cancelOffline = true;
+    if (!recorder || !finished) throw new Error('Not recording');
+    const done = finished;
+    if (recorder.state !== 'inactive') recorder.stop();
+    recorder = null;
+    finished = null;
+    cleanup?.();
+    cleanup = null;
+    return done;
+  };
+
+  return {
+    screenshot: (size, webcam) => {
+      const { gl, camera, size: viewSize } = getState();
+      const perspective = camera as THREE.PerspectiveCamera;
+      const pixelRatio = gl.getPixelRatio();
+      const aspect = perspective.aspect;
+
+      // Render once at the requested size (CSS size untouched), then put everything back
+      if (size.width > 0 && size.height > 0) {
+        gl.setPixelRatio(1);
+        gl.setSize(size.width, size.height, false);
+        perspective.aspect = size.width / size.height;
+        perspective.updateProjectionMatrix();
+      }
+      renderFrame();
+
+      let blob: Promise<Blob>;
+      if (webcam) {
+        const compositor = createCompositor(gl.domElement, webcam);
+        compositor.draw();
+        blob = canvasToBlob(compositor.canvas);
+      } else {
+        blob = canvasToBlob(gl.domElement);
+      }
+
+      gl.setPixelRatio(pixelRatio);
+      gl.setSize(viewSize.width, viewSize.height, false);
+      perspective.aspect = aspect;
+      perspective.updateProjectionMatrix();
+      return blob;
+    },
+
+    startRecording: ({ fps, webcam }) => {
+      if (recorder) throw new Error('Already recording');
+      const { gl } = getState();
+
+      if (webcam) {
+        // Redraw the composite right after every rendered frame
+        const compositor = createCompositor(gl.domElement, webcam);
+        compositor.draw();
+        cleanup = addAfterEffect(compositor.draw);
+        record(compositor.canvas, fps);
+      } else {
+        record(gl.domElement, fps);
+      }
+    },
+
+    stopRecording,
+
+    renderOffline: async ({ fps, duration, webcam }, onProgress) => {
+      if (recorder) throw new Error('Already recording');
+      const state = getState();
+      const compositor = webcam ? createCompositor(state.gl.domElement, webcam) : null;
+      // captureStream(0) only emits a frame on requestFrame()
+      const track = record(compositor?.canvas ?? state.gl.domElement, 0);
+      const active = recorder!;
+      const done = finished!;
+      const frames = Math.round(duration * fps);
+      const startTime = state.clock.elapsedTime;
+
+      // The recorder only runs for one frame interval per frame, so the file's timing
+      // is exact even when a frame takes much longer than that to render
+      active.pause();
+      state.setFrameloop('never');
+      cancelOffline = false;
+
+      try {
+        for (let i = 1; i <= frames && !cancelOffline; i++) {
+          getState().advance(startTime + i / fps);
+          compositor?.draw();
+          active.resume();
+          track.requestFrame();
+          await wait(1000 / fps);
+          if (active.state === 'recording') active.pause();
+          onProgress(i / frames);
+        }
+      } finally {
+        // Resume the live loop from where the offline clock stopped
+        const { clock, setFrameloop } = getState();
+        clock.oldTime = performance.now();
+        setFrameloop('always');
+      }
+
+      if (active.state !== 'inactive') {
+        active.stop();
+        recorder = null;
+        finished = null;
+      }
+      return done;
+    },
+
+    isRecording: () => recorder !== null
+  };
+};
@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+
+// How each particle gets its colour
+export enum ColorMode {
+  SOLID = 'Solid',        // one colour for the whole cloud
+  SHAPE = 'Shape',        // colours defined by the shape / source, solid colour where it has none
+  RADIUS = 'Radius',      // palette by distance from the center
+  HEIGHT = 'Height',      // palette by y
+  VELOCITY = 'Velocity'   // palette by speed
+}
+
+export const PALETTE_SIZE = 5;
+
+export interface Palette {
+  id: string;
+  label: string;  // message key
+  stops: string[];  // PALETTE_SIZE sRGB hex colours, low to high
+}
+
+export const PALETTES: Palette[] = [
+  { id: 'aurora', label: 'palette.aurora', stops: ['#0b3d91', '#1e90ff', '#4ecdc4', '#a8ff78', '#f9f871'] },
+  { id: 'sunset', label: 'palette.sunset', stops: ['#2d0b59', '#8e2de2', '#ff6b6b', '#ff9f43', '#ffe66d'] },
+  { id: 'ocean', label: 'palette.ocean', stops: ['#03045e', '#0077b6', '#00b4d8', '#90e0ef', '#caf0f8'] },
+  { id: 'fire', label: 'palette.fire', stops: ['#3a0000', '#9d0208', '#e85d04', '#faa307', '#fff3b0'] },
+  { id: 'candy', label: 'palette.candy', stops: ['#ff9ff3', '#feca57', '#ff6b6b', '#48dbfb', '#a29bfe'] }
+];
+
+export interface ColorStyle {
+  mode: ColorMode;
+  paletteId: string;
+  cycleSpeed: number;  // 0 = static; otherwise palette / hue turns per ~10 seconds
+}
+
+export const DEFAULT_COLOR_STYLE: ColorStyle = {
+  mode: ColorMode.SOLID,
+  paletteId: PALETTES[0].id,
+  cycleSpeed: 0
+};
+
+export const CYCLE_SPEED_RANGE = { min: 0, max: 5 };
+
+// Shader-side index of each mode, see particleShader
+export const COLOR_MODE_INDEX: Record<ColorMode, number> = {
+  [ColorMode.SOLID]: 0,
+  [ColorMode.SHAPE]: 1,
+  [ColorMode.RADIUS]: 2,
+  [ColorMode.HEIGHT]: 3,
+  [ColorMode.VELOCITY]: 4
+};
+
+export const getPalette = (id: string): Palette => PALETTES.find((p) => p.id === id) ?? PALETTES[0];
+
+// Palette stops as linear-space colours, ready for a uniform array
+export const paletteToLinear = (palette: Palette, out: THREE.Color[]) => {
+  palette.stops.forEach((hex, i) => out[i].set(hex));
+  return out;
+};
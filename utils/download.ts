@@ -0,0 +1,13 @@
+// Saves a blob through a temporary link, as a regular browser download
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// `prefix-2024-05-01T12-00-00-000Z.ext`, safe on every file system
+export const timestampedName = (prefix: string, extension: string, date = new Date()) =>
+  `${prefix}-${date.toISOString().replace(/[:.]/g, '-')}.${extension}`;
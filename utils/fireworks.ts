@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+
+// Particles are dealt round-robin into this many shells (see aShell)
+export const MAX_SHELLS = 8;
+
+// Longest per-particle lifetime after a burst, seconds; a shell is free again after this
+const MAX_LIFETIME = 2.6;
+const MIN_LIFETIME = 1.6;
+
+export interface FireworksController {
+  shells: THREE.Vector4[];   // xyz = burst point, w = shell start time
+  origins: THREE.Vector4[];  // xyz = launch point, w = launch duration (0 = bursts immediately)
+  update: (time: number) => void;
+  burstAt: (position: { x: number; y: number; z: number }, time: number) => void;
+}
+
+// Per-particle lifecycle constants: xyz = burst velocity, w = lifetime
+export const createFireworkAttributes = (count: number) => {
+  const burst = new Float32Array(count * 4);
+  const shell = new Float32Array(count);
+  const dir = new THREE.Vector3();
+
+  for (let i = 0; i < count; i++) {
+    dir.randomDirection().multiplyScalar(1.5 + Math.random());
+    burst[i * 4] = dir.x;
+    burst[i * 4 + 1] = dir.y;
+    burst[i * 4 + 2] = dir.z;
+    burst[i * 4 + 3] = MIN_LIFETIME + Math.random() * (MAX_LIFETIME - MIN_LIFETIME);
+    shell[i] = i % MAX_SHELLS;
+  }
+  return { burst, shell };
+};
+
+// CPU side of the FIREWORKS effect: only decides when and where each shell launches.
+// Positions along the launch / burst / fall / fade lifecycle are evaluated in the vertex shader.
+export const createFireworksController = (): FireworksController => {
+  const shells = Array.from({ length: MAX_SHELLS }, () => new THREE.Vector4(0, 0, 0, -1e6));
+  const origins = Array.from({ length: MAX_SHELLS }, () => new THREE.Vector4());
+  const nextLaunch = new Float32Array(MAX_SHELLS).fill(-1);
+
+  const launch = (i: number, time: number) => {
+    origins[i].set((Math.random() - 0.5) * 4, -4, (Math.random() - 0.5) * 2, 0.9 + Math.random() * 0.4);
+    shells[i].set((Math.random() - 0.5) * 6, 1 + Math.random() * 2, (Math.random() - 0.5) * 2, time);
+  };
+
+  return {
+    shells,
+    origins,
+    update: (time) => {
+      for (let i = 0; i < MAX_SHELLS; i++) {
+        // First update staggers the shells so they do not all go off together
+        if (nextLaunch[i] < 0) nextLaunch[i] = time + i * 0.6;
+
+        if (time >= nextLaunch[i]) {
+          launch(i, time);
+          nextLaunch[i] = time + origins[i].w + MAX_LIFETIME + Math.random() * 1.5;
+        }
+      }
+    },
+    burstAt: (position, time) => {
+      // Reuse the shell that started longest ago
+      let oldest = 0;
+      for (let i = 1; i < MAX_SHELLS; i++) {
+        if (shells[i].w < shells[oldest].w) oldest = i;
+      }
+      origins[oldest].set(position.x, position.y, position.z, 0);
+      shells[oldest].set(position.x, position.y, position.z, time);
+      nextLaunch[oldest] = time + MAX_LIFETIME + 0.5;
+    }
+  };
+};
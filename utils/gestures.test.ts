@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Gesture, GestureEvent } from '../types';
+import { FIST, HORNS, OPEN_PALM, PEACE, POINT, THUMBS_UP, HandShape, createFrame, createHand } from '../fixtures/hands';
+import { classifyPose, createGestureRecognizer } from './gestures';
+
+// ~30 Hz detection
+const FRAME_MS = 33;
+
+// Feeds one hand through the recognizer, one shape per frame, and collects every event
+const run = (shapes: { shape: HandShape; x?: number }[], start = 0) => {
+  const recognizer = createGestureRecognizer();
+  const events: GestureEvent[] = [];
+  shapes.forEach(({ shape, x }, i) => {
+    events.push(...recognizer.update(createFrame(start + i * FRAME_MS, createHand(shape, { x }))));
+  });
+  return events;
+};
+
+const hold = (shape: HandShape, frames: number, x?: number) => Array.from({ length: frames }, () => ({ shape, x }));
+
+describe('classifyPose', () => {
+  it.each([
+    ['open palm', OPEN_PALM, Gesture.OPEN_PALM],
+    ['fist', FIST, Gesture.FIST],
+    ['point', POINT, Gesture.POINT],
+    ['peace', PEACE, Gesture.PEACE],
+    ['thumbs up', THUMBS_UP, Gesture.THUMBS_UP]
+  ])('recognizes %s', (_, shape, expected) => {
+    expect(classifyPose(createHand(shape))).toBe(expected);
+  });
+
+  it('returns null for an ambiguous hand', () => {
+    expect(classifyPose(createHand(HORNS))).toBeNull();
+  });
+
+  it('does not depend on where the hand is', () => {
+    expect(classifyPose(createHand(PEACE, { x: 0.15, y: 0.9 }))).toBe(Gesture.PEACE);
+    expect(classifyPose(createHand(FIST, { x: 0.85, y: 0.35 }))).toBe(Gesture.FIST);
+  });
+});
+
+describe('createGestureRecognizer', () => {
+  it('emits a pose only once it has been held', () => {
+    const events = run(hold(OPEN_PALM, 4));
+    // Frames at 0, 33, 66, 99 ms: still under the 150 ms hold
+    expect(events).toEqual([]);
+
+    const held = run(hold(OPEN_PALM, 8));
+    expect(held.map((e) => e.type)).toEqual([Gesture.OPEN_PALM]);
+    expect(held[0].timestamp).toBe(5 * FRAME_MS);
+    expect(held[0].hand).toBe('Right');
+  });
+
+  it('ignores a single misclassified frame', () => {
+    const events = run([...hold(OPEN_PALM, 8), { shape: FIST }, ...hold(OPEN_PALM, 8)]);
+    expect(events.map((e) => e.type)).toEqual([Gesture.OPEN_PALM]);
+  });
+
+  it('emits a new pose after a change is held', () => {
+    const events = run([...hold(OPEN_PALM, 8), ...hold(POINT, 8)]);
+    expect(events.map((e) => e.type)).toEqual([Gesture.OPEN_PALM, Gesture.POINT]);
+  });
+
+  it('fires a burst when a held fist opens straight into a palm', () => {
+    const events = run([...hold(FIST, 8), ...hold(OPEN_PALM, 8)]);
+    expect(events.map((e) => e.type)).toEqual([Gesture.FIST, Gesture.OPEN_PALM, Gesture.BURST]);
+  });
+
+  it('does not fire a burst when the hand opens slowly', () => {
+    const events = run([...hold(FIST, 8), ...hold(HORNS, 12), ...hold(OPEN_PALM, 8)]);
+    expect(events.map((e) => e.type)).toEqual([Gesture.FIST, Gesture.OPEN_PALM]);
+  });
+
+  it('detects swipes in mirrored screen direction', () => {
+    // The wrist moves left in the image, which is right in the mirrored preview
+    const right = run([0.8, 0.7, 0.6, 0.5, 0.4].map((x) => ({ shape: HORNS, x })));
+    expect(right.map((e) => e.type)).toEqual([Gesture.SWIPE_RIGHT]);
+
+    const left = run([0.3, 0.4, 0.5, 0.6, 0.7].map((x) => ({ shape: HORNS, x })));
+    expect(left.map((e) => e.type)).toEqual([Gesture.SWIPE_LEFT]);
+  });
+
+  it('does not count slow drift as a swipe', () => {
+    // 0.4 of travel, but over more than a second
+    const events = run(Array.from({ length: 40 }, (_, i) => ({ shape: HORNS, x: 0.8 - i * 0.01 })));
+    expect(events).toEqual([]);
+  });
+
+  it('waits out the cooldown before the next swipe', () => {
+    const back = [0.8, 0.7, 0.6, 0.5, 0.4, 0.5, 0.6, 0.7, 0.8].map((x) => ({ shape: HORNS, x }));
+    expect(run(back).map((e) => e.type)).toEqual([Gesture.SWIPE_RIGHT]);
+  });
+
+  it('tracks hands separately by handedness', () => {
+    const recognizer = createGestureRecognizer();
+    const events: GestureEvent[] = [];
+    for (let i = 0; i < 8; i++) {
+      const frame = createFrame(
+        i * FRAME_MS,
+        createHand(FIST, { x: 0.3, handedness: 'Left' }),
+        createHand(OPEN_PALM, { x: 0.7, handedness: 'Right' })
+      );
+      events.push(...recognizer.update(frame));
+    }
+    expect(events.map((e) => [e.hand, e.type])).toEqual([['Left', Gesture.FIST], ['Right', Gesture.OPEN_PALM]]);
+  });
+
+  it('starts over when time goes backwards', () => {
+    const recognizer = createGestureRecognizer();
+    const swipe = (start: number) => [0.8, 0.7, 0.6, 0.5].flatMap((x, i) =>
+      recognizer.update(createFrame(start + i * FRAME_MS, createHand(HORNS, { x }))).map((e) => e.type));
+    expect(swipe(1000)).toEqual([Gesture.SWIPE_RIGHT]);
+    // A looped replay: the swipe cooldown from the first pass must not carry over
+    expect(swipe(0)).toEqual([Gesture.SWIPE_RIGHT]);
+  });
+});
@@ -0,0 +1,242 @@
+import { Attractor, Gesture, GestureEvent, HandFrame, Landmark, TrackedHand } from '../types';
+
+// MediaPipe hand landmark indices
+export const WRIST = 0;
+export const THUMB_MCP = 2;
+export const THUMB_IP = 3;
+export const THUMB_TIP = 4;
+export const INDEX_MCP = 5;
+export const INDEX_TIP = 8;
+export const PINKY_MCP = 17;
+
+// [pip, tip] for index, middle, ring, pinky
+const FINGER_JOINTS: [number, number][] = [[6, 8], [10, 12], [14, 16], [18, 20]];
+
+// --- Default mapping ranges (see utils/mapping.ts) ---
+
+// Wrist-to-wrist distance (normalized image units) mapped onto scale
+export const TWO_HAND_DISTANCE = { min: 0.1, max: 0.8 };
+export const TWO_HAND_SCALE = { min: 0.5, max: 2.5 };
+
+// Thumb-to-index pinch distance mapped onto scale
+export const PINCH_DISTANCE = { min: 0.02, max: 0.2 };
+export const PINCH_SCALE = { min: 0.5, max: 2.0 };
+
+// Normalized image offset from center -> scene units (roughly the visible area at z=0)
+export const POSITION_RANGE = { x: 8, y: 6 };
+
+// Normalized offset from center -> tilt radians
+export const TWO_HAND_TILT = 2.0;
+export const ONE_HAND_TILT = 3.0;
+
+export const distance2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// --- Discrete gestures ---
+
+export interface FingerState {
+  thumb: boolean;
+  index: boolean;
+  middle: boolean;
+  ring: boolean;
+  pinky: boolean;
+}
+
+// A finger counts as extended when its tip is clearly further from the wrist than its PIP joint
+export const getFingerState = ({ landmarks }: TrackedHand): FingerState => {
+  const wrist = landmarks[WRIST];
+  const [index, middle, ring, pinky] = FINGER_JOINTS.map(
+    ([pip, tip]) => distance2D(landmarks[tip], wrist) > distance2D(landmarks[pip], wrist) * 1.15
+  );
+
+  // Thumb folds sideways, so compare against the pinky knuckle instead of the wrist
+  const pinkyBase = landmarks[PINKY_MCP];
+  const thumb = distance2D(landmarks[THUMB_TIP], pinkyBase) > distance2D(landmarks[THUMB_IP], pinkyBase) * 1.1;
+
+  return { thumb, index, middle, ring, pinky };
+};
+
+export const countExtendedFingers = (hand: TrackedHand) =>
+  Object.values(getFingerState(hand)).filter(Boolean).length;
+
+export type HandPose = Gesture.OPEN_PALM | Gesture.FIST | Gesture.POINT | Gesture.PEACE | Gesture.THUMBS_UP;
+
+// Classifies a single-frame hand shape; returns null for anything ambiguous
+export const classifyPose = (hand: TrackedHand): HandPose | null => {
+  const { thumb, index, middle, ring, pinky } = getFingerState(hand);
+  const { landmarks } = hand;
+
+  if (index && middle && ring && pinky) return Gesture.OPEN_PALM;
+
+  if (!index && !middle && !ring && !pinky) {
+    // Thumbs up: thumb out and its tip well above the knuckles (image y grows downwards)
+    const thumbUp = landmarks[THUMB_TIP].y < landmarks[THUMB_MCP].y - 0.05
+      && landmarks[THUMB_TIP].y < landmarks[INDEX_MCP].y;
+    if (thumb && thumbUp) return Gesture.THUMBS_UP;
+    return Gesture.FIST;
+  }
+
+  if (index && !middle && !ring && !pinky) return Gesture.POINT;
+  if (index && middle && !ring && !pinky) return Gesture.PEACE;
+
+  return null;
+};
+
+export interface GestureRecognizerOptions {
+  holdMs: number;           // a pose must be stable this long before it is emitted
+  swipeWindowMs: number;    // wrist travel is measured over this window
+  swipeDistance: number;    // normalized horizontal travel that counts as a swipe
+  swipeCooldownMs: number;  // ignore further swipes from the same hand for this long
+  burstWindowMs: number;    // max gap between the fist and the open palm for a burst
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureRecognizerOptions = {
+  holdMs: 150,
+  swipeWindowMs: 350,
+  swipeDistance: 0.25,
+  swipeCooldownMs: 700,
+  burstWindowMs: 300
+};
+
+interface HandTrack {
+  candidate: HandPose | null;
+  candidateSince: number;
+  pose: HandPose | null;
+  trail: { t: number; x: number }[];
+  lastSwipe: number;
+  lastFist: number;  // last frame the hand was classified as a fist
+}
+
+export interface GestureRecognizer {
+  update: (frame: HandFrame) => GestureEvent[];
+  reset: () => void;
+}
+
+// Stateful recognizer turning a stream of HandFrames into discrete gesture events.
+// Hands are tracked by handedness, so the order MediaPipe reports them in does not matter.
+export const createGestureRecognizer = (
+  options: Partial<GestureRecognizerOptions> = {}
+): GestureRecognizer => {
+  const opts = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  let tracks = new Map<TrackedHand['handedness'], HandTrack>();
+  let lastTimestamp = -Infinity;
+
+  const update = (frame: HandFrame): GestureEvent[] => {
+    const now = frame.timestamp;
+    // Time went backwards (e.g. a replay looped): start over
+    if (now < lastTimestamp) tracks = new Map();
+    lastTimestamp = now;
+
+    const events: GestureEvent[] = [];
+    const seen = new Set<TrackedHand['handedness']>();
+
+    for (const hand of frame.hands) {
+      if (seen.has(hand.handedness)) continue;
+      seen.add(hand.handedness);
+
+      let track = tracks.get(hand.handedness);
+      if (!track) {
+        track = { candidate: null, candidateSince: now, pose: null, trail: [], lastSwipe: -Infinity, lastFist: -Infinity };
+        tracks.set(hand.handedness, track);
+      }
+
+      const wrist = hand.landmarks[WRIST];
+      const position = { x: 1 - wrist.x, y: wrist.y }; // mirrored, as seen in the preview
+      const emit = (type: Gesture) => events.push({ type, hand: hand.handedness, timestamp: now, position });
+
+      // Poses: debounce so a single misclassified frame does not fire an event
+      const pose = classifyPose(hand);
+      if (pose !== track.candidate) {
+        track.candidate = pose;
+        track.candidateSince = now;
+      }
+      if (track.candidate !== track.pose && now - track.candidateSince >= opts.holdMs) {
+        const previous = track.pose;
+        track.pose = track.candidate;
+        if (track.pose) emit(track.pose);
+
+        // Burst: the palm opened straight out of a held fist
+        if (previous === Gesture.FIST && track.pose === Gesture.OPEN_PALM
+          && track.candidateSince - track.lastFist <= opts.burstWindowMs) {
+          emit(Gesture.BURST);
+        }
+      }
+      if (pose === Gesture.FIST) track.lastFist = now;
+
+      // Swipes: fast horizontal wrist travel within the window
+      track.trail.push({ t: now, x: position.x });
+      while (track.trail.length > 0 && now - track.trail[0].t > opts.swipeWindowMs) track.trail.shift();
+
+      const dx = position.x - track.trail[0].x;
+      if (Math.abs(dx) >= opts.swipeDistance && now - track.lastSwipe >= opts.swipeCooldownMs) {
+        track.lastSwipe = now;
+        track.trail = [{ t: now, x: position.x }];
+        emit(dx > 0 ? Gesture.SWIPE_RIGHT : Gesture.SWIPE_LEFT);
+      }
+    }
+
+    // Forget hands that left the frame so their next appearance starts clean
+    for (const handedness of Array.from(tracks.keys())) {
+      if (!seen.has(handedness)) tracks.delete(handedness);
+    }
+
+    return events;
+  };
+
+  return {
+    update,
+    reset: () => {
+      tracks = new Map();
+      lastTimestamp = -Infinity;
+    }
+  };
+};
+
+// --- Hand force fields (physics mode) ---
+
+const FINGERTIPS = [THUMB_TIP, INDEX_TIP, 12, 16, 20];
+const PALM = [WRIST, INDEX_MCP, 9, 13, PINKY_MCP];
+
+// Landmark z is depth relative to the wrist in roughly image-width units
+const DEPTH_RANGE = 5;
+
+// Same image -> scene mapping as the default position bindings, so forces line up with the cloud
+export const landmarkToScene = (l: Landmark) => ({
+  x: (0.5 - l.x) * POSITION_RANGE.x,
+  y: -(l.y - 0.5) * POSITION_RANGE.y,
+  z: -l.z * DEPTH_RANGE
+});
+
+// Scene position (z = 0) of a gesture event; event positions are already mirrored
+export const gestureToScene = (event: GestureEvent) => ({
+  x: (event.position.x - 0.5) * POSITION_RANGE.x,
+  y: -(event.position.y - 0.5) * POSITION_RANGE.y,
+  z: 0
+});
+
+// A fist gathers particles into the palm; any other pose scatters them from the
+// palm and every extended fingertip, like dragging fingers through water.
+export const attractorsFromHands = (hands: TrackedHand[]): Attractor[] => {
+  const attractors: Attractor[] = [];
+
+  for (const hand of hands) {
+    const { landmarks } = hand;
+    const palm = PALM.reduce(
+      (acc, i) => ({ x: acc.x + landmarks[i].x / PALM.length, y: acc.y + landmarks[i].y / PALM.length, z: acc.z + landmarks[i].z / PALM.length }),
+      { x: 0, y: 0, z: 0 }
+    );
+
+    if (classifyPose(hand) === Gesture.FIST) {
+      attractors.push({ position: landmarkToScene(palm), strength: 1.5 });
+      continue;
+    }
+
+    attractors.push({ position: landmarkToScene(palm), strength: -1 });
+    const fingers = getFingerState(hand);
+    const extended = [fingers.thumb, fingers.index, fingers.middle, fingers.ring, fingers.pinky];
+    FINGERTIPS.forEach((tip, i) => {
+      if (extended[i]) attractors.push({ position: landmarkToScene(landmarks[tip]), strength: -0.5 });
+    });
+  }
+
+  return attractors;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { TrackedHand } from '../types';
+import { OPEN_PALM, createFrame, createHand } from '../fixtures/hands';
+import { DEFAULT_FILTER, FilterSettings, SmoothingMode, createHandFilter } from './handFilter';
+
+const SETTINGS: FilterSettings = { ...DEFAULT_FILTER, smoothing: SmoothingMode.NONE, graceMs: 300 };
+
+const left = (x = 0.3) => createHand(OPEN_PALM, { x, handedness: 'Left' });
+const right = (x = 0.7, y = 0.7) => createHand(OPEN_PALM, { x, y, handedness: 'Right' });
+const labels = (hands: TrackedHand[]) => hands.map((hand) => [hand.handedness, hand.id]);
+
+// Deterministic detector jitter in [-amplitude, amplitude]
+const createNoise = (amplitude: number, seed = 1) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return amplitude * (2 * (seed / 2147483647) - 1);
+};
+
+const spread = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+// Wrist x of a still right hand at 30 Hz, as detected and as filtered
+const filterStillHand = (settings: FilterSettings) => {
+  const filter = createHandFilter(settings);
+  const noise = createNoise(0.005);
+  const raw: number[] = [];
+  const smoothed: number[] = [];
+  for (let i = 0; i < 90; i++) {
+    const hand = right(0.7 + noise(), 0.7 + noise());
+    const { frame } = filter.process(createFrame(i * 33, hand));
+    // Give the filter a second to settle
+    if (i < 30) continue;
+    raw.push(hand.landmarks[0].x);
+    smoothed.push(frame.hands[0].landmarks[0].x);
+  }
+  return { raw, smoothed };
+};
+
+// Wrist x of a right hand that jumps from 0.6 to 0.7, from the first frame after the jump
+const filterStep = (settings: FilterSettings) => {
+  const filter = createHandFilter(settings);
+  for (let i = 0; i < 30; i++) filter.process(createFrame(i * 33, right(0.6)));
+  const xs: number[] = [];
+  for (let i = 30; i < 60; i++) xs.push(filter.process(createFrame(i * 33, right(0.7))).frame.hands[0].landmarks[0].x);
+  return xs;
+};
+
+describe('createHandFilter', () => {
+  it('passes hands through unsmoothed, ordered Left, Right', () => {
+    const filter = createHandFilter(SETTINGS);
+    const { frame } = filter.process(createFrame(0, right(), left()));
+    expect(labels(frame.hands)).toEqual([['Left', 1], ['Right', 0]]);
+    expect(frame.hands[0].landmarks).toEqual(left().landmarks);
+  });
+
+  it('keeps a hand\'s identity when it is mislabelled for a frame', () => {
+    const filter = createHandFilter(SETTINGS);
+    filter.process(createFrame(0, left(), right()));
+    const { frame } = filter.process(createFrame(33, { ...left(0.31), handedness: 'Right' }, { ...right(0.69), handedness: 'Left' }));
+    expect(labels(frame.hands)).toEqual([['Left', 0], ['Right', 1]]);
+  });
+
+  it('keeps the label of a hand that leaves and comes back elsewhere', () => {
+    const filter = createHandFilter(SETTINGS);
+    filter.process(createFrame(0, left(), right()));
+    // The right hand drops out, then reappears far from where it was, within the grace period
+    filter.process(createFrame(33, left()));
+    const back = filter.process(createFrame(66, left(), right(0.5, 0.3))).frame;
+    expect(back.hands.map((hand) => hand.handedness)).toEqual(['Left', 'Right']);
+    expect(back.hands[1].landmarks[0].y).toBeCloseTo(0.3);
+    // The held track was retired, not kept next to the returning hand
+    expect(back.hands).toHaveLength(2);
+
+    // Still right after the old track would have expired
+    const later = filter.process(createFrame(500, left(), right(0.5, 0.3))).frame;
+    expect(later.hands.map((hand) => hand.handedness)).toEqual(['Left', 'Right']);
+    expect(later.hands[1].id).toBe(back.hands[1].id);
+  });
+
+  it('gives the other label when both hands are reported with the same one', () => {
+    const filter = createHandFilter(SETTINGS);
+    filter.process(createFrame(0, left()));
+    const { frame } = filter.process(createFrame(33, left(), { ...right(), handedness: 'Left' }));
+    expect(frame.hands.map((hand) => hand.handedness)).toEqual(['Left', 'Right']);
+  });
+
+  it('holds a lost hand for the grace period, then drops it', () => {
+    const filter = createHandFilter(SETTINGS);
+    filter.process(createFrame(0, right()));
+    expect(filter.process(createFrame(250)).frame.hands).toHaveLength(1);
+    expect(filter.process(createFrame(350)).frame.hands).toHaveLength(0);
+  });
+});
+
+describe.each([
+  ['One Euro', SmoothingMode.ONE_EURO],
+  ['Kalman', SmoothingMode.KALMAN]
+])('%s smoothing', (_, smoothing) => {
+  const settings: FilterSettings = { ...DEFAULT_FILTER, smoothing };
+
+  it('takes out most of the jitter of a still hand', () => {
+    const { raw, smoothed } = filterStillHand(settings);
+    expect(spread(smoothed)).toBeLessThan(spread(raw) * 0.6);
+    // Without pulling the hand away from where it is
+    expect(Math.abs(smoothed.reduce((sum, x) => sum + x, 0) / smoothed.length - 0.7)).toBeLessThan(0.002);
+  });
+
+  it('follows a step within a few frames, without overshooting', () => {
+    const xs = filterStep(settings);
+    // More than half way after three frames (100 ms), and there a third of a second after the jump
+    expect(xs[2]).toBeGreaterThan(0.65);
+    expect(xs[10]).toBeCloseTo(0.7, 2);
+    xs.forEach((x) => expect(x).toBeLessThanOrEqual(0.7 + 1e-9));
+  });
+});
@@ -0,0 +1,253 @@
+import { HandFrame, InteractionData, Landmark, TrackedHand, createDefaultInteraction } from '../types';
+import { WRIST } from './gestures';
+import { lerpInteraction } from './interpolation';
+import { DEFAULT_MAPPING, MappingBinding, applyMapping } from './mapping';
+
+// Filtering stage between the detector and everything downstream (mapping,
+// gestures, recording): smooths landmark jitter, bridges short detection
+// dropouts and keeps each hand's identity stable from frame to frame.
+
+export enum SmoothingMode {
+  NONE = 'None',
+  ONE_EURO = 'OneEuro',  // adaptive low-pass: smooth when still, responsive when moving fast
+  KALMAN = 'Kalman'      // constant-position Kalman filter: uniform smoothing, no speed adaptation
+}
+
+export type DropoutMode = 'hold' | 'ease';
+
+export interface FilterSettings {
+  smoothing: SmoothingMode;
+  minCutoff: number;         // One Euro: Hz; lower = smoother at rest
+  beta: number;              // One Euro: how fast the cutoff rises with speed
+  processNoise: number;      // Kalman: expected motion variance per second; higher = more responsive
+  measurementNoise: number;  // Kalman: detector jitter variance (normalized image units²)
+  graceMs: number;           // how long a lost hand is kept before it counts as gone
+  dropout: DropoutMode;      // when every hand is lost: hold the last pose, or ease it back to neutral
+}
+
+export const DEFAULT_FILTER: FilterSettings = {
+  smoothing: SmoothingMode.ONE_EURO,
+  minCutoff: 1.5,
+  beta: 2,
+  processNoise: 4e-4,
+  measurementNoise: 1e-4,
+  graceMs: 300,
+  dropout: 'ease'
+};
+
+// What the tracking settings offer; the measurement noise has no slider
+export const FILTER_RANGES: Record<Exclude<keyof FilterSettings, 'smoothing' | 'dropout'>, { min: number; max: number }> = {
+  minCutoff: { min: 0.1, max: 5 },
+  beta: { min: 0, max: 10 },
+  processNoise: { min: 1e-5, max: 1e-1 },
+  measurementNoise: { min: 1e-6, max: 1e-2 },
+  graceMs: { min: 0, max: 1000 }
+};
+
+// Beyond this wrist jump (normalized units) between frames a detection is treated as a different hand
+const MAX_MATCH_DISTANCE = 0.25;
+
+type ScalarFilter = (value: number, t: number) => number;
+
+const alpha = (dt: number, cutoff: number) => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+// Casiez et al., "1€ Filter" (CHI 2012)
+const createOneEuroFilter = (minCutoff: number, beta: number, derivativeCutoff = 1): ScalarFilter => {
+  let x: number | null = null;
+  let dx = 0;
+  let last = 0;
+
+  return (value, t) => {
+    if (x === null) {
+      x = value;
+      last = t;
+      return x;
+    }
+    const dt = Math.max(t - last, 1e-3);
+    last = t;
+    dx += alpha(dt, derivativeCutoff) * ((value - x) / dt - dx);
+    x += alpha(dt, minCutoff + beta * Math.abs(dx)) * (value - x);
+    return x;
+  };
+};
+
+const createKalmanFilter = (processNoise: number, measurementNoise: number): ScalarFilter => {
+  let x: number | null = null;
+  let p = measurementNoise;
+  let last = 0;
+
+  return (value, t) => {
+    if (x === null) {
+      x = value;
+      last = t;
+      return x;
+    }
+    const dt = Math.max(t - last, 1e-3);
+    last = t;
+    p += processNoise * dt;
+    const k = p / (p + measurementNoise);
+    x += k * (value - x);
+    p *= 1 - k;
+    return x;
+  };
+};
+
+const createScalarFilter = (settings: FilterSettings): ScalarFilter => {
+  switch (settings.smoothing) {
+    case SmoothingMode.ONE_EURO:
+      return createOneEuroFilter(settings.minCutoff, settings.beta);
+    case SmoothingMode.KALMAN:
+      return createKalmanFilter(settings.processNoise, settings.measurementNoise);
+    default:
+      return (value) => value;
+  }
+};
+
+interface HandTrack {
+  id: number;
+  handedness: TrackedHand['handedness'];
+  filters: ScalarFilter[];  // x, y, z per landmark
+  hand: TrackedHand;        // last filtered output
+  lastSeen: number;
+}
+
+export interface HandFilter {
+  // Filtered frame (hands ordered Left, Right) plus the interaction mapped from it
+  process: (frame: HandFrame) => { frame: HandFrame; interaction: InteractionData };
+  setSettings: (settings: FilterSettings) => void;
+  setMapping: (mapping: MappingBinding[]) => void;
+  reset: () => void;
+}
+
+export const createHandFilter = (
+  initialSettings: FilterSettings = DEFAULT_FILTER,
+  initialMapping: MappingBinding[] = DEFAULT_MAPPING
+): HandFilter => {
+  let settings = initialSettings;
+  let mapping = initialMapping;
+  let tracks: HandTrack[] = [];
+  let lastLive: { interaction: InteractionData; t: number } | null = null;
+  let nextId = 0;
+
+  const createTrack = (handedness: TrackedHand['handedness'], hand: TrackedHand, now: number): HandTrack => ({
+    id: nextId++,
+    handedness,
+    filters: hand.landmarks.flatMap(() => [createScalarFilter(settings), createScalarFilter(settings), createScalarFilter(settings)]),
+    hand,
+    lastSeen: now
+  });
+
+  const filterHand = (track: HandTrack, hand: TrackedHand, t: number): TrackedHand => ({
+    handedness: track.handedness,
+    id: track.id,
+    score: hand.score,
+    landmarks: hand.landmarks.map((l, i): Landmark => ({
+      x: track.filters[i * 3](l.x, t),
+      y: track.filters[i * 3 + 1](l.y, t),
+      z: track.filters[i * 3 + 2](l.z, t)
+    }))
+  });
+
+  // Detections keep the track of their reported handedness when it is close by; the rest are
+  // matched by wrist proximity, so a hand keeps its identity when MediaPipe briefly mislabels
+  // it or reports hands in another order
+  const assign = (hands: TrackedHand[]) => {
+    const matched = new Map<TrackedHand, HandTrack>();
+    const usedTracks = new Set<HandTrack>();
+
+    const match = (sameHandedness: boolean) => {
+      const pairs: { track: HandTrack; hand: TrackedHand; distance: number }[] = [];
+      for (const track of tracks) {
+        if (usedTracks.has(track)) continue;
+        for (const hand of hands) {
+          if (matched.has(hand) || (sameHandedness && hand.handedness !== track.handedness)) continue;
+          const a = track.hand.landmarks[WRIST];
+          const b = hand.landmarks[WRIST];
+          const distance = Math.hypot(a.x - b.x, a.y - b.y);
+          if (distance <= MAX_MATCH_DISTANCE) pairs.push({ track, hand, distance });
+        }
+      }
+      pairs.sort((a, b) => a.distance - b.distance);
+
+      for (const { track, hand } of pairs) {
+        if (matched.has(hand) || usedTracks.has(track)) continue;
+        matched.set(hand, track);
+        usedTracks.add(track);
+      }
+    };
+
+    match(true);
+    match(false);
+    return matched;
+  };
+
+  const process = (frame: HandFrame) => {
+    const now = frame.timestamp;
+    const t = now / 1000;
+    const matched = assign(frame.hands);
+    const live = new Set(matched.values());
+
+    // New hands take the reported handedness. A held track under the same label is that hand
+    // come back somewhere else, so it is retired rather than the newcomer being relabelled.
+    // With more than two hands in view (several people) handedness repeats, and the id tells them apart.
+    for (const hand of frame.hands) {
+      if (matched.has(hand)) continue;
+      const owners = tracks.filter((track) => track.handedness === hand.handedness);
+      const stale = owners.find((track) => !live.has(track));
+      let handedness: TrackedHand['handedness'] | undefined = hand.handedness;
+      if (stale) {
+        tracks = tracks.filter((track) => track !== stale);
+      } else if (owners.length > 0 && frame.hands.length <= 2) {
+        // Both hands in view were reported with the same label: this one is the other hand
+        const other = hand.handedness === 'Left' ? 'Right' : 'Left';
+        handedness = tracks.some((track) => track.handedness === other) ? undefined : other;
+      }
+      if (!handedness) continue;
+      const track = createTrack(handedness, hand, now);
+      tracks.push(track);
+      matched.set(hand, track);
+      live.add(track);
+    }
+
+    matched.forEach((track, hand) => {
+      track.hand = filterHand(track, hand, t);
+      track.lastSeen = now;
+    });
+
+    // Lost hands are held for the grace period, then dropped (with their filter state)
+    tracks = tracks.filter((track) => now - track.lastSeen <= settings.graceMs);
+    tracks.sort((a, b) => a.handedness.localeCompare(b.handedness) || a.id - b.id);
+
+    const hands = tracks.map((track) => track.hand);
+    let interaction = applyMapping(mapping, hands);
+
+    if (live.size > 0) {
+      lastLive = { interaction, t: now };
+    } else if (hands.length > 0 && lastLive && settings.dropout === 'ease') {
+      // Every hand is lost: glide from the last live pose back to neutral over the grace period
+      const k = Math.min((now - lastLive.t) / Math.max(settings.graceMs, 1), 1);
+      interaction = lerpInteraction(lastLive.interaction, createDefaultInteraction(), k * k * (3 - 2 * k));
+    }
+
+    return { frame: { ...frame, hands }, interaction };
+  };
+
+  return {
+    process,
+    setSettings: (next) => {
+      settings = next;
+      // Filter parameters are baked into each track's filters
+      tracks = [];
+    },
+    setMapping: (next) => {
+      mapping = next;
+    },
+    reset: () => {
+      tracks = [];
+      lastLive = null;
+    }
+  };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import sessionText from '../fixtures/session.json?raw';
+import { OPEN_PALM, createHand } from '../fixtures/hands';
+import { SESSION_FORMAT, SESSION_VERSION, createSessionRecorder, parseSession, serializeSession } from './handSession';
+
+const fileWith = (frames: unknown[]) => JSON.stringify({ format: SESSION_FORMAT, version: SESSION_VERSION, recordedAt: '', frames });
+const emptyFrame = (t: unknown) => ({ t, hands: [] });
+
+describe('parseSession', () => {
+  it('reads the session fixture', () => {
+    const session = parseSession(sessionText);
+    expect(session.recordedAt).toBe('2026-10-18T17:30:00.000Z');
+    expect(session.frames).toHaveLength(30);
+    expect(session.frames[0].timestamp).toBe(0);
+    expect(session.frames[0].hands[0].landmarks).toHaveLength(21);
+    expect(session.frames[20].hands.map((hand) => hand.handedness)).toEqual(['Left', 'Right']);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseSession('{"format":"something-else"}')).toThrow('Not a hand session file');
+    expect(() => parseSession(JSON.stringify({ format: SESSION_FORMAT, version: SESSION_VERSION + 1, frames: [] })))
+      .toThrow('Unsupported session version');
+  });
+
+  it('rejects hands with the wrong number of landmarks', () => {
+    expect(() => parseSession(fileWith([{ t: 0, hands: [{ h: 'Left', s: 1, p: [0, 0, 0] }] }]))).toThrow('Frame 0');
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['a string', '12'],
+    ['null', null]
+  ])('rejects a timestamp that is %s', (_, t) => {
+    expect(() => parseSession(fileWith([emptyFrame(0), emptyFrame(t)]))).toThrow('Frame 1: invalid timestamp');
+  });
+
+  it('rejects a timestamp that is not finite', () => {
+    // JSON.parse reads an out-of-range number as Infinity
+    const text = fileWith([emptyFrame(0), emptyFrame(1)]).replace('"t":1', '"t":1e999');
+    expect(() => parseSession(text)).toThrow('Frame 1: invalid timestamp');
+  });
+
+  it('rejects timestamps that go backwards', () => {
+    expect(() => parseSession(fileWith([emptyFrame(0), emptyFrame(40), emptyFrame(20)]))).toThrow('Frame 2: timestamp goes backwards');
+    // Two detections in the same millisecond are fine
+    expect(parseSession(fileWith([emptyFrame(0), emptyFrame(20), emptyFrame(20)])).frames).toHaveLength(3);
+  });
+});
+
+describe('serializeSession', () => {
+  it('round-trips the fixture unchanged', () => {
+    expect(serializeSession(parseSession(sessionText))).toBe(sessionText.trim());
+  });
+
+  it('round-trips a recording to within the stored precision', () => {
+    const recorder = createSessionRecorder();
+    recorder.add({ timestamp: 5000.123, hands: [createHand(OPEN_PALM, { x: 0.41234567, score: 0.987654 })] });
+    recorder.add({ timestamp: 5033.456, hands: [] });
+    const session = recorder.finish();
+
+    const parsed = parseSession(serializeSession(session));
+    expect(parsed.recordedAt).toBe(session.recordedAt);
+    expect(parsed.frames.map((frame) => frame.timestamp)).toEqual([0, 33.33]);
+    expect(parsed.frames[1].hands).toEqual([]);
+
+    const [hand] = parsed.frames[0].hands;
+    const [original] = session.frames[0].hands;
+    expect(hand.handedness).toBe(original.handedness);
+    expect(hand.score).toBeCloseTo(original.score, 4);
+    hand.landmarks.forEach((landmark, i) => {
+      expect(landmark.x).toBeCloseTo(original.landmarks[i].x, 4);
+      expect(landmark.y).toBeCloseTo(original.landmarks[i].y, 4);
+      expect(landmark.z).toBeCloseTo(original.landmarks[i].z, 4);
+    });
+  });
+});
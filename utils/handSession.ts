@@ -0,0 +1,124 @@
+import { HandFrame, TrackedHand } from '../types';
+import { downloadBlob, timestampedName } from './download';
+
+// On-disk format for recorded hand-tracking sessions.
+// Bump SESSION_VERSION whenever the shape of SessionFile changes and keep
+// parseSession able to read every older version.
+export const SESSION_FORMAT = 'gesture-particles/hand-session';
+export const SESSION_VERSION = 1;
+
+const LANDMARKS_PER_HAND = 21;
+
+interface SessionHand {
+  h: 'Left' | 'Right';   // handedness
+  s: number;             // handedness score
+  p: number[];           // 21 landmarks flattened as x, y, z
+}
+
+interface SessionFrame {
+  t: number;             // ms since the first recorded frame
+  hands: SessionHand[];
+}
+
+interface SessionFile {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  recordedAt: string;
+  frames: SessionFrame[];
+}
+
+export interface HandSession {
+  recordedAt: string;
+  frames: HandFrame[];   // timestamps start at 0
+}
+
+export interface SessionRecorder {
+  add: (frame: HandFrame) => void;
+  finish: () => HandSession;
+}
+
+export const createSessionRecorder = (): SessionRecorder => {
+  const recordedAt = new Date().toISOString();
+  const frames: HandFrame[] = [];
+  let origin: number | null = null;
+
+  return {
+    add: (frame) => {
+      if (origin === null) origin = frame.timestamp;
+      frames.push({ ...frame, timestamp: frame.timestamp - origin });
+    },
+    finish: () => ({ recordedAt, frames: frames.slice() })
+  };
+};
+
+// 4 decimals of a normalized coordinate is well below a pixel at 640x480
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+export const serializeSession = (session: HandSession): string => {
+  const file: SessionFile = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    recordedAt: session.recordedAt,
+    frames: session.frames.map((frame) => ({
+      t: Math.round(frame.timestamp * 100) / 100,
+      hands: frame.hands.map((hand) => ({
+        h: hand.handedness,
+        s: round(hand.score),
+        p: hand.landmarks.flatMap((l) => [round(l.x), round(l.y), round(l.z)])
+      }))
+    }))
+  };
+  return JSON.stringify(file);
+};
+
+const parseHand = (hand: SessionHand, frameIndex: number): TrackedHand => {
+  if (!Array.isArray(hand.p) || hand.p.length !== LANDMARKS_PER_HAND * 3) {
+    throw new Error(`Frame ${frameIndex}: expected ${LANDMARKS_PER_HAND} landmarks per hand`);
+  }
+  const landmarks = [];
+  for (let i = 0; i < hand.p.length; i += 3) {
+    landmarks.push({ x: hand.p[i], y: hand.p[i + 1], z: hand.p[i + 2] });
+  }
+  return {
+    handedness: hand.h === 'Left' ? 'Left' : 'Right',
+    score: typeof hand.s === 'number' ? hand.s : 0,
+    landmarks
+  };
+};
+
+export const parseSession = (text: string): HandSession => {
+  const file = JSON.parse(text) as Partial<SessionFile>;
+
+  if (file.format !== SESSION_FORMAT) {
+    throw new Error('Not a hand session file');
+  }
+  if (typeof file.version !== 'number' || file.version > SESSION_VERSION) {
+    throw new Error(`Unsupported session version: ${file.version}`);
+  }
+  if (!Array.isArray(file.frames)) {
+    throw new Error('Session has no frames');
+  }
+
+  // Replay schedules frames by their timestamps
+  let previous = -Infinity;
+  const frames = file.frames.map((frame, i) => {
+    if (typeof frame.t !== 'number' || !Number.isFinite(frame.t)) {
+      throw new Error(`Frame ${i}: invalid timestamp`);
+    }
+    if (frame.t < previous) {
+      throw new Error(`Frame ${i}: timestamp goes backwards`);
+    }
+    previous = frame.t;
+    return {
+      timestamp: frame.t,
+      hands: (frame.hands ?? []).map((hand) => parseHand(hand, i))
+    };
+  });
+
+  return { recordedAt: file.recordedAt ?? '', frames };
+};
+
+export const downloadSession = (session: HandSession) => {
+  const blob = new Blob([serializeSession(session)], { type: 'application/json' });
+  downloadBlob(blob, timestampedName('hand-session', 'json', new Date(session.recordedAt)));
+};
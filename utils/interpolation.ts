@@ -0,0 +1,64 @@
+import { InteractionData, InteractionParams } from '../types';
+
+// Detections arrive at the detection rate (15-60 Hz), frames render at display
+// rate. Timestamped interactions are replayed one detection interval behind,
+// blending between the last two, so motion stays smooth between detections.
+
+// Longer gaps (a stalled detector, a hand re-entering) snap instead of gliding
+const MAX_INTERVAL_MS = 250;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// A param only one side sets is held at that value; the renderer eases it back to neutral once it is gone
+const lerpParams = (from: InteractionParams | undefined, to: InteractionParams | undefined, t: number) => {
+  if (!from || !to) return from ?? to;
+  const params: InteractionParams = { ...from, ...to };
+  for (const key of Object.keys(params) as (keyof InteractionParams)[]) {
+    params[key] = lerp(from[key] ?? to[key]!, to[key] ?? from[key]!, t);
+  }
+  return params;
+};
+
+export const lerpInteraction = (from: InteractionData, to: InteractionData, t: number): InteractionData => {
+  const data: InteractionData = {
+    scale: lerp(from.scale, to.scale, t),
+    position: { x: lerp(from.position.x, to.position.x, t), y: lerp(from.position.y, to.position.y, t) },
+    rotation: {
+      x: lerp(from.rotation.x, to.rotation.x, t),
+      y: lerp(from.rotation.y, to.rotation.y, t),
+      z: lerp(from.rotation.z, to.rotation.z, t)
+    }
+  };
+  const params = lerpParams(from.params, to.params, t);
+  if (params) data.params = params;
+  return data;
+};
+
+export interface InteractionInterpolator {
+  // Feed the latest interaction every frame; repeats of the same object are ignored
+  push: (data: InteractionData, now: number) => void;
+  sample: (now: number) => InteractionData;
+}
+
+export const createInteractionInterpolator = (): InteractionInterpolator => {
+  let latest: InteractionData | null = null;
+  let previous: InteractionData | null = null;
+  let arrivedAt = 0;
+
+  return {
+    push: (data, now) => {
+      if (data === latest) return;
+      // Untimestamped sources (pointer, keyboard...) are already smooth: no history
+      previous = latest?.timestamp !== undefined && data.timestamp !== undefined ? latest : null;
+      latest = data;
+      arrivedAt = now;
+    },
+    sample: (now) => {
+      if (!latest) throw new Error('No interaction pushed yet');
+      if (!previous) return latest;
+      const interval = latest.timestamp! - previous.timestamp!;
+      if (interval <= 0 || interval > MAX_INTERVAL_MS) return latest;
+      return lerpInteraction(previous, latest, Math.min((now - arrivedAt) / interval, 1));
+    }
+  };
+};
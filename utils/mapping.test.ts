@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { InteractionData, TrackedHand } from '../types';
+import { FIST, OPEN_PALM, PEACE, createHand } from '../fixtures/hands';
+import {
+  Curve,
+  DEFAULT_MAPPING,
+  MappingSource,
+  MappingTarget,
+  applyMapping,
+  createBinding,
+  evaluateBinding,
+  parseMapping
+} from './mapping';
+
+// The fixed mapping HandTracker had before bindings existed, verbatim
+const legacyInteraction = (hands: TrackedHand[]): InteractionData => {
+  let scale = 1.0;
+  let posX = 0;
+  let posY = 0;
+  let rotX = 0;
+  let rotY = 0;
+  let rotZ = 0;
+
+  if (hands.length === 2) {
+    const hand1 = hands[0].landmarks[0];
+    const hand2 = hands[1].landmarks[0];
+    const dist = Math.sqrt(Math.pow(hand1.x - hand2.x, 2) + Math.pow(hand1.y - hand2.y, 2));
+    const clampedDist = Math.max(0.1, Math.min(dist, 0.8));
+    scale = 0.5 + ((clampedDist - 0.1) / 0.7) * 2.0;
+    const avgX = (hand1.x + hand2.x) / 2;
+    const avgY = (hand1.y + hand2.y) / 2;
+    posX = (0.5 - avgX) * 8;
+    posY = -(avgY - 0.5) * 6;
+    rotZ = -Math.atan2(hand2.y - hand1.y, hand2.x - hand1.x);
+    rotY = (0.5 - avgX) * 2.0;
+    rotX = (avgY - 0.5) * 2.0;
+  } else if (hands.length === 1) {
+    const thumb = hands[0].landmarks[4];
+    const index = hands[0].landmarks[8];
+    const wrist = hands[0].landmarks[0];
+    const dist = Math.sqrt(Math.pow(thumb.x - index.x, 2) + Math.pow(thumb.y - index.y, 2));
+    const clampedDist = Math.max(0.02, Math.min(dist, 0.2));
+    scale = 0.5 + ((clampedDist - 0.02) / 0.18) * 1.5;
+    posX = (0.5 - wrist.x) * 8;
+    posY = -(wrist.y - 0.5) * 6;
+    rotY = (0.5 - wrist.x) * 3.0;
+    rotX = (wrist.y - 0.5) * 3.0;
+  }
+
+  return { scale, position: { x: posX, y: posY }, rotation: { x: rotX, y: rotY, z: rotZ } };
+};
+
+const expectSameTransform = (actual: InteractionData, expected: InteractionData) => {
+  expect(actual.scale).toBeCloseTo(expected.scale, 10);
+  expect(actual.position.x).toBeCloseTo(expected.position.x, 10);
+  expect(actual.position.y).toBeCloseTo(expected.position.y, 10);
+  expect(actual.rotation.x).toBeCloseTo(expected.rotation.x, 10);
+  expect(actual.rotation.y).toBeCloseTo(expected.rotation.y, 10);
+  expect(actual.rotation.z).toBeCloseTo(expected.rotation.z, 10);
+};
+
+describe('applyMapping(DEFAULT_MAPPING)', () => {
+  it('is neutral without hands', () => {
+    expectSameTransform(applyMapping(DEFAULT_MAPPING, []), legacyInteraction([]));
+  });
+
+  it.each([
+    // pinch distances below, inside and above the 0.02..0.2 range
+    [0.5, 0.7, 0.01],
+    [0.5, 0.7, 0.02],
+    [0.2, 0.4, 0.08],
+    [0.85, 0.9, 0.15],
+    [0.65, 0.25, 0.3]
+  ])('matches the one-hand formulas (wrist %f, %f; pinch %f)', (x, y, pinch) => {
+    const hands = [createHand(OPEN_PALM, { x, y, pinch })];
+    expectSameTransform(applyMapping(DEFAULT_MAPPING, hands), legacyInteraction(hands));
+  });
+
+  it.each([
+    // wrist distances below, inside and above the 0.1..0.8 range, level and tilted
+    [[0.45, 0.6], [0.5, 0.62]],
+    [[0.3, 0.6], [0.7, 0.6]],
+    [[0.2, 0.4], [0.75, 0.8]],
+    [[0.8, 0.3], [0.3, 0.7]],
+    [[0.02, 0.5], [0.98, 0.55]]
+  ])('matches the two-hand formulas (wrists %j, %j)', ([x1, y1], [x2, y2]) => {
+    const hands = [
+      createHand(FIST, { x: x1, y: y1, handedness: 'Left' }),
+      createHand(PEACE, { x: x2, y: y2, handedness: 'Right' })
+    ];
+    expectSameTransform(applyMapping(DEFAULT_MAPPING, hands), legacyInteraction(hands));
+  });
+
+  it('drives no extra parameters', () => {
+    expect(applyMapping(DEFAULT_MAPPING, [createHand(OPEN_PALM)]).params).toBeUndefined();
+  });
+});
+
+describe('evaluateBinding', () => {
+  it('clamps to the input range and shapes with the curve', () => {
+    const binding = createBinding(MappingSource.CENTER_X, MappingTarget.HUE, { curve: Curve.EASE_IN });
+    expect(evaluateBinding(binding, -1)).toBe(0);
+    expect(evaluateBinding(binding, 0.5)).toBeCloseTo(0.25);
+    expect(evaluateBinding(binding, 2)).toBe(1);
+    expect(evaluateBinding({ ...binding, invert: true }, 0.5)).toBeCloseTo(0.25);
+    expect(evaluateBinding({ ...binding, invert: true }, 0)).toBe(1);
+  });
+});
+
+describe('parseMapping', () => {
+  it('round-trips the default mapping', () => {
+    expect(parseMapping(JSON.parse(JSON.stringify(DEFAULT_MAPPING)))).toEqual(DEFAULT_MAPPING);
+  });
+
+  it('drops malformed bindings and falls back for a non-list', () => {
+    const [valid] = DEFAULT_MAPPING;
+    expect(parseMapping([valid, { ...valid, source: 'Elbow' }, { ...valid, inputMin: 'low' }, null])).toEqual([valid]);
+    expect(parseMapping({})).toBe(DEFAULT_MAPPING);
+  });
+});
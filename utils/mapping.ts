@@ -0,0 +1,253 @@
+import { InteractionData, InteractionParams, TrackedHand, createDefaultInteraction } from '../types';
+import {
+  INDEX_TIP,
+  ONE_HAND_TILT,
+  PINCH_DISTANCE,
+  PINCH_SCALE,
+  POSITION_RANGE,
+  THUMB_TIP,
+  TWO_HAND_DISTANCE,
+  TWO_HAND_SCALE,
+  TWO_HAND_TILT,
+  WRIST,
+  countExtendedFingers,
+  distance2D
+} from './gestures';
+
+// Gesture -> parameter mapping shared by live tracking and session replay.
+// Each binding reads one signal from the tracked hands, normalizes it over an
+// input range, shapes it with a curve and writes it into an output range of one
+// target. Later bindings win when several drive the same target.
+
+export enum MappingSource {
+  PINCH = 'Pinch',                 // thumb-to-index distance of the first hand
+  HAND_DISTANCE = 'HandDistance',  // wrist-to-wrist distance (two hands)
+  CENTER_X = 'CenterX',            // mean wrist x, mirrored as seen in the preview: 0 = left
+  CENTER_Y = 'CenterY',            // mean wrist y: 0 = top
+  HAND_ANGLE = 'HandAngle',        // angle of the line between both wrists, radians (two hands)
+  PALM_ROLL = 'PalmRoll',          // tilt of the first hand's palm from upright, radians
+  FINGER_COUNT = 'FingerCount',    // extended fingers over all hands
+  HAND_COUNT = 'HandCount'
+}
+
+export enum MappingTarget {
+  SCALE = 'Scale',
+  POSITION_X = 'PositionX',
+  POSITION_Y = 'PositionY',
+  ROTATION_X = 'RotationX',
+  ROTATION_Y = 'RotationY',
+  ROTATION_Z = 'RotationZ',
+  HUE = 'Hue',
+  MORPH = 'Morph',
+  TURBULENCE = 'Turbulence',
+  PARTICLE_SIZE = 'ParticleSize'
+}
+
+export enum Curve {
+  LINEAR = 'Linear',
+  EASE_IN = 'EaseIn',    // fine control at the low end
+  EASE_OUT = 'EaseOut',  // fine control at the high end
+  S_CURVE = 'SCurve'     // fine control at both ends
+}
+
+const CURVES: Record<Curve, (t: number) => number> = {
+  [Curve.LINEAR]: (t) => t,
+  [Curve.EASE_IN]: (t) => t * t,
+  [Curve.EASE_OUT]: (t) => t * (2 - t),
+  [Curve.S_CURVE]: (t) => t * t * (3 - 2 * t)
+};
+
+export interface MappingBinding {
+  id: string;
+  enabled: boolean;
+  source: MappingSource;
+  target: MappingTarget;
+  hands: 0 | 1 | 2;    // only while exactly this many hands are tracked; 0 = any number
+  inputMin: number;
+  inputMax: number;
+  outputMin: number;   // may be above outputMax for a reversed mapping
+  outputMax: number;
+  curve: Curve;
+  invert: boolean;
+  smoothing: number;   // seconds the target takes to follow (time constant); 0 = immediate
+}
+
+// Typical signal ranges, used as the input range of new bindings
+export const SOURCE_RANGES: Record<MappingSource, { min: number; max: number }> = {
+  [MappingSource.PINCH]: PINCH_DISTANCE,
+  [MappingSource.HAND_DISTANCE]: TWO_HAND_DISTANCE,
+  [MappingSource.CENTER_X]: { min: 0, max: 1 },
+  [MappingSource.CENTER_Y]: { min: 0, max: 1 },
+  [MappingSource.HAND_ANGLE]: { min: -Math.PI, max: Math.PI },
+  [MappingSource.PALM_ROLL]: { min: -Math.PI / 2, max: Math.PI / 2 },
+  [MappingSource.FINGER_COUNT]: { min: 0, max: 5 },
+  [MappingSource.HAND_COUNT]: { min: 0, max: 2 }
+};
+
+// Useful output ranges, used for new bindings; the neutral value applies while nothing drives the target
+export const TARGET_RANGES: Record<MappingTarget, { min: number; max: number }> = {
+  [MappingTarget.SCALE]: { min: 0.5, max: 2 },
+  [MappingTarget.POSITION_X]: { min: -POSITION_RANGE.x / 2, max: POSITION_RANGE.x / 2 },
+  [MappingTarget.POSITION_Y]: { min: -POSITION_RANGE.y / 2, max: POSITION_RANGE.y / 2 },
+  [MappingTarget.ROTATION_X]: { min: -1.5, max: 1.5 },
+  [MappingTarget.ROTATION_Y]: { min: -1.5, max: 1.5 },
+  [MappingTarget.ROTATION_Z]: { min: -Math.PI, max: Math.PI },
+  [MappingTarget.HUE]: { min: 0, max: 1 },
+  [MappingTarget.MORPH]: { min: 0, max: 1 },
+  [MappingTarget.TURBULENCE]: { min: 0, max: 3 },
+  [MappingTarget.PARTICLE_SIZE]: { min: 0.5, max: 3 }
+};
+
+// Used for targets no binding drives right now. The old fixed mapping eased
+// scale by 0.15 and everything else by 0.1 per frame at 60fps; these match it.
+export const SCALE_SMOOTHING = 0.1;
+export const DEFAULT_SMOOTHING = 0.16;
+
+let nextId = 0;
+const createBindingId = () => `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+export const createBinding = (
+  source: MappingSource,
+  target: MappingTarget,
+  overrides: Partial<MappingBinding> = {}
+): MappingBinding => ({
+  id: createBindingId(),
+  enabled: true,
+  source,
+  target,
+  hands: 0,
+  inputMin: SOURCE_RANGES[source].min,
+  inputMax: SOURCE_RANGES[source].max,
+  outputMin: TARGET_RANGES[target].min,
+  outputMax: TARGET_RANGES[target].max,
+  curve: Curve.LINEAR,
+  invert: false,
+  smoothing: target === MappingTarget.SCALE ? SCALE_SMOOTHING : DEFAULT_SMOOTHING,
+  ...overrides
+});
+
+const tilt = (range: number) => ({ outputMin: -range / 2, outputMax: range / 2 });
+
+// The original fixed mapping: pinch or two-hand spread -> scale, wrist centre ->
+// position and tilt, wrist line -> roll (two hands only; one wrist is too noisy)
+export const DEFAULT_MAPPING: MappingBinding[] = [
+  createBinding(MappingSource.PINCH, MappingTarget.SCALE, { id: 'pinch-scale', hands: 1, outputMin: PINCH_SCALE.min, outputMax: PINCH_SCALE.max }),
+  createBinding(MappingSource.HAND_DISTANCE, MappingTarget.SCALE, { id: 'spread-scale', hands: 2, outputMin: TWO_HAND_SCALE.min, outputMax: TWO_HAND_SCALE.max }),
+  createBinding(MappingSource.CENTER_X, MappingTarget.POSITION_X, { id: 'center-x' }),
+  // Screen y grows downwards, scene y upwards
+  createBinding(MappingSource.CENTER_Y, MappingTarget.POSITION_Y, { id: 'center-y', invert: true }),
+  createBinding(MappingSource.CENTER_Y, MappingTarget.ROTATION_X, { id: 'tilt-x', hands: 1, ...tilt(ONE_HAND_TILT) }),
+  createBinding(MappingSource.CENTER_X, MappingTarget.ROTATION_Y, { id: 'tilt-y', hands: 1, ...tilt(ONE_HAND_TILT) }),
+  createBinding(MappingSource.CENTER_Y, MappingTarget.ROTATION_X, { id: 'tilt-x-2', hands: 2, ...tilt(TWO_HAND_TILT) }),
+  createBinding(MappingSource.CENTER_X, MappingTarget.ROTATION_Y, { id: 'tilt-y-2', hands: 2, ...tilt(TWO_HAND_TILT) }),
+  createBinding(MappingSource.HAND_ANGLE, MappingTarget.ROTATION_Z, { id: 'roll', hands: 2 })
+];
+
+const MIDDLE_MCP = 9;
+
+// Raw value of a signal, or null while it cannot be measured (e.g. hand distance with one hand)
+export const readSignal = (source: MappingSource, hands: TrackedHand[]): number | null => {
+  if (source === MappingSource.HAND_COUNT) return hands.length;
+  if (source === MappingSource.FINGER_COUNT) return hands.reduce((sum, hand) => sum + countExtendedFingers(hand), 0);
+  if (hands.length === 0) return null;
+
+  const first = hands[0].landmarks;
+  const wrists = hands.slice(0, 2).map((hand) => hand.landmarks[WRIST]);
+
+  switch (source) {
+    case MappingSource.PINCH:
+      return distance2D(first[THUMB_TIP], first[INDEX_TIP]);
+    case MappingSource.CENTER_X:
+      return 1 - wrists.reduce((sum, w) => sum + w.x, 0) / wrists.length;
+    case MappingSource.CENTER_Y:
+      return wrists.reduce((sum, w) => sum + w.y, 0) / wrists.length;
+    case MappingSource.PALM_ROLL:
+      // Wrist -> middle knuckle against straight up; counter-clockwise on screen is positive
+      return Math.atan2(first[MIDDLE_MCP].x - first[WRIST].x, first[WRIST].y - first[MIDDLE_MCP].y);
+    case MappingSource.HAND_DISTANCE:
+      return wrists.length === 2 ? distance2D(wrists[0], wrists[1]) : null;
+    case MappingSource.HAND_ANGLE:
+      // Screen y is inverted vs 3D
+      return wrists.length === 2 ? -Math.atan2(wrists[1].y - wrists[0].y, wrists[1].x - wrists[0].x) : null;
+  }
+};
+
+const PARAM_TARGETS: Partial<Record<MappingTarget, keyof InteractionParams>> = {
+  [MappingTarget.HUE]: 'hue',
+  [MappingTarget.MORPH]: 'morph',
+  [MappingTarget.TURBULENCE]: 'turbulence',
+  [MappingTarget.PARTICLE_SIZE]: 'particleSize'
+};
+
+const writeTarget = (data: InteractionData, target: MappingTarget, value: number) => {
+  switch (target) {
+    case MappingTarget.SCALE: data.scale = value; break;
+    case MappingTarget.POSITION_X: data.position.x = value; break;
+    case MappingTarget.POSITION_Y: data.position.y = value; break;
+    case MappingTarget.ROTATION_X: data.rotation.x = value; break;
+    case MappingTarget.ROTATION_Y: data.rotation.y = value; break;
+    case MappingTarget.ROTATION_Z: data.rotation.z = value; break;
+    default:
+      data.params = { ...data.params, [PARAM_TARGETS[target]!]: value };
+  }
+};
+
+const appliesTo = (binding: MappingBinding, handCount: number) =>
+  binding.enabled && (binding.hands === 0 || binding.hands === handCount);
+
+export const evaluateBinding = (binding: MappingBinding, raw: number) => {
+  const span = binding.inputMax - binding.inputMin;
+  const t = span === 0 ? 0 : Math.min(Math.max((raw - binding.inputMin) / span, 0), 1);
+  const shaped = CURVES[binding.curve](binding.invert ? 1 - t : t);
+  return binding.outputMin + shaped * (binding.outputMax - binding.outputMin);
+};
+
+// Targets nothing drives stay neutral: unit scale, centred, upright, no extra params
+export const applyMapping = (bindings: MappingBinding[], hands: TrackedHand[]): InteractionData => {
+  const data = createDefaultInteraction();
+  for (const binding of bindings) {
+    if (!appliesTo(binding, hands.length)) continue;
+    const raw = readSignal(binding.source, hands);
+    if (raw !== null) writeTarget(data, binding.target, evaluateBinding(binding, raw));
+  }
+  return data;
+};
+
+// Time constant the renderer eases `target` with, from the binding currently driving it
+export const smoothingFor = (bindings: MappingBinding[], target: MappingTarget, handCount: number) => {
+  let smoothing = target === MappingTarget.SCALE ? SCALE_SMOOTHING : DEFAULT_SMOOTHING;
+  for (const binding of bindings) {
+    if (binding.target === target && appliesTo(binding, handCount)) smoothing = binding.smoothing;
+  }
+  return smoothing;
+};
+
+// Stored or imported bindings; malformed entries are dropped, a malformed list falls back to the default
+export const parseMapping = (value: unknown): MappingBinding[] => {
+  if (!Array.isArray(value)) return DEFAULT_MAPPING;
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+  return value.flatMap((item): MappingBinding[] => {
+    const b = item as Partial<MappingBinding> | null;
+    if (typeof b !== 'object' || b === null
+      || !Object.values(MappingSource).includes(b.source as MappingSource)
+      || !Object.values(MappingTarget).includes(b.target as MappingTarget)
+      || ![b.inputMin, b.inputMax, b.outputMin, b.outputMax, b.smoothing].every(isNumber)) {
+      return [];
+    }
+    return [{
+      id: typeof b.id === 'string' ? b.id : createBindingId(),
+      enabled: b.enabled !== false,
+      source: b.source as MappingSource,
+      target: b.target as MappingTarget,
+      hands: b.hands === 1 || b.hands === 2 ? b.hands : 0,
+      inputMin: b.inputMin!,
+      inputMax: b.inputMax!,
+      outputMin: b.outputMin!,
+      outputMax: b.outputMax!,
+      curve: Object.values(Curve).includes(b.curve as Curve) ? b.curve as Curve : Curve.LINEAR,
+      invert: b.invert === true,
+      smoothing: Math.max(b.smoothing!, 0)
+    }];
+  });
+};
@@ -0,0 +1,147 @@
+import { ShapeSample } from '../types';
+import { Easing, ease } from './timeline';
+import { MappingBinding, MappingSource, MappingTarget, createBinding } from './mapping';
+
+// Shape-to-shape transitions. The vertex shader blends every particle from
+// `position` to `aTarget` along a style-specific path, driven by one global,
+// eased progress; the CPU only decides which target each particle gets.
+
+export enum MorphStyle {
+  DIRECT = 'Direct',      // straight lines
+  EXPLODE = 'Explode',    // blown outwards, then pulled into the new shape
+  VORTEX = 'Vortex',      // swirled around the vertical axis on the way
+  STAGGER = 'Stagger',    // each particle leaves at its own time
+  DISSOLVE = 'Dissolve'   // particles flicker out and reappear at their target
+}
+
+// Shader-side index of each style, see particleShader
+export const MORPH_STYLE_INDEX: Record<MorphStyle, number> = {
+  [MorphStyle.DIRECT]: 0,
+  [MorphStyle.EXPLODE]: 1,
+  [MorphStyle.VORTEX]: 2,
+  [MorphStyle.STAGGER]: 3,
+  [MorphStyle.DISSOLVE]: 4
+};
+
+export interface MorphSettings {
+  style: MorphStyle;
+  duration: number;  // seconds from one shape to the next
+  easing: Easing;
+}
+
+export const DEFAULT_MORPH: MorphSettings = {
+  style: MorphStyle.DIRECT,
+  duration: 0.8,
+  easing: Easing.EASE_OUT
+};
+
+export const MORPH_DURATION_RANGE = { min: 0.2, max: 5 };
+
+// Eased global progress after `elapsed` seconds
+export const morphProgress = (settings: Pick<MorphSettings, 'duration' | 'easing'>, elapsed: number) =>
+  ease(settings.easing, Math.min(elapsed / Math.max(settings.duration, 1e-3), 1));
+
+// Share of the transition a STAGGER particle waits for at most (times its seed)
+const STAGGER_SPREAD = 0.6;
+
+// One particle's own progress for a global progress; must match particleMorph() in particleShader
+export const particleProgress = (style: MorphStyle, progress: number, seed: number) => {
+  if (style === MorphStyle.STAGGER) {
+    const t = Math.min(Math.max((progress - seed * STAGGER_SPREAD) / (1 - STAGGER_SPREAD), 0), 1);
+    return t * t * (3 - 2 * t);
+  }
+  if (style === MorphStyle.DISSOLVE) return progress >= 0.1 + seed * 0.8 ? 1 : 0;
+  return progress;
+};
+
+export const createMorphSeeds = (count: number) => {
+  const seeds = new Float32Array(count);
+  for (let i = 0; i < count; i++) seeds[i] = Math.random();
+  return seeds;
+};
+
+// --- Target assignment ---
+
+const MORTON_BITS = 10;
+const INDEX_BITS = 18;  // enough for the largest particle count
+
+// Interleaves the low 10 bits of v with two zero bits each
+const spreadBits = (v: number) => {
+  v = (v | (v << 16)) & 0x030000ff;
+  v = (v | (v << 8)) & 0x0300f00f;
+  v = (v | (v << 4)) & 0x030c30c3;
+  return (v | (v << 2)) & 0x09249249;
+};
+
+// Particle indices sorted along a Z-order curve through the set's own bounding box
+const mortonOrder = (positions: Float32Array) => {
+  const count = positions.length / 3;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    const axis = i % 3;
+    if (positions[i] < min[axis]) min[axis] = positions[i];
+    if (positions[i] > max[axis]) max[axis] = positions[i];
+  }
+
+  const cells = (1 << MORTON_BITS) - 1;
+  const quantize = (value: number, axis: number) =>
+    Math.round(((value - min[axis]) / Math.max(max[axis] - min[axis], 1e-6)) * cells);
+
+  // Key and index packed into one float64, so the native numeric sort does the work
+  const keyed = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const key = spreadBits(quantize(positions[i3], 0))
+      | (spreadBits(quantize(positions[i3 + 1], 1)) << 1)
+      | (spreadBits(quantize(positions[i3 + 2], 2)) << 2);
+    keyed[i] = key * (1 << INDEX_BITS) + i;
+  }
+  keyed.sort();
+
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = keyed[i] % (1 << INDEX_BITS);
+  return order;
+};
+
+// Reorders a new shape's targets so each particle travels to a nearby spot instead
+// of across the cloud. Both point sets are walked along a space-filling curve and
+// paired by rank: an O(n log n) stand-in for an optimal assignment that keeps
+// neighbours together, which is what the eye notices.
+export const assignTargets = (from: Float32Array, sample: ShapeSample): ShapeSample => {
+  const fromOrder = mortonOrder(from);
+  const toOrder = mortonOrder(sample.positions);
+  const positions = new Float32Array(sample.positions.length);
+  const colors = sample.colors ? new Float32Array(sample.colors.length) : undefined;
+
+  for (let k = 0; k < fromOrder.length; k++) {
+    const i3 = fromOrder[k] * 3;
+    const j3 = toOrder[k] * 3;
+    positions[i3] = sample.positions[j3];
+    positions[i3 + 1] = sample.positions[j3 + 1];
+    positions[i3 + 2] = sample.positions[j3 + 2];
+    if (colors) {
+      colors[i3] = sample.colors![j3];
+      colors[i3 + 1] = sample.colors![j3 + 1];
+      colors[i3 + 2] = sample.colors![j3 + 2];
+    }
+  }
+  return { positions, colors };
+};
+
+// --- Gesture scrub ---
+
+export const MORPH_SCRUB_ID = 'morph-scrub';
+
+// An upright palm shows the current shape; turning it anticlockwise winds the morph
+// back to the previous one. Palm roll is free in the default mapping, so this
+// does not fight scale or position.
+export const createMorphScrubBinding = (): MappingBinding =>
+  createBinding(MappingSource.PALM_ROLL, MappingTarget.MORPH, {
+    id: MORPH_SCRUB_ID,
+    hands: 1,
+    inputMin: 0,
+    inputMax: 1.2,
+    invert: true,
+    smoothing: 0.05
+  });
@@ -0,0 +1,165 @@
+import { COLOR_PRESETS, InteractionData, ParticleShape, ShapeId, TrackedHand, createDefaultInteraction } from '../types';
+import { WRIST, distance2D } from './gestures';
+import { MappingBinding, applyMapping } from './mapping';
+
+// Multi-user mode: two clouds side by side, each following its own hand or its
+// own person, so two visitors no longer fight over one object. Each cloud runs
+// its group of hands through the regular gesture mapping on its own.
+
+export type CloudGrouping = 'hand' | 'person';
+
+export enum CloudInteraction {
+  NONE = 'None',    // clouds pass through each other
+  REPEL = 'Repel',  // clouds push each other away on contact
+  MERGE = 'Merge'   // clouds brought together fuse into one shape until pulled apart
+}
+
+export interface MultiUserSettings {
+  enabled: boolean;
+  grouping: CloudGrouping;
+  interaction: CloudInteraction;
+  shape: ShapeId;  // the second cloud; the first uses the toolbar shape and colour
+  color: string;
+}
+
+export const DEFAULT_MULTI_USER: MultiUserSettings = {
+  enabled: false,
+  grouping: 'hand',
+  interaction: CloudInteraction.NONE,
+  shape: ParticleShape.HEART,
+  color: COLOR_PRESETS[1]
+};
+
+export const CLOUD_COUNT = 2;
+
+// Clouds share the stage, so both are drawn smaller, and each rests on its own side while nobody controls it
+const CLOUD_SCALE = 0.6;
+const CLOUD_HOMES = [{ x: -2.5, y: 0 }, { x: 2.5, y: 0 }];
+
+// Rough radius of a shape at scale 1, for contact tests
+const CLOUD_RADIUS = 3;
+
+// Two hands closer than this (normalized image units) count as one person's
+const PERSON_REACH = 0.5;
+
+const handKey = (hand: TrackedHand) => (hand.id !== undefined ? `#${hand.id}` : hand.handedness);
+
+// 'person': pairs each left hand with the nearest right hand within reach; whatever is left over is on its own
+export const groupHands = (hands: TrackedHand[], grouping: CloudGrouping): TrackedHand[][] => {
+  if (grouping === 'hand') return hands.map((hand) => [hand]);
+
+  const pairs: { left: TrackedHand; right: TrackedHand; distance: number }[] = [];
+  for (const left of hands.filter((hand) => hand.handedness === 'Left')) {
+    for (const right of hands.filter((hand) => hand.handedness === 'Right')) {
+      const distance = distance2D(left.landmarks[WRIST], right.landmarks[WRIST]);
+      if (distance <= PERSON_REACH) pairs.push({ left, right, distance });
+    }
+  }
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const grouped = new Set<TrackedHand>();
+  const groups: TrackedHand[][] = [];
+  for (const { left, right } of pairs) {
+    if (grouped.has(left) || grouped.has(right)) continue;
+    grouped.add(left);
+    grouped.add(right);
+    groups.push([left, right]);
+  }
+  return [...groups, ...hands.filter((hand) => !grouped.has(hand)).map((hand) => [hand])];
+};
+
+// Where cloud `index` rests while nobody controls it
+export const createCloudHome = (index: number): InteractionData => {
+  const data = createDefaultInteraction();
+  data.position = { ...CLOUD_HOMES[index] };
+  data.scale = CLOUD_SCALE;
+  return data;
+};
+
+// Mirrored image x of a group, 0 = left of the preview
+const groupX = (group: TrackedHand[]) => 1 - group.reduce((sum, hand) => sum + hand.landmarks[WRIST].x, 0) / group.length;
+
+export interface MultiUserUpdate {
+  interactions: InteractionData[];  // one per cloud
+  hands: TrackedHand[][];           // the hands controlling each cloud, empty when nobody does
+  merged: boolean;                  // MERGE: the clouds are currently fused
+}
+
+export interface MultiUserController {
+  update: (hands: TrackedHand[], timestamp: number, mapping: MappingBinding[], settings: MultiUserSettings) => MultiUserUpdate;
+  reset: () => void;
+}
+
+export const createMultiUserController = (): MultiUserController => {
+  // Hand keys that controlled each cloud last time, so a cloud sticks with its owner
+  let owners: Set<string>[] = Array.from({ length: CLOUD_COUNT }, () => new Set());
+  let merged = false;
+
+  const assign = (groups: TrackedHand[][]) => {
+    const slots: (TrackedHand[] | null)[] = Array(CLOUD_COUNT).fill(null);
+    const pending = groups.filter((group) => {
+      const slot = owners.findIndex((keys, i) => !slots[i] && group.some((hand) => keys.has(handKey(hand))));
+      if (slot === -1) return true;
+      slots[slot] = group;
+      return false;
+    });
+
+    // Newcomers take the free cloud on their side of the screen if they can
+    for (const group of pending.sort((a, b) => groupX(a) - groupX(b))) {
+      const free = slots.map((slot, i) => (slot ? -1 : i)).filter((i) => i >= 0);
+      if (free.length === 0) break;
+      const side = Math.min(Math.floor(groupX(group) * CLOUD_COUNT), CLOUD_COUNT - 1);
+      slots[free.includes(side) ? side : free[0]] = group;
+    }
+
+    owners = slots.map((group) => new Set(group?.map(handKey) ?? []));
+    return slots;
+  };
+
+  const collide = (interactions: InteractionData[], mode: CloudInteraction) => {
+    const [a, b] = interactions;
+    const dx = b.position.x - a.position.x;
+    const dy = b.position.y - a.position.y;
+    const distance = Math.hypot(dx, dy);
+    const contact = (a.scale + b.scale) * CLOUD_RADIUS;
+
+    if (mode === CloudInteraction.REPEL && distance < contact) {
+      // Each gives way by half the overlap along the line between them
+      const push = (contact - distance) / 2;
+      const nx = distance > 1e-3 ? dx / distance : 1;
+      const ny = distance > 1e-3 ? dy / distance : 0;
+      a.position = { x: a.position.x - nx * push, y: a.position.y - ny * push };
+      b.position = { x: b.position.x + nx * push, y: b.position.y + ny * push };
+    }
+
+    // Fuse when pushed well into each other, separate once clearly apart again
+    merged = mode === CloudInteraction.MERGE && distance < contact * (merged ? 0.8 : 0.5);
+    if (merged) {
+      const center = { x: (a.position.x + b.position.x) / 2, y: (a.position.y + b.position.y) / 2 };
+      const scale = (a.scale + b.scale) / 2;
+      a.position = { ...center };
+      b.position = { ...center };
+      a.scale = scale;
+      b.scale = scale;
+      b.rotation = { ...a.rotation };
+    }
+  };
+
+  return {
+    update: (hands, timestamp, mapping, settings) => {
+      const slots = assign(groupHands(hands, settings.grouping));
+      const interactions = slots.map((group, i) => {
+        const data = group ? applyMapping(mapping, group) : createCloudHome(i);
+        if (group) data.scale *= CLOUD_SCALE;
+        data.timestamp = timestamp;
+        return data;
+      });
+      collide(interactions, settings.interaction);
+      return { interactions, hands: slots.map((group) => group ?? []), merged };
+    },
+    reset: () => {
+      owners = Array.from({ length: CLOUD_COUNT }, () => new Set());
+      merged = false;
+    }
+  };
+};
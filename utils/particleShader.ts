@@ -0,0 +1,253 @@
+import { PALETTE_SIZE } from './colors';
+import { MAX_SHELLS } from './fireworks';
+
+// GPU side of the particle cloud. Every particle carries the position it is
+// morphing from (`position`) and to (`aTarget`); everything that is shared by
+// the whole cloud (morph progress, rotation, scale, translation) is a uniform,
+// so the CPU never touches per-particle data after a shape change.
+// In physics mode the local position comes from the simulation texture instead.
+// Colours follow the same from/to scheme (`aColor` -> `aTargetColor`) so they
+// morph together with the positions. The transition style (see utils/morph.ts)
+// bends each particle's path and timing, using its `aSeed` for variety.
+// The FIREWORKS effect is analytic: each particle's age follows from uTime and its
+// shell's start time, so launch, burst, gravity and fade need no per-frame CPU work.
+// The render style (see utils/renderStyle.ts) picks the sprite drawn for each point,
+// scales points by depth or speed, and blurs points away from the focus into dim discs.
+
+export const particleVertexShader = /* glsl */ `
+  uniform float uMorph;       // 0 = position, 1 = aTarget
+  uniform float uMorphSpeed;  // d(uMorph)/dt, used for velocity colouring while morphing
+  uniform int uMorphStyle;    // see MORPH_STYLE_INDEX
+  uniform vec4 uRotation;     // quaternion (x, y, z, w)
+  uniform float uScale;       // interaction scale * breathing
+  uniform vec2 uOffset;       // interaction translation
+  uniform float uSize;
+  uniform float uViewportScale; // half the drawing buffer height, as in three's PointsMaterial
+  uniform int uSizeMode;      // see SIZE_MODE_INDEX
+  uniform float uSizeAmount;
+  uniform float uFocus;       // focus distance from the cloud centre
+  uniform float uFocusBlur;   // blur per unit away from the focus, 0 = everything sharp
+  uniform float uSimulated;   // 1 = read positions from uPositions
+  uniform sampler2D uPositions;
+  uniform sampler2D uVelocities;
+
+  uniform int uColorMode;     // see COLOR_MODE_INDEX
+  uniform vec3 uColor;
+  uniform vec3 uPalette[${PALETTE_SIZE}];
+  uniform float uColorPhase;  // colour cycling offset, in palette lengths / hue turns
+
+  uniform float uFireworks;   // 0 = static shape, 1 = fully animated fireworks
+  uniform float uTime;        // seconds, same clock as the shell start times
+  uniform vec4 uShells[${MAX_SHELLS}];   // xyz = burst point, w = start time
+  uniform vec4 uOrigins[${MAX_SHELLS}];  // xyz = launch point, w = launch duration
+
+  attribute vec3 aTarget;
+  attribute vec2 aRef;        // this particle's texel in uPositions
+  attribute vec4 aColor;      // rgb = shape-defined colour, a = 1 when the shape defines one
+  attribute vec4 aTargetColor;
+  attribute vec4 aBurst;      // xyz = burst velocity, w = lifetime after the burst
+  attribute float aShell;     // index into uShells / uOrigins
+  attribute float aSeed;      // 0..1, random per particle
+
+  varying vec3 vColor;
+  varying float vAlpha;
+  varying float vBlur;
+
+  vec3 rotateByQuaternion(vec3 v, vec4 q) {
+    return v + 2.0 * cross(q.xyz, cross(q.xyz, v) + q.w * v);
+  }
+
+  // Rotation around the grey axis: a cheap hue shift that keeps brightness
+  vec3 hueShift(vec3 c, float turns) {
+    const vec3 k = vec3(0.57735);
+    float a = turns * 6.2831853;
+    float ca = cos(a);
+    return c * ca + cross(k, c) * sin(a) + k * dot(k, c) * (1.0 - ca);
+  }
+
+  vec3 samplePalette(float t) {
+    t = 1.0 - abs(1.0 - mod(t, 2.0)); // ping-pong, so cycling has no seam
+    float x = t * float(${PALETTE_SIZE - 1});
+    vec3 c = uPalette[0];
+    for (int k = 0; k < ${PALETTE_SIZE - 1}; k++) {
+      c = mix(c, uPalette[k + 1], clamp(x - float(k), 0.0, 1.0));
+    }
+    return c;
+  }
+
+  // Pseudo-random direction per particle
+  vec3 scatter() {
+    return fract(vec3(127.1, 311.7, 74.7) * aSeed) * 2.0 - 1.0;
+  }
+
+  // Simulated speed in physics mode, otherwise how fast the morph carries this particle
+  float particleSpeed() {
+    return uSimulated > 0.5
+      ? length(texture2D(uVelocities, aRef).xyz)
+      : length(aTarget - position) * uMorphSpeed;
+  }
+
+  // This particle's own progress; keep in sync with particleProgress() in morph.ts
+  float particleMorph() {
+    if (uMorphStyle == 3) return smoothstep(0.0, 1.0, clamp((uMorph - aSeed * 0.6) / 0.4, 0.0, 1.0));
+    if (uMorphStyle == 4) return step(0.1 + aSeed * 0.8, uMorph);
+    return uMorph;
+  }
+
+  // Position along the transition path for progress m; fade dims dissolving particles
+  vec3 morphPosition(float m, out float fade) {
+    vec3 p = mix(position, aTarget, m);
+    float arc = sin(3.14159265 * m);  // 0 at both ends, 1 half way
+    fade = 1.0;
+
+    if (uMorphStyle == 1) {
+      // Explode: outwards from the centre, with some spread so the burst is not a perfect shell
+      vec3 dir = normalize(p + scatter() * 2.0 + vec3(0.0, 1e-3, 0.0));
+      p += dir * arc * (1.5 + 2.5 * aSeed);
+    } else if (uMorphStyle == 2) {
+      // Vortex: inner particles spin faster, and the cloud flattens while it turns
+      float a = arc * 6.0 / (1.0 + 0.5 * length(p.xz)) * (0.75 + 0.5 * aSeed);
+      float c = cos(a);
+      float s = sin(a);
+      p = vec3(c * p.x - s * p.z, p.y * (1.0 - 0.5 * arc), s * p.x + c * p.z);
+    } else if (uMorphStyle == 4) {
+      // Dissolve: a brief flicker of noise hides the jump from source to target
+      float flash = exp(-pow((uMorph - 0.1 - aSeed * 0.8) / 0.06, 2.0));
+      p += scatter() * flash * 0.5;
+      fade = 1.0 - 0.9 * flash;
+    }
+    return p;
+  }
+
+  // Local position of this particle in its shell's lifecycle; alpha fades it out
+  vec3 fireworkPosition(out float alpha) {
+    int s = int(aShell);
+    vec4 shell = uShells[s];
+    vec4 origin = uOrigins[s];
+    float t = uTime - shell.w;
+
+    if (t < 0.0) {
+      alpha = 0.0;
+      return shell.xyz;
+    }
+
+    // Rocket: the whole shell rides up as a dim streak, easing out towards the burst point
+    if (t < origin.w) {
+      float k = t / origin.w;
+      k = 1.0 - (1.0 - k) * (1.0 - k);
+      vec3 head = mix(origin.xyz, shell.xyz, k);
+      vec3 up = normalize(shell.xyz - origin.xyz + vec3(0.0, 1e-3, 0.0));
+      alpha = 0.15;
+      return head - up * fract(aBurst.w * 7.31) * 0.4;
+    }
+
+    // Shell: air drag slows the spread, gravity pulls it down, and it fades over its lifetime
+    float tau = t - origin.w;
+    if (tau > aBurst.w) {
+      alpha = 0.0;
+      return shell.xyz;
+    }
+    alpha = pow(clamp(1.0 - tau / aBurst.w, 0.0, 1.0), 1.5);
+    return shell.xyz
+      + aBurst.xyz * (1.0 - exp(-1.5 * tau)) / 1.5
+      - vec3(0.0, 0.6 * tau * tau, 0.0);
+  }
+
+  void main() {
+    float m = particleMorph();
+    float fade = 1.0;
+    vec3 p = uSimulated > 0.5
+      ? texture2D(uPositions, aRef).xyz
+      : morphPosition(m, fade);
+
+    vAlpha = fade;
+    if (uFireworks > 0.0 && uSimulated < 0.5) {
+      float alpha;
+      p = mix(p, fireworkPosition(alpha), uFireworks);
+      vAlpha = mix(fade, alpha, uFireworks);
+    }
+
+    // Colour, from local (untransformed) position so it sticks to the shape
+    if (uColorMode == 0) {
+      vColor = hueShift(uColor, uColorPhase);
+    } else if (uColorMode == 1) {
+      vec4 shapeColor = mix(aColor, aTargetColor, m);
+      vColor = hueShift(mix(uColor, shapeColor.rgb, shapeColor.a), uColorPhase);
+    } else {
+      float t;
+      if (uColorMode == 2) {
+        t = length(p) / 4.5;
+      } else if (uColorMode == 3) {
+        t = (p.y + 3.0) / 6.0;
+      } else {
+        t = particleSpeed() / 4.0;
+      }
+      vColor = samplePalette(clamp(t, 0.0, 1.0) + uColorPhase);
+    }
+
+    p = rotateByQuaternion(p, uRotation) * uScale + vec3(uOffset, 0.0);
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    float depth = -mvPosition.z;
+    float centreDepth = -(modelViewMatrix * vec4(uOffset, 0.0, 1.0)).z;
+    float size = uSize;
+    if (uSizeMode == 1) {
+      size *= clamp(pow(centreDepth / depth, 3.0 * uSizeAmount), 0.2, 5.0);
+    } else if (uSizeMode == 2) {
+      size *= 1.0 + 3.0 * uSizeAmount * clamp(particleSpeed() / 4.0, 0.0, 1.0);
+    }
+
+    // Depth of field: out of focus, the same light spreads over a larger and dimmer disc
+    vBlur = min(abs(depth - centreDepth - uFocus) * uFocusBlur, 3.0);
+    size *= 1.0 + vBlur;
+    vAlpha /= (1.0 + vBlur) * (1.0 + vBlur);
+
+    // Size attenuation, matching PointsMaterial with sizeAttenuation = true
+    gl_PointSize = size * (uViewportScale / depth);
+  }
+`;
+
+export const particleFragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  uniform int uSprite;        // see SPRITE_STYLE_INDEX
+
+  varying vec3 vColor;
+  varying float vAlpha;
+  varying float vBlur;
+
+  // Coverage of this fragment within the point, 0..1
+  float spriteAlpha() {
+    vec2 d = gl_PointCoord * 2.0 - 1.0;
+    float r = length(d);
+    float shape = 1.0;
+    if (uSprite == 1) {
+      shape = 1.0 - smoothstep(0.5, 1.0, r);
+    } else if (uSprite == 2) {
+      // Wide halo plus a bright core
+      shape = exp(-6.0 * r * r) + 0.6 * exp(-40.0 * r * r);
+    } else if (uSprite == 3) {
+      vec2 a = abs(d);
+      float rays = exp(-30.0 * a.x) * (1.0 - a.y) + exp(-30.0 * a.y) * (1.0 - a.x);
+      shape = exp(-30.0 * r * r) + 0.8 * rays;
+    }
+    // Out of focus, every sprite turns into a flat disc
+    float disc = 1.0 - smoothstep(0.8, 1.0, r);
+    return min(mix(shape, disc, clamp(vBlur, 0.0, 1.0)), 1.0);
+  }
+
+  void main() {
+    float sprite = spriteAlpha();
+    #ifdef OPAQUE
+      // No blending: the sprite becomes a cut-out, fading goes towards black, and what would be invisible is dropped
+      if (sprite < 0.5 || vAlpha < 0.05) discard;
+      gl_FragColor = vec4(vColor * uOpacity * vAlpha, 1.0);
+    #else
+      gl_FragColor = vec4(vColor, uOpacity * vAlpha * sprite);
+    #endif
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { Attractor } from '../types';
+import { MAX_ATTRACTORS, positionShader, velocityShader } from './simulationShaders';
+
+export interface SimulationSettings {
+  enabled: boolean;
+  spring: number;       // pull towards the shape, 1/s^2
+  damping: number;      // velocity decay, 1/s
+  turbulence: number;   // curl-noise strength
+  handForce: number;    // attractor / repeller strength
+  handRadius: number;   // scene units
+}
+
+export const DEFAULT_SIMULATION: SimulationSettings = {
+  enabled: false,
+  spring: 6.0,
+  damping: 2.5,
+  turbulence: 0.6,
+  handForce: 40.0,
+  handRadius: 1.2
+};
+
+// Turbulence and hand force are the sliders' ranges; the others have no slider and
+// are bounded so the integration stays stable
+export const SIMULATION_RANGES: Record<Exclude<keyof SimulationSettings, 'enabled'>, { min: number; max: number }> = {
+  spring: { min: 0.5, max: 20 },
+  damping: { min: 0, max: 10 },
+  turbulence: { min: 0, max: 3 },
+  handForce: { min: 0, max: 100 },
+  handRadius: { min: 0.2, max: 5 }
+};
+
+export interface ParticleSimulation {
+  size: number;  // the state textures are size x size
+  step: (delta: number, time: number, settings: SimulationSettings, attractors: Attractor[]) => void;
+  setTargets: (positions: Float32Array) => void;
+  readPositions: (out: Float32Array) => void;
+  getPositionTexture: () => THREE.Texture;
+  getVelocityTexture: () => THREE.Texture;
+  dispose: () => void;
+}
+
+// Texture coordinate of each particle's texel in the simulation state
+export const createSimulationRefs = (count: number): Float32Array => {
+  const size = Math.ceil(Math.sqrt(count));
+  const refs = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    refs[i * 2] = ((i % size) + 0.5) / size;
+    refs[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+  }
+  return refs;
+};
+
+const fillTexture = (texture: THREE.DataTexture, positions: Float32Array) => {
+  const data = texture.image.data as Float32Array;
+  const count = positions.length / 3;
+  for (let i = 0; i < count; i++) {
+    data[i * 4] = positions[i * 3];
+    data[i * 4 + 1] = positions[i * 3 + 1];
+    data[i * 4 + 2] = positions[i * 3 + 2];
+    data[i * 4 + 3] = 1;
+  }
+  texture.needsUpdate = true;
+};
+
+// GPU particle physics: velocity + spring-to-target + damping + curl noise + hand forces.
+// `attractors` are given in local particle space (see Particles for the conversion).
+export const createParticleSimulation = (
+  gl: THREE.WebGLRenderer,
+  initialPositions: Float32Array,
+  targetPositions: Float32Array
+): ParticleSimulation => {
+  const count = initialPositions.length / 3;
+  const size = Math.ceil(Math.sqrt(count));
+  const gpu = new GPUComputationRenderer(size, size, gl);
+
+  const positionTexture = gpu.createTexture();
+  const velocityTexture = gpu.createTexture();
+  const targetsTexture = gpu.createTexture();
+  fillTexture(positionTexture, initialPositions);
+  fillTexture(targetsTexture, targetPositions);
+
+  const positionVar: Variable = gpu.addVariable('texturePosition', positionShader, positionTexture);
+  const velocityVar: Variable = gpu.addVariable('textureVelocity', velocityShader, velocityTexture);
+  gpu.setVariableDependencies(positionVar, [positionVar, velocityVar]);
+  gpu.setVariableDependencies(velocityVar, [positionVar, velocityVar]);
+
+  const attractorUniforms = Array.from({ length: MAX_ATTRACTORS }, () => new THREE.Vector4());
+  Object.assign(velocityVar.material.uniforms, {
+    uDelta: { value: 0 },
+    uTime: { value: 0 },
+    uSpring: { value: DEFAULT_SIMULATION.spring },
+    uDamping: { value: DEFAULT_SIMULATION.damping },
+    uTurbulence: { value: DEFAULT_SIMULATION.turbulence },
+    uAttractorRadius: { value: DEFAULT_SIMULATION.handRadius },
+    uTargets: { value: targetsTexture },
+    uAttractors: { value: attractorUniforms },
+    uAttractorCount: { value: 0 }
+  });
+  positionVar.material.uniforms.uDelta = { value: 0 };
+
+  const error = gpu.init();
+  if (error !== null) {
+    console.error("Particle simulation init failed:", error);
+  }
+
+  return {
+    size,
+    step: (delta, time, settings, attractors) => {
+      // Large steps (tab switch, hitch) would make the springs explode
+      const dt = Math.min(delta, 1 / 30);
+      const uniforms = velocityVar.material.uniforms;
+      uniforms.uDelta.value = dt;
+      uniforms.uTime.value = time;
+      uniforms.uSpring.value = settings.spring;
+      uniforms.uDamping.value = settings.damping;
+      uniforms.uTurbulence.value = settings.turbulence;
+      uniforms.uAttractorRadius.value = settings.handRadius;
+
+      const n = Math.min(attractors.length, MAX_ATTRACTORS);
+      for (let i = 0; i < n; i++) {
+        const { position, strength } = attractors[i];
+        attractorUniforms[i].set(position.x, position.y, position.z, strength * settings.handForce);
+      }
+      uniforms.uAttractorCount.value = n;
+      positionVar.material.uniforms.uDelta.value = dt;
+
+      gpu.compute();
+    },
+    setTargets: (positions) => {
+      fillTexture(targetsTexture, positions);
+    },
+    readPositions: (out) => {
+      const buffer = new Float32Array(size * size * 4);
+      gl.readRenderTargetPixels(gpu.getCurrentRenderTarget(positionVar), 0, 0, size, size, buffer);
+      const n = Math.min(out.length / 3, count);
+      for (let i = 0; i < n; i++) {
+        out[i * 3] = buffer[i * 4];
+        out[i * 3 + 1] = buffer[i * 4 + 1];
+        out[i * 3 + 2] = buffer[i * 4 + 2];
+      }
+    },
+    getPositionTexture: () => gpu.getCurrentRenderTarget(positionVar).texture,
+    getVelocityTexture: () => gpu.getCurrentRenderTarget(velocityVar).texture,
+    dispose: () => {
+      gpu.dispose();
+      positionTexture.dispose();
+      velocityTexture.dispose();
+      targetsTexture.dispose();
+    }
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { FrameStats, GOVERNOR_INTERVAL, QUALITY_TIERS, QualityLevel, createPerformanceGovernor, effectiveTargetFps, scaleParticleCount } from './performance';
+
+const stats = (fps: number, refreshFps = 0): FrameStats => ({ fps, frameMs: 1000 / fps, cpuMs: 2, refreshFps });
+
+// Feeds the same stats for `ms`, the way App polls the governor, and returns where it ends up
+const run = (frame: FrameStats, targetFps: number, ms = 10000, initial = QualityLevel.ULTRA) => {
+  const governor = createPerformanceGovernor(initial);
+  const start = performance.now();
+  let level = initial;
+  for (let t = 0; t <= ms; t += GOVERNOR_INTERVAL) level = governor.update(frame, targetFps, start + t);
+  return level;
+};
+
+describe('scaleParticleCount', () => {
+  it('draws the share of the configured count the tier allows', () => {
+    expect(scaleParticleCount(100000, QUALITY_TIERS[QualityLevel.ULTRA])).toBe(100000);
+    expect(scaleParticleCount(100000, QUALITY_TIERS[QualityLevel.LOW])).toBe(25000);
+    expect(scaleParticleCount(5000, QUALITY_TIERS[QualityLevel.MINIMAL])).toBe(1000);
+    expect(scaleParticleCount(500, QUALITY_TIERS[QualityLevel.MINIMAL])).toBe(500);
+  });
+
+  it('shares one budget between two clouds', () => {
+    for (const tier of Object.values(QUALITY_TIERS)) {
+      for (const count of [1500, 5000, 100000]) {
+        expect(scaleParticleCount(count, tier, 2) * 2).toBe(scaleParticleCount(count, tier));
+      }
+    }
+  });
+});
+
+describe('effectiveTargetFps', () => {
+  it('caps the target at the refresh rate of the display', () => {
+    expect(effectiveTargetFps(60, stats(50, 50))).toBe(50);
+    expect(effectiveTargetFps(60, stats(30, 30))).toBe(30);
+    expect(effectiveTargetFps(60, stats(59, 59.94))).toBe(60);
+    expect(effectiveTargetFps(60, stats(120, 120))).toBe(60);
+  });
+
+  it('keeps the target until the refresh rate is known', () => {
+    expect(effectiveTargetFps(60, stats(50))).toBe(60);
+  });
+});
+
+describe('createPerformanceGovernor', () => {
+  it('stays put on a 50 Hz display running at its refresh rate', () => {
+    expect(run(stats(50, 50), 60)).toBe(QualityLevel.ULTRA);
+  });
+
+  it('stays put when the browser caps animation at 30 fps', () => {
+    expect(run(stats(30, 30), 60)).toBe(QualityLevel.ULTRA);
+  });
+
+  it('steps down when frames fall short of what the display can show', () => {
+    expect(run(stats(35, 50), 60)).not.toBe(QualityLevel.ULTRA);
+    expect(run(stats(35, 60), 60)).not.toBe(QualityLevel.ULTRA);
+  });
+
+  it('steps back up once frames keep up again', () => {
+    expect(run(stats(50, 50), 60, 12000, QualityLevel.LOW)).toBe(QualityLevel.MEDIUM);
+  });
+});
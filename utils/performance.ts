@@ -0,0 +1,236 @@
+import { addAfterEffect, addEffect } from '@react-three/fiber';
+import { readStorage, writeStorage } from './storage';
+import { RenderStyle } from './renderStyle';
+
+// Quality tiers and the governor that steps through them. Every tier trades
+// the same knobs: how many of the configured particles are drawn, the pixel
+// ratio, the star field, how often hands are detected, whether particles
+// blend additively (many overlapping transparent points are what fills up a
+// tablet's GPU first) and whether the render style's effects stay on.
+
+export enum QualityLevel {
+  ULTRA = 'Ultra',
+  HIGH = 'High',
+  MEDIUM = 'Medium',
+  LOW = 'Low',
+  MINIMAL = 'Minimal'
+}
+
+export interface QualityTier {
+  particles: number;      // share of the configured particle count
+  dpr: number;            // highest device pixel ratio to render at
+  stars: number;          // background stars
+  detectionRate: number;  // upper bound on hand detections per second; 0 = whatever is configured
+  additive: boolean;      // additive blending; otherwise opaque points with depth testing
+  effects: boolean;       // trails, bloom and depth of field; see utils/renderStyle.ts
+}
+
+// Best first; the governor moves one step at a time. ULTRA is how the scene always looked.
+export const QUALITY_LEVELS: QualityLevel[] = [
+  QualityLevel.ULTRA,
+  QualityLevel.HIGH,
+  QualityLevel.MEDIUM,
+  QualityLevel.LOW,
+  QualityLevel.MINIMAL
+];
+
+export const QUALITY_TIERS: Record<QualityLevel, QualityTier> = {
+  [QualityLevel.ULTRA]: { particles: 1, dpr: 2, stars: 2000, detectionRate: 0, additive: true, effects: true },
+  [QualityLevel.HIGH]: { particles: 1, dpr: 1.5, stars: 2000, detectionRate: 30, additive: true, effects: true },
+  [QualityLevel.MEDIUM]: { particles: 0.5, dpr: 1, stars: 1000, detectionRate: 30, additive: true, effects: true },
+  [QualityLevel.LOW]: { particles: 0.25, dpr: 0.75, stars: 400, detectionRate: 15, additive: false, effects: false },
+  [QualityLevel.MINIMAL]: { particles: 0.1, dpr: 0.5, stars: 0, detectionRate: 10, additive: false, effects: false }
+};
+
+// Fewer than this no longer reads as a shape
+const MIN_PARTICLES = 1000;
+
+// Per cloud: the tier's budget covers everything on screen and is shared evenly between the clouds
+export const scaleParticleCount = (count: number, tier: QualityTier, clouds = 1) =>
+  Math.round(Math.min(count, Math.max(MIN_PARTICLES, count * tier.particles)) / clouds);
+
+// Below 1 on purpose for the lowest tiers: the canvas is upscaled by the browser
+export const resolveDpr = (tier: QualityTier) => Math.min(window.devicePixelRatio || 1, tier.dpr);
+
+export const capDetectionRate = (configured: number, tier: QualityTier) => {
+  if (tier.detectionRate === 0) return configured;
+  return configured === 0 ? tier.detectionRate : Math.min(configured, tier.detectionRate);
+};
+
+// Sprites and size modes are cheap and stay; the full-screen passes and enlarged out-of-focus points do not
+export const limitRenderStyle = (style: RenderStyle, tier: QualityTier): RenderStyle =>
+  tier.effects ? style : { ...style, trails: 0, bloom: 0, depthOfField: 0 };
+
+export interface PerformanceSettings {
+  auto: boolean;          // the governor picks the tier; otherwise `level` is fixed
+  level: QualityLevel;    // the manual tier, and where the governor starts (it remembers where a device settled)
+  targetFps: number;
+  showStats: boolean;
+}
+
+export const TARGET_FPS_OPTIONS = [30, 45, 60];
+
+export const DEFAULT_PERFORMANCE: PerformanceSettings = {
+  auto: true,
+  level: QualityLevel.ULTRA,
+  targetFps: 60,
+  showStats: false
+};
+
+// Per device rather than per scene, so it is neither part of presets nor of share links
+const PERFORMANCE_KEY = 'gesture-particles/performance';
+
+export const loadPerformanceSettings = (): PerformanceSettings => {
+  const stored = readStorage(PERFORMANCE_KEY) as Partial<PerformanceSettings> | null;
+  return {
+    auto: typeof stored?.auto === 'boolean' ? stored.auto : DEFAULT_PERFORMANCE.auto,
+    level: QUALITY_LEVELS.includes(stored?.level as QualityLevel) ? (stored!.level as QualityLevel) : DEFAULT_PERFORMANCE.level,
+    targetFps: TARGET_FPS_OPTIONS.includes(stored?.targetFps as number) ? (stored!.targetFps as number) : DEFAULT_PERFORMANCE.targetFps,
+    showStats: typeof stored?.showStats === 'boolean' ? stored.showStats : DEFAULT_PERFORMANCE.showStats
+  };
+};
+
+export const storePerformanceSettings = (settings: PerformanceSettings) => writeStorage(PERFORMANCE_KEY, settings);
+
+// --- Frame monitor ---
+
+export interface FrameStats {
+  fps: number;      // rendered frames over the last second
+  frameMs: number;  // mean time between frames over the same window
+  cpuMs: number;    // mean main-thread time of a frame: scene updates plus issuing the draw calls
+  refreshFps: number;  // the display's refresh rate as far as it has shown; 0 until measured
+}
+
+// Gaps longer than this are a hidden tab or a debugger, not slow rendering
+const MAX_FRAME_GAP = 500;
+// No display refreshes faster; shorter gaps are two callbacks within one display frame
+const MIN_REFRESH_INTERVAL = 1000 / 360;
+
+// Rolling one-second window over the r3f render loop, fed by its global before/after hooks.
+// The refresh rate comes from the shortest gap between animation frame timestamps, which
+// are aligned to the display: a frame that took longer than one refresh still lands on
+// a multiple of it, so slow frames never make the display look slower than it is.
+export const createFrameMonitor = () => {
+  let entries: { t: number; interval: number; cpu: number }[] = [];
+  let frameStart = 0;
+  let lastFrame = 0;
+  let lastTimestamp = 0;
+  let refreshInterval = Infinity;
+  let cleanup: (() => void) | null = null;
+
+  const before = () => {
+    frameStart = performance.now();
+  };
+
+  const after = (timestamp: number) => {
+    const now = performance.now();
+    const interval = now - lastFrame;
+    lastFrame = now;
+    const refresh = timestamp - lastTimestamp;
+    lastTimestamp = timestamp;
+    if (refresh >= MIN_REFRESH_INTERVAL) refreshInterval = Math.min(refreshInterval, refresh);
+    if (interval > MAX_FRAME_GAP) return;
+    entries.push({ t: now, interval, cpu: now - frameStart });
+    entries = entries.filter((entry) => now - entry.t <= 1000);
+  };
+
+  return {
+    start: () => {
+      if (cleanup) return;
+      const removeBefore = addEffect(before);
+      const removeAfter = addAfterEffect(after);
+      cleanup = () => {
+        removeBefore();
+        removeAfter();
+      };
+    },
+    stop: () => {
+      cleanup?.();
+      cleanup = null;
+      entries = [];
+      lastFrame = 0;
+      // The window may be on another display by the next start
+      lastTimestamp = 0;
+      refreshInterval = Infinity;
+    },
+    read: (now = performance.now()): FrameStats => {
+      const recent = entries.filter((entry) => now - entry.t <= 1000);
+      const refreshFps = Number.isFinite(refreshInterval) ? 1000 / refreshInterval : 0;
+      if (recent.length === 0) return { fps: 0, frameMs: 0, cpuMs: 0, refreshFps };
+      const mean = (key: 'interval' | 'cpu') => recent.reduce((sum, entry) => sum + entry[key], 0) / recent.length;
+      return { fps: recent.length, frameMs: mean('interval'), cpuMs: mean('cpu'), refreshFps };
+    }
+  };
+};
+
+export type FrameMonitor = ReturnType<typeof createFrameMonitor>;
+
+// A 50 Hz display or a browser capping animation at 30 fps can never reach a target of 60;
+// holding it to what the display can show keeps the governor from stepping down for nothing.
+export const effectiveTargetFps = (targetFps: number, stats: FrameStats) =>
+  stats.refreshFps > 0 ? Math.min(targetFps, Math.round(stats.refreshFps)) : targetFps;
+
+// --- Governor ---
+
+// Below DOWNGRADE_RATIO of the target for DOWNGRADE_AFTER ms drops a tier. At the
+// target for a while tries the next tier up; with vsync there is no way to see
+// headroom, so an upgrade that does not hold is undone and the next try waits twice as long.
+const DOWNGRADE_RATIO = 0.85;
+const UPGRADE_RATIO = 0.95;
+const DOWNGRADE_AFTER = 2000;
+const UPGRADE_AFTER = 8000;
+const MAX_UPGRADE_AFTER = 120000;
+const FAILED_UPGRADE_WINDOW = 10000;
+// Rebuilding particle buffers and recompiling shaders stutters; do not judge a tier by that
+const SETTLE_TIME = 1500;
+
+export const GOVERNOR_INTERVAL = 500;
+
+export const createPerformanceGovernor = (initial: QualityLevel) => {
+  let index = QUALITY_LEVELS.indexOf(initial);
+  let belowSince: number | null = null;
+  let aboveSince: number | null = null;
+  let settleUntil = performance.now() + SETTLE_TIME;
+  let upgradeAfter = UPGRADE_AFTER;
+  let lastUpgrade = -Infinity;
+
+  const moveTo = (next: number, now: number) => {
+    index = next;
+    belowSince = null;
+    aboveSince = null;
+    settleUntil = now + SETTLE_TIME;
+  };
+
+  return {
+    update: (stats: FrameStats, targetFps: number, now = performance.now()): QualityLevel => {
+      if (now < settleUntil || stats.fps === 0) return QUALITY_LEVELS[index];
+      const target = effectiveTargetFps(targetFps, stats);
+
+      if (stats.fps < target * DOWNGRADE_RATIO) {
+        aboveSince = null;
+        belowSince ??= now;
+        if (now - belowSince >= DOWNGRADE_AFTER && index < QUALITY_LEVELS.length - 1) {
+          if (now - lastUpgrade < FAILED_UPGRADE_WINDOW) upgradeAfter = Math.min(upgradeAfter * 2, MAX_UPGRADE_AFTER);
+          moveTo(index + 1, now);
+        }
+      } else if (stats.fps >= target * UPGRADE_RATIO) {
+        belowSince = null;
+        aboveSince ??= now;
+        if (now - aboveSince >= upgradeAfter && index > 0) {
+          lastUpgrade = now;
+          moveTo(index - 1, now);
+        }
+      } else {
+        belowSince = null;
+        aboveSince = null;
+      }
+      return QUALITY_LEVELS[index];
+    },
+    // Holds still for a moment, e.g. while a recording pauses the render loop
+    hold: (now = performance.now()) => {
+      belowSince = null;
+      aboveSince = null;
+      settleUntil = Math.max(settleUntil, now + SETTLE_TIME);
+    }
+  };
+};
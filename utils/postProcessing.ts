@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { DEFAULT_RENDER_STYLE, RenderStyle, trailDamping } from './renderStyle';
+
+// Full-screen passes over the rendered frame: trails keep a fading copy of the
+// previous frames (an accumulation buffer), bloom adds a glow around bright areas.
+// The scene renders into a linear half-float target, so tone mapping and the sRGB
+// conversion happen once, in the output pass.
+export const createPostProcessing = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) => {
+  const composer = new EffectComposer(renderer);
+  // Sizes below are drawing buffer pixels, which already include the pixel ratio
+  composer.setPixelRatio(1);
+
+  const trails = new AfterimagePass(0);
+  const bloom = new UnrealBloomPass(new THREE.Vector2(1, 1), 0, 0, 0);
+  const output = new OutputPass();
+  composer.addPass(new RenderPass(scene, camera));
+  composer.addPass(trails);
+  composer.addPass(bloom);
+  composer.addPass(output);
+
+  let style = DEFAULT_RENDER_STYLE;
+  const bufferSize = new THREE.Vector2();
+  const composerSize = new THREE.Vector2();
+
+  return {
+    setStyle: (next: RenderStyle) => {
+      style = next;
+      trails.enabled = next.trails > 0;
+      bloom.enabled = next.bloom > 0;
+      bloom.strength = next.bloom;
+      bloom.radius = next.bloomRadius;
+      bloom.threshold = next.bloomThreshold;
+    },
+    // Follows the drawing buffer, including the temporary resizes of a screenshot
+    render: (delta: number) => {
+      renderer.getDrawingBufferSize(bufferSize);
+      if (!bufferSize.equals(composerSize)) {
+        composer.setSize(bufferSize.x, bufferSize.y);
+        composerSize.copy(bufferSize);
+      }
+      trails.damp = trailDamping(style.trails, delta);
+      composer.render(delta);
+    },
+    dispose: () => {
+      trails.dispose();
+      bloom.dispose();
+      output.dispose();
+      composer.dispose();
+    }
+  };
+};
+
+export type PostProcessing = ReturnType<typeof createPostProcessing>;
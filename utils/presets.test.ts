@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ParticleShape } from '../types';
+import { TEXT_SHAPE_ID } from '../shapes';
+import { SIMULATION_RANGES } from './particleSimulation';
+import { DEFAULT_SCENE_CONFIG, createPreset, loadLastConfig, loadSavedPresets, parsePreset, parseSceneConfig, serializePreset } from './presets';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('parseSceneConfig', () => {
+  it('keeps a valid configuration as it is', () => {
+    expect(parseSceneConfig(JSON.parse(JSON.stringify(DEFAULT_SCENE_CONFIG)))).toEqual(DEFAULT_SCENE_CONFIG);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => parseSceneConfig('galaxy')).toThrow('not an object');
+    expect(() => parseSceneConfig(null)).toThrow('not an object');
+  });
+
+  it('clamps hand tracking to what the settings offer', () => {
+    const { handTracking } = parseSceneConfig({
+      handTracking: { numHands: 40, minHandDetectionConfidence: 7, minHandPresenceConfidence: -1, minTrackingConfidence: 0.3, detectionRate: 1000 }
+    });
+    expect(handTracking).toEqual({
+      numHands: DEFAULT_SCENE_CONFIG.handTracking.numHands,
+      minHandDetectionConfidence: 0.9,
+      minHandPresenceConfidence: 0.1,
+      minTrackingConfidence: 0.3,
+      detectionRate: DEFAULT_SCENE_CONFIG.handTracking.detectionRate
+    });
+  });
+
+  it('clamps the simulation, filter and render style', () => {
+    const config = parseSceneConfig({
+      simulation: { enabled: true, spring: 1e9, damping: -3, turbulence: 2, handForce: 1e6, handRadius: 0 },
+      handFilter: { minCutoff: 0, beta: 50, graceMs: 1e7 },
+      renderStyle: { trails: 1, bloom: 99, focus: -100 }
+    });
+    expect(config.simulation).toEqual({
+      enabled: true,
+      spring: SIMULATION_RANGES.spring.max,
+      damping: 0,
+      turbulence: 2,
+      handForce: 100,
+      handRadius: SIMULATION_RANGES.handRadius.min
+    });
+    expect(config.handFilter).toMatchObject({ minCutoff: 0.1, beta: 10, graceMs: 1000 });
+    expect(config.renderStyle).toMatchObject({ trails: 0.95, bloom: 3, focus: -4 });
+  });
+
+  it('clamps shape parameters to their sliders and drops unknown ones', () => {
+    const { shapeParams } = parseSceneConfig({
+      shapeParams: {
+        [ParticleShape.GALAXY]: { turns: 100, tightness: 'tight', arms: 4 },
+        [ParticleShape.FLOWER]: { k: -5 },
+        [TEXT_SHAPE_ID]: { thickness: 9 },
+        Image: { threshold: 0.5 },
+        Unknown: { size: 1 }
+      }
+    });
+    expect(shapeParams).toEqual({
+      [ParticleShape.GALAXY]: { turns: 6 },
+      [ParticleShape.FLOWER]: { k: 1 },
+      [TEXT_SHAPE_ID]: { thickness: 2 }
+    });
+  });
+
+  it('falls back to known options for the camera format and audio', () => {
+    const config = parseSceneConfig({
+      camera: { width: 123, height: 456, frameRate: 1000 },
+      audio: { scale: 4, beatsPerShape: 5 }
+    });
+    expect(config.camera).toEqual(DEFAULT_SCENE_CONFIG.camera);
+    expect(config.audio).toMatchObject({ scale: 1, beatsPerShape: 0 });
+  });
+
+  it('falls back to the default for an unknown second-cloud shape', () => {
+    const shape = (multiUser: unknown, text?: string) => parseSceneConfig({ multiUser, text }).multiUser.shape;
+    expect(shape({ shape: ParticleShape.SATURN })).toBe(ParticleShape.SATURN);
+    expect(shape({ shape: 'image:upload' })).toBe(DEFAULT_SCENE_CONFIG.multiUser.shape);
+    expect(shape({ shape: TEXT_SHAPE_ID })).toBe(DEFAULT_SCENE_CONFIG.multiUser.shape);
+    expect(shape({ shape: TEXT_SHAPE_ID }, 'HELLO')).toBe(TEXT_SHAPE_ID);
+  });
+});
+
+describe('parsePreset', () => {
+  it('round-trips a preset file', () => {
+    const preset = createPreset('Mine', DEFAULT_SCENE_CONFIG);
+    const parsed = parsePreset(serializePreset(preset));
+    expect(parsed.name).toBe('Mine');
+    expect(parsed.config).toEqual(DEFAULT_SCENE_CONFIG);
+    expect(parsed.id).not.toBe(preset.id);
+  });
+
+  it('gives an unnamed import a translated name and keeps user text as it is', () => {
+    const file = (name: unknown) => JSON.stringify({ ...JSON.parse(serializePreset(createPreset('', DEFAULT_SCENE_CONFIG))), name });
+    expect(parsePreset(file(''))).toMatchObject({ name: '', nameKey: 'presets.imported' });
+    expect(parsePreset(file('presets.imported')).nameKey).toBeUndefined();
+    expect(parsePreset(file('presets.imported')).name).toBe('presets.imported');
+  });
+
+  it('rejects files that are not presets', () => {
+    expect(() => parsePreset('{"format":"gesture-particles/hand-session"}')).toThrow('Not a preset file');
+  });
+});
+
+describe('loadSavedPresets', () => {
+  it('keeps the translated name of an unnamed import and nothing else', () => {
+    const stored = [
+      { id: 'a', name: '', nameKey: 'presets.imported', config: DEFAULT_SCENE_CONFIG },
+      { id: 'b', name: 'Mine', nameKey: 'presets.builtin.galaxy', config: DEFAULT_SCENE_CONFIG }
+    ];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    const [imported, mine] = loadSavedPresets();
+    expect(imported.nameKey).toBe('presets.imported');
+    expect(mine).not.toHaveProperty('nameKey');
+    expect(mine.name).toBe('Mine');
+  });
+});
+
+describe('loadLastConfig', () => {
+  it('ignores a corrupted saved scene', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', { getItem: () => '"not a scene"' });
+    expect(loadLastConfig()).toBeNull();
+  });
+});
@@ -0,0 +1,396 @@
+import { ParticleShape, ShapeId, ShapeParams, DEFAULT_PARTICLE_COUNT, PARTICLE_COUNT_OPTIONS } from '../types';
+import {
+  CONFIDENCE_RANGE,
+  DEFAULT_HAND_TRACKING,
+  DETECTION_RATE_OPTIONS,
+  HandTrackingOptions,
+  NUM_HANDS_OPTIONS
+} from '../inputs/handLandmarker';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS, CameraSettings, DEFAULT_CAMERA } from '../inputs/camera';
+import { CYCLE_SPEED_RANGE, ColorMode, ColorStyle, DEFAULT_COLOR_STYLE, PALETTES } from './colors';
+import { DEFAULT_SIMULATION, SIMULATION_RANGES, SimulationSettings } from './particleSimulation';
+import { DEFAULT_FILTER, DropoutMode, FILTER_RANGES, FilterSettings, SmoothingMode } from './handFilter';
+import { AudioMapping, BEATS_PER_SHAPE_OPTIONS, DEFAULT_AUDIO_MAPPING } from '../inputs/audio';
+import { DEFAULT_MAPPING, MappingBinding, parseMapping } from './mapping';
+import { DEFAULT_MORPH, MORPH_DURATION_RANGE, MorphSettings, MorphStyle } from './morph';
+import {
+  DEFAULT_RENDER_STYLE,
+  FOCUS_RANGE,
+  MAX_BLOOM,
+  MAX_DEPTH_OF_FIELD,
+  MAX_TRAILS,
+  RenderStyle,
+  SizeMode,
+  SpriteStyle
+} from './renderStyle';
+import { CameraMode, DEFAULT_VIEW, TOUR_SPEED_RANGE, TourPath, ViewSettings } from './cameraRig';
+import { Easing } from './timeline';
+import { CloudGrouping, CloudInteraction, DEFAULT_MULTI_USER, MultiUserSettings } from './multiUser';
+import { TEXT_SHAPE_ID, createTextShape, getShape } from '../shapes';
+import { downloadBlob, timestampedName } from './download';
+import { readStorage, writeStorage } from './storage';
+import { MessageKey } from '../i18n';
+
+// Scene configuration as saved in localStorage, preset files and share links.
+// Bump PRESET_VERSION whenever SceneConfig changes incompatibly and keep
+// parseSceneConfig able to read every older version.
+export const PRESET_FORMAT = 'gesture-particles/preset';
+export const PRESET_VERSION = 1;
+
+const PRESETS_KEY = 'gesture-particles/presets';
+const LAST_CONFIG_KEY = 'gesture-particles/last-config';
+const HASH_PARAM = 'scene';
+
+// Everything that makes up a look. Camera device ids differ per browser profile,
+// so only the capture format travels; image and model shapes cannot be stored.
+export interface SceneConfig {
+  shape: ShapeId;
+  text: string | null;  // source of the text shape, when that is the current shape
+  shapeParams: Record<ShapeId, ShapeParams>;
+  color: string;
+  colorStyle: ColorStyle;
+  morph: MorphSettings;
+  renderStyle: RenderStyle;
+  view: ViewSettings;  // camera mode; saved viewpoints stay with the device
+  particleCount: number;
+  simulation: SimulationSettings;
+  handTracking: HandTrackingOptions;
+  handFilter: FilterSettings;
+  camera: Omit<CameraSettings, 'deviceId'>;
+  audio: AudioMapping;
+  mapping: MappingBinding[];  // gesture -> parameter bindings
+  multiUser: MultiUserSettings;
+}
+
+export interface Preset {
+  id: string;
+  name: string;         // the user's text, shown as is
+  nameKey?: MessageKey;  // built-in and unnamed imported presets: a translated name instead
+  createdAt: string;
+  config: SceneConfig;
+}
+
+interface PresetFile {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  name: string;
+  createdAt: string;
+  config: SceneConfig;
+}
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  shape: ParticleShape.GALAXY,
+  text: null,
+  shapeParams: {},
+  color: '#4ecdc4',
+  colorStyle: DEFAULT_COLOR_STYLE,
+  morph: DEFAULT_MORPH,
+  renderStyle: DEFAULT_RENDER_STYLE,
+  view: DEFAULT_VIEW,
+  particleCount: DEFAULT_PARTICLE_COUNT,
+  simulation: DEFAULT_SIMULATION,
+  handTracking: DEFAULT_HAND_TRACKING,
+  handFilter: DEFAULT_FILTER,
+  camera: { width: DEFAULT_CAMERA.width, height: DEFAULT_CAMERA.height, frameRate: DEFAULT_CAMERA.frameRate },
+  audio: DEFAULT_AUDIO_MAPPING,
+  mapping: DEFAULT_MAPPING,
+  multiUser: DEFAULT_MULTI_USER
+};
+
+const builtIn = (id: string, nameKey: MessageKey, config: Partial<SceneConfig>): Preset => ({
+  id: `builtin:${id}`,
+  name: '',
+  nameKey,
+  createdAt: '',
+  config: { ...DEFAULT_SCENE_CONFIG, ...config }
+});
+
+export const BUILTIN_PRESETS: Preset[] = [
+  builtIn('galaxy', 'presets.builtin.galaxy', {}),
+  builtIn('heart', 'presets.builtin.heart', {
+    shape: ParticleShape.HEART,
+    color: '#ff6b6b',
+    colorStyle: { mode: ColorMode.RADIUS, paletteId: 'fire', cycleSpeed: 0 },
+    particleCount: 20000
+  }),
+  builtIn('saturn', 'presets.builtin.saturn', {
+    shape: ParticleShape.SATURN,
+    colorStyle: { mode: ColorMode.HEIGHT, paletteId: 'ocean', cycleSpeed: 0.5 },
+    renderStyle: { ...DEFAULT_RENDER_STYLE, sizeMode: SizeMode.DEPTH, depthOfField: 0.3 },
+    particleCount: 50000
+  }),
+  builtIn('flower', 'presets.builtin.flower', {
+    shape: ParticleShape.FLOWER,
+    colorStyle: { mode: ColorMode.VELOCITY, paletteId: 'candy', cycleSpeed: 0 },
+    particleCount: 50000,
+    simulation: { ...DEFAULT_SIMULATION, enabled: true, turbulence: 1.2 }
+  }),
+  builtIn('fireworks', 'presets.builtin.fireworks', {
+    shape: ParticleShape.FIREWORKS,
+    colorStyle: { mode: ColorMode.SHAPE, paletteId: DEFAULT_COLOR_STYLE.paletteId, cycleSpeed: 0 },
+    renderStyle: { ...DEFAULT_RENDER_STYLE, sprite: SpriteStyle.SPARKLE, trails: 0.85, bloom: 1.2 },
+    particleCount: 100000
+  })
+];
+
+export const isBuiltInPreset = (preset: Preset) => preset.id.startsWith('builtin:');
+
+export const createPreset = (name: string, config: SceneConfig): Preset => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  createdAt: new Date().toISOString(),
+  config
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Known keys whose type matches the default; anything missing or malformed keeps the default.
+// Older or hand-edited files therefore load with sensible values instead of failing.
+const pick = <T extends object>(defaults: T, value: unknown): T => {
+  const result = { ...defaults };
+  if (!isObject(value)) return result;
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const v = value[key];
+    if (typeof v === typeof defaults[key] && (typeof v !== 'number' || Number.isFinite(v))) {
+      result[key] = v as T[keyof T & string];
+    }
+  }
+  return result;
+};
+
+const oneOf = <T extends string | number>(options: readonly T[], value: T, fallback: T): T =>
+  options.includes(value) ? value : fallback;
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+const UNIT_RANGE: Range = { min: 0, max: 1 };
+
+const clamp = (value: number, { min, max }: Range) => Math.min(Math.max(value, min), max);
+
+// The text shape is only registered once there is text, but its sliders are always the same
+const paramSchema = (shape: ShapeId) => (shape === TEXT_SHAPE_ID ? createTextShape('') : getShape(shape))?.params;
+
+// Only the sliders a shape has, each within its slider's range; shapes without sliders
+// here (unknown ones, or uploads that cannot be stored) are dropped
+const parseShapeParams = (value: unknown): Record<ShapeId, ShapeParams> => {
+  if (!isObject(value)) return {};
+  const all: Record<ShapeId, ShapeParams> = {};
+  for (const [shape, params] of Object.entries(value)) {
+    const schema = paramSchema(shape);
+    if (!schema || !isObject(params)) continue;
+    const parsed: ShapeParams = {};
+    schema.forEach((param) => {
+      const v = params[param.key];
+      if (typeof v === 'number' && Number.isFinite(v)) parsed[param.key] = clamp(v, param);
+    });
+    all[shape] = parsed;
+  }
+  return all;
+};
+
+// Every numeric field clamped to the range the UI offers for it, so a hand-edited file or
+// link cannot push values into the simulation and shaders that no slider could reach
+const clampAll = <T extends object>(values: T, ranges: Partial<Record<keyof T, Range>>): T => {
+  const result = { ...values };
+  for (const key of Object.keys(ranges) as (keyof T)[]) {
+    result[key] = clamp(values[key] as number, ranges[key]!) as T[keyof T];
+  }
+  return result;
+};
+
+export const parseSceneConfig = (value: unknown): SceneConfig => {
+  if (!isObject(value)) throw new Error('Scene configuration is not an object');
+  const defaults = DEFAULT_SCENE_CONFIG;
+  const text = typeof value.text === 'string' ? value.text : null;
+  const colorStyle = pick(defaults.colorStyle, value.colorStyle);
+  const handTracking = pick(defaults.handTracking, value.handTracking);
+  const handFilter = pick(defaults.handFilter, value.handFilter);
+  const morph = pick(defaults.morph, value.morph);
+  const renderStyle = pick(defaults.renderStyle, value.renderStyle);
+  const view = pick(defaults.view, value.view);
+  const camera = pick(defaults.camera, value.camera);
+  const audio = pick(defaults.audio, value.audio);
+  const multiUser = pick(defaults.multiUser, value.multiUser);
+  const resolution = CAMERA_RESOLUTIONS.find(({ width, height }) => width === camera.width && height === camera.height);
+
+  return {
+    shape: typeof value.shape === 'string' ? value.shape : defaults.shape,
+    text,
+    shapeParams: parseShapeParams(value.shapeParams),
+    color: typeof value.color === 'string' && /^#[0-9a-f]{6}$/i.test(value.color) ? value.color : defaults.color,
+    colorStyle: {
+      mode: oneOf(Object.values(ColorMode), colorStyle.mode, defaults.colorStyle.mode),
+      paletteId: oneOf(PALETTES.map(({ id }) => id), colorStyle.paletteId, defaults.colorStyle.paletteId),
+      cycleSpeed: clamp(colorStyle.cycleSpeed, CYCLE_SPEED_RANGE)
+    },
+    morph: {
+      style: oneOf(Object.values(MorphStyle), morph.style, defaults.morph.style),
+      duration: clamp(morph.duration, MORPH_DURATION_RANGE),
+      easing: oneOf(Object.values(Easing), morph.easing, defaults.morph.easing)
+    },
+    renderStyle: {
+      ...clampAll(renderStyle, {
+        sizeAmount: UNIT_RANGE,
+        // Trails at 1 would never fade
+        trails: { min: 0, max: MAX_TRAILS },
+        bloom: { min: 0, max: MAX_BLOOM },
+        bloomRadius: UNIT_RANGE,
+        bloomThreshold: UNIT_RANGE,
+        depthOfField: { min: 0, max: MAX_DEPTH_OF_FIELD },
+        focus: FOCUS_RANGE
+      }),
+      sprite: oneOf(Object.values(SpriteStyle), renderStyle.sprite, defaults.renderStyle.sprite),
+      sizeMode: oneOf(Object.values(SizeMode), renderStyle.sizeMode, defaults.renderStyle.sizeMode)
+    },
+    view: {
+      mode: oneOf(Object.values(CameraMode), view.mode, defaults.view.mode),
+      tourPath: oneOf(Object.values(TourPath), view.tourPath, defaults.view.tourPath),
+      tourSpeed: clamp(view.tourSpeed, TOUR_SPEED_RANGE)
+    },
+    particleCount: PARTICLE_COUNT_OPTIONS.includes(value.particleCount as number) ? value.particleCount as number : defaults.particleCount,
+    simulation: clampAll(pick(defaults.simulation, value.simulation), SIMULATION_RANGES),
+    handTracking: {
+      numHands: oneOf(NUM_HANDS_OPTIONS, handTracking.numHands, defaults.handTracking.numHands),
+      minHandDetectionConfidence: clamp(handTracking.minHandDetectionConfidence, CONFIDENCE_RANGE),
+      minHandPresenceConfidence: clamp(handTracking.minHandPresenceConfidence, CONFIDENCE_RANGE),
+      minTrackingConfidence: clamp(handTracking.minTrackingConfidence, CONFIDENCE_RANGE),
+      detectionRate: oneOf(DETECTION_RATE_OPTIONS, handTracking.detectionRate, defaults.handTracking.detectionRate)
+    },
+    handFilter: {
+      ...clampAll(handFilter, FILTER_RANGES),
+      smoothing: oneOf(Object.values(SmoothingMode), handFilter.smoothing, defaults.handFilter.smoothing),
+      dropout: oneOf<DropoutMode>(['hold', 'ease'], handFilter.dropout, defaults.handFilter.dropout)
+    },
+    camera: {
+      ...(resolution ? { width: resolution.width, height: resolution.height } : { width: defaults.camera.width, height: defaults.camera.height }),
+      frameRate: oneOf(CAMERA_FRAME_RATES, camera.frameRate, defaults.camera.frameRate)
+    },
+    audio: {
+      ...clampAll(audio, { scale: UNIT_RANGE, breathing: UNIT_RANGE, turbulence: UNIT_RANGE, color: UNIT_RANGE }),
+      beatsPerShape: oneOf(BEATS_PER_SHAPE_OPTIONS, audio.beatsPerShape, defaults.audio.beatsPerShape)
+    },
+    mapping: parseMapping(value.mapping),
+    multiUser: {
+      ...multiUser,
+      grouping: oneOf<CloudGrouping>(['hand', 'person'], multiUser.grouping, defaults.multiUser.grouping),
+      interaction: oneOf(Object.values(CloudInteraction), multiUser.interaction, defaults.multiUser.interaction),
+      // Only the text shape can be rebuilt from a configuration; image and model shapes are gone
+      shape: getShape(multiUser.shape) || (multiUser.shape === TEXT_SHAPE_ID && text !== null) ? multiUser.shape : defaults.multiUser.shape,
+      color: /^#[0-9a-f]{6}$/i.test(multiUser.color) ? multiUser.color : defaults.multiUser.color
+    }
+  };
+};
+
+export const serializePreset = (preset: Preset): string => {
+  const file: PresetFile = {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name: preset.name,
+    createdAt: preset.createdAt,
+    config: preset.config
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// The one translated name a saved preset can have
+const IMPORTED_NAME: MessageKey = 'presets.imported';
+
+// Imported presets get a fresh id so they never clash with saved ones
+export const parsePreset = (text: string): Preset => {
+  const file = JSON.parse(text) as Partial<PresetFile>;
+
+  if (file.format !== PRESET_FORMAT) {
+    throw new Error('Not a preset file');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_VERSION) {
+    throw new Error(`Unsupported preset version: ${file.version}`);
+  }
+
+  const name = typeof file.name === 'string' ? file.name : '';
+  return {
+    ...createPreset(name, parseSceneConfig(file.config)),
+    ...(name ? {} : { nameKey: IMPORTED_NAME }),
+    createdAt: file.createdAt ?? new Date().toISOString()
+  };
+};
+
+export const downloadPreset = (preset: Preset) => {
+  const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+  downloadBlob(blob, timestampedName('preset', 'json'));
+};
+
+export const loadSavedPresets = (): Preset[] => {
+  const stored = readStorage(PRESETS_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((preset): Preset[] => {
+    try {
+      if (!isObject(preset) || typeof preset.id !== 'string') return [];
+      return [{
+        id: preset.id,
+        name: typeof preset.name === 'string' ? preset.name : '',
+        ...(preset.nameKey === IMPORTED_NAME ? { nameKey: IMPORTED_NAME } : {}),
+        createdAt: typeof preset.createdAt === 'string' ? preset.createdAt : '',
+        config: parseSceneConfig(preset.config)
+      }];
+    } catch (error) {
+      console.error("Skipping invalid saved preset:", error);
+      return [];
+    }
+  });
+};
+
+export const storeSavedPresets = (presets: Preset[]) => writeStorage(PRESETS_KEY, presets);
+
+// A corrupted entry must not keep the app from starting
+export const loadLastConfig = (): SceneConfig | null => {
+  const stored = readStorage(LAST_CONFIG_KEY);
+  if (!stored) return null;
+  try {
+    return parseSceneConfig(stored);
+  } catch (error) {
+    console.error("Ignoring invalid saved scene:", error);
+    return null;
+  }
+};
+
+export const storeLastConfig = (config: SceneConfig) => writeStorage(LAST_CONFIG_KEY, config);
+
+// Share links carry the configuration as base64url-encoded UTF-8 JSON in the hash,
+// so nothing is sent to a server and links work on any static host
+const encodeBase64Url = (text: string) => {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const createShareUrl = (config: SceneConfig) => {
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_PARAM}=${encodeBase64Url(JSON.stringify(config))}`;
+  return url.toString();
+};
+
+export const readShareHash = (hash = window.location.hash): SceneConfig | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
+  if (!encoded) return null;
+  try {
+    return parseSceneConfig(JSON.parse(decodeBase64Url(encoded)));
+  } catch (error) {
+    console.error("Invalid shared scene link:", error);
+    return null;
+  }
+};
+
+// Once applied, the link has done its job; later edits should not be overridden by it on reload
+export const clearShareHash = () => {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+};
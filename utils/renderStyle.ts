@@ -0,0 +1,73 @@
+// How particles are drawn. Sprite shape, size modulation and depth of field are
+// per-particle and live in the particle shader; trails and bloom are full-screen
+// passes over the rendered frame (see utils/postProcessing.ts).
+
+export enum SpriteStyle {
+  SQUARE = 'Square',    // plain GL points, the original look
+  SOFT = 'Soft',        // round with a soft edge
+  GLOW = 'Glow',        // bright core fading into a wide halo
+  SPARKLE = 'Sparkle'   // small core with four rays
+}
+
+// Shader-side index of each sprite, see particleShader
+export const SPRITE_STYLE_INDEX: Record<SpriteStyle, number> = {
+  [SpriteStyle.SQUARE]: 0,
+  [SpriteStyle.SOFT]: 1,
+  [SpriteStyle.GLOW]: 2,
+  [SpriteStyle.SPARKLE]: 3
+};
+
+// Halos and rays need room around the core; points are drawn this much larger so the core keeps its size
+export const SPRITE_SIZE: Record<SpriteStyle, number> = {
+  [SpriteStyle.SQUARE]: 1,
+  [SpriteStyle.SOFT]: 1.2,
+  [SpriteStyle.GLOW]: 2.5,
+  [SpriteStyle.SPARKLE]: 3
+};
+
+export enum SizeMode {
+  UNIFORM = 'Uniform',    // perspective only
+  DEPTH = 'Depth',        // exaggerated perspective: near particles grow, far ones shrink
+  VELOCITY = 'Velocity'   // fast particles grow (morphs and physics mode)
+}
+
+export const SIZE_MODE_INDEX: Record<SizeMode, number> = {
+  [SizeMode.UNIFORM]: 0,
+  [SizeMode.DEPTH]: 1,
+  [SizeMode.VELOCITY]: 2
+};
+
+export interface RenderStyle {
+  sprite: SpriteStyle;
+  sizeMode: SizeMode;
+  sizeAmount: number;      // 0..1, how strongly the size mode applies
+  trails: number;          // 0..1, share of the previous frame still visible after 1/60 s; 0 = off
+  bloom: number;           // glow strength, 0 = off
+  bloomRadius: number;     // 0..1, how far the glow spreads
+  bloomThreshold: number;  // 0..1, brightness below which nothing glows
+  depthOfField: number;    // blur per scene unit away from the focus, 0 = off
+  focus: number;           // focus distance from the cloud centre, in scene units; negative is nearer
+}
+
+export const DEFAULT_RENDER_STYLE: RenderStyle = {
+  sprite: SpriteStyle.SOFT,
+  sizeMode: SizeMode.UNIFORM,
+  sizeAmount: 0.5,
+  trails: 0,
+  bloom: 0,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.2,
+  depthOfField: 0,
+  focus: 0
+};
+
+export const MAX_TRAILS = 0.95;
+export const MAX_BLOOM = 3;
+export const MAX_DEPTH_OF_FIELD = 1;
+export const FOCUS_RANGE = { min: -4, max: 4 };
+
+// Whether the style needs the full-screen passes at all; without them r3f renders the scene directly
+export const usesPostProcessing = (style: RenderStyle) => style.trails > 0 || style.bloom > 0;
+
+// Trails fade per frame; scaling the per-frame factor by the frame time keeps their length in seconds
+export const trailDamping = (trails: number, delta: number) => Math.pow(trails, Math.max(delta, 0) * 60);
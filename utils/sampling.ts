@@ -0,0 +1,246 @@
+import * as THREE from 'three';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+import { ShapeSample } from '../types';
+
+// Width (scene units) that text and images are fitted into; matches the visible area at z=0
+const FIT_WIDTH = 8;
+const FIT_HEIGHT = 5;
+// Radius meshes are normalized to, similar to the parametric shapes
+const FIT_RADIUS = 3.5;
+
+interface PixelPoint {
+  px: number;
+  py: number;
+  weight: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+const pickWeighted = (points: PixelPoint[], count: number): PixelPoint[] => {
+  const cumulative = new Float32Array(points.length);
+  let total = 0;
+  points.forEach((p, i) => {
+    total += p.weight;
+    cumulative[i] = total;
+  });
+
+  const picked: PixelPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const r = Math.random() * total;
+    // Binary search the cumulative weights
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < r) lo = mid + 1;
+      else hi = mid;
+    }
+    picked.push(points[lo]);
+  }
+  return picked;
+};
+
+// Turns lit canvas pixels into particle positions centered on the origin
+const samplePixels = (
+  canvas: HTMLCanvasElement,
+  count: number,
+  weightOf: (r: number, g: number, b: number, a: number) => number,
+  depth: (p: PixelPoint) => number,
+  withColors: boolean
+): ShapeSample => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const positions = new Float32Array(count * 3);
+  if (!ctx) return { positions };
+
+  const { width, height } = canvas;
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  const points: PixelPoint[] = [];
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const o = (py * width + px) * 4;
+      const weight = weightOf(data[o], data[o + 1], data[o + 2], data[o + 3]);
+      if (weight > 0) {
+        points.push({ px, py, weight, r: data[o], g: data[o + 1], b: data[o + 2] });
+      }
+    }
+  }
+  if (points.length === 0) return { positions };
+
+  const unit = Math.min(FIT_WIDTH / width, FIT_HEIGHT / height);
+  const colors = withColors ? new Float32Array(count * 3) : undefined;
+  const color = new THREE.Color();
+
+  pickWeighted(points, count).forEach((p, i) => {
+    const i3 = i * 3;
+    // Jitter within the pixel so particles do not stack on a grid
+    positions[i3] = (p.px + Math.random() - width / 2) * unit;
+    positions[i3 + 1] = -(p.py + Math.random() - height / 2) * unit;
+    positions[i3 + 2] = depth(p);
+
+    if (colors) {
+      color.setRGB(p.r / 255, p.g / 255, p.b / 255, THREE.SRGBColorSpace);
+      colors[i3] = color.r;
+      colors[i3 + 1] = color.g;
+      colors[i3 + 2] = color.b;
+    }
+  });
+
+  return { positions, colors };
+};
+
+export const sampleText = (text: string, count: number, thickness: number): ShapeSample => {
+  const fontSize = 160;
+  const font = `bold ${fontSize}px "PingFang SC", "Microsoft YaHei", sans-serif`;
+  const lines = text.split('\n');
+
+  const measure = document.createElement('canvas').getContext('2d');
+  if (!measure) return { positions: new Float32Array(count * 3) };
+  measure.font = font;
+  const textWidth = Math.max(1, ...lines.map((line) => measure.measureText(line).width));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(textWidth + fontSize * 0.5);
+  canvas.height = Math.ceil(lines.length * fontSize * 1.2 + fontSize * 0.3);
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { positions: new Float32Array(count * 3) };
+  ctx.font = font;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, canvas.width / 2, (i + 0.5) * fontSize * 1.2 + fontSize * 0.15);
+  });
+
+  return samplePixels(
+    canvas,
+    count,
+    (_r, _g, _b, a) => (a > 128 ? 1 : 0),
+    () => (Math.random() - 0.5) * thickness,
+    false
+  );
+};
+
+export const loadImage = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Could not decode image ${file.name}`));
+  };
+  image.src = url;
+});
+
+// Brighter pixels attract more particles; brightness also pushes them towards the camera
+export const sampleImage = (
+  image: HTMLImageElement,
+  count: number,
+  threshold: number,
+  relief: number
+): ShapeSample => {
+  const maxSide = 256;
+  const ratio = Math.min(1, maxSide / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * ratio));
+  canvas.height = Math.max(1, Math.round(image.height * ratio));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { positions: new Float32Array(count * 3) };
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const brightness = (r: number, g: number, b: number, a: number) =>
+    ((0.2126 * r + 0.7152 * g + 0.0722 * b) / 255) * (a / 255);
+
+  return samplePixels(
+    canvas,
+    count,
+    (r, g, b, a) => {
+      const l = brightness(r, g, b, a);
+      return l > threshold ? l : 0;
+    },
+    (p) => (brightness(p.r, p.g, p.b, 255) - 0.5) * relief + (Math.random() - 0.5) * 0.1,
+    true
+  );
+};
+
+// Points on the surfaces of every mesh in `root`, spread by area and fitted to FIT_RADIUS.
+// Point clouds (e.g. a PLY without faces) are sampled from their vertices instead.
+// Throws if `root` has neither.
+export const sampleObject = (root: THREE.Object3D, count: number): ShapeSample => {
+  root.updateMatrixWorld(true);
+
+  const meshes: { sampler: MeshSurfaceSampler; matrix: THREE.Matrix4; area: number; hasColor: boolean }[] = [];
+  const clouds: { geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 }[] = [];
+
+  root.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      const geometry = (object.geometry as THREE.BufferGeometry).index
+        ? (object.geometry as THREE.BufferGeometry).toNonIndexed()
+        : object.geometry as THREE.BufferGeometry;
+      const sampler = new MeshSurfaceSampler(new THREE.Mesh(geometry)).build();
+      const distribution = sampler.distribution;
+      const area = distribution ? distribution[distribution.length - 1] : 0;
+      if (area > 0) {
+        meshes.push({ sampler, matrix: object.matrixWorld, area, hasColor: !!geometry.attributes.color });
+      }
+    } else if (object instanceof THREE.Points) {
+      const geometry = object.geometry as THREE.BufferGeometry;
+      if (geometry.attributes.position?.count > 0) {
+        clouds.push({ geometry, matrix: object.matrixWorld });
+      }
+    }
+  });
+
+  if (meshes.length === 0 && clouds.length === 0) {
+    throw new Error('Model has no surfaces or points to sample');
+  }
+
+  const positions = new Float32Array(count * 3);
+  const colorsFound = meshes.some((m) => m.hasColor) || clouds.some((c) => !!c.geometry.attributes.color);
+  const colors = colorsFound ? new Float32Array(count * 3).fill(1) : undefined;
+  const point = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const color = new THREE.Color(1, 1, 1);
+
+  const totalArea = meshes.reduce((sum, m) => sum + m.area, 0);
+
+  for (let i = 0; i < count; i++) {
+    color.setRGB(1, 1, 1);
+
+    if (meshes.length > 0) {
+      let r = Math.random() * totalArea;
+      const mesh = meshes.find((m) => (r -= m.area) <= 0) ?? meshes[meshes.length - 1];
+      mesh.sampler.sample(point, normal, color);
+      point.applyMatrix4(mesh.matrix);
+    } else {
+      const cloud = clouds[Math.floor(Math.random() * clouds.length)];
+      const position = cloud.geometry.attributes.position;
+      const v = Math.floor(Math.random() * position.count);
+      point.fromBufferAttribute(position, v).applyMatrix4(cloud.matrix);
+      const colorAttr = cloud.geometry.attributes.color;
+      if (colorAttr) color.fromBufferAttribute(colorAttr, v);
+    }
+
+    point.toArray(positions, i * 3);
+    if (colors) color.toArray(colors, i * 3);
+  }
+
+  // Center and fit
+  const box = new THREE.Box3().setFromArray(positions);
+  const center = box.getCenter(new THREE.Vector3());
+  const radius = box.getBoundingSphere(new THREE.Sphere()).radius || 1;
+  const scale = FIT_RADIUS / radius;
+  for (let i = 0; i < positions.length; i += 3) {
+    positions[i] = (positions[i] - center.x) * scale;
+    positions[i + 1] = (positions[i + 1] - center.y) * scale;
+    positions[i + 2] = (positions[i + 2] - center.z) * scale;
+  }
+
+  return { positions, colors };
+};
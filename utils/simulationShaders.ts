@@ -0,0 +1,152 @@
+// Compute shaders for the physics mode, run through three's GPUComputationRenderer.
+// Both work in the cloud's local (untransformed) space; hand attractors are
+// converted into that space on the CPU before every step.
+
+export const MAX_ATTRACTORS = 12;
+
+// 3D simplex noise by Ashima Arts / Stefan Gustavson (MIT), plus a curl built on it
+const noiseChunk = /* glsl */ `
+  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec4 permute(vec4 x) { return mod289(((x * 34.0) + 1.0) * x); }
+  vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+  float snoise(vec3 v) {
+    const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+    const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+    vec3 i = floor(v + dot(v, C.yyy));
+    vec3 x0 = v - i + dot(i, C.xxx);
+
+    vec3 g = step(x0.yzx, x0.xyz);
+    vec3 l = 1.0 - g;
+    vec3 i1 = min(g.xyz, l.zxy);
+    vec3 i2 = max(g.xyz, l.zxy);
+
+    vec3 x1 = x0 - i1 + C.xxx;
+    vec3 x2 = x0 - i2 + C.yyy;
+    vec3 x3 = x0 - D.yyy;
+
+    i = mod289(i);
+    vec4 p = permute(permute(permute(
+              i.z + vec4(0.0, i1.z, i2.z, 1.0))
+            + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+            + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+    float n_ = 0.142857142857;
+    vec3 ns = n_ * D.wyz - D.xzx;
+
+    vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+
+    vec4 x_ = floor(j * ns.z);
+    vec4 y_ = floor(j - 7.0 * x_);
+
+    vec4 x = x_ * ns.x + ns.yyyy;
+    vec4 y = y_ * ns.x + ns.yyyy;
+    vec4 h = 1.0 - abs(x) - abs(y);
+
+    vec4 b0 = vec4(x.xy, y.xy);
+    vec4 b1 = vec4(x.zw, y.zw);
+
+    vec4 s0 = floor(b0) * 2.0 + 1.0;
+    vec4 s1 = floor(b1) * 2.0 + 1.0;
+    vec4 sh = -step(h, vec4(0.0));
+
+    vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+    vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+    vec3 p0 = vec3(a0.xy, h.x);
+    vec3 p1 = vec3(a0.zw, h.y);
+    vec3 p2 = vec3(a1.xy, h.z);
+    vec3 p3 = vec3(a1.zw, h.w);
+
+    vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+    p0 *= norm.x;
+    p1 *= norm.y;
+    p2 *= norm.z;
+    p3 *= norm.w;
+
+    vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+    m = m * m;
+    return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+  }
+
+  // Three decorrelated noise fields treated as a vector potential
+  vec3 noiseVec(vec3 p) {
+    return vec3(
+      snoise(p),
+      snoise(p + vec3(31.416, -47.853, 12.793)),
+      snoise(p + vec3(-233.145, -113.408, -185.31))
+    );
+  }
+
+  // Divergence-free flow: particles swirl instead of clumping
+  vec3 curlNoise(vec3 p) {
+    const float e = 0.1;
+    vec3 dx = vec3(e, 0.0, 0.0);
+    vec3 dy = vec3(0.0, e, 0.0);
+    vec3 dz = vec3(0.0, 0.0, e);
+
+    vec3 px0 = noiseVec(p - dx); vec3 px1 = noiseVec(p + dx);
+    vec3 py0 = noiseVec(p - dy); vec3 py1 = noiseVec(p + dy);
+    vec3 pz0 = noiseVec(p - dz); vec3 pz1 = noiseVec(p + dz);
+
+    float x = (py1.z - py0.z) - (pz1.y - pz0.y);
+    float y = (pz1.x - pz0.x) - (px1.z - px0.z);
+    float z = (px1.y - px0.y) - (py1.x - py0.x);
+    return vec3(x, y, z) / (2.0 * e);
+  }
+`;
+
+export const velocityShader = /* glsl */ `
+  uniform float uDelta;
+  uniform float uTime;
+  uniform float uSpring;
+  uniform float uDamping;
+  uniform float uTurbulence;
+  uniform float uAttractorRadius;
+  uniform sampler2D uTargets;
+  uniform vec4 uAttractors[${MAX_ATTRACTORS}]; // xyz = local position, w = strength (< 0 repels)
+  uniform int uAttractorCount;
+
+  ${noiseChunk}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    vec3 target = texture2D(uTargets, uv).xyz;
+
+    // Spring back to the shape
+    vec3 force = (target - pos) * uSpring;
+
+    // Turbulence
+    force += curlNoise(pos * 0.35 + vec3(0.0, 0.0, uTime * 0.15)) * uTurbulence;
+
+    // Hands: gaussian falloff so only nearby particles feel them
+    float r2 = uAttractorRadius * uAttractorRadius;
+    for (int i = 0; i < ${MAX_ATTRACTORS}; i++) {
+      if (i >= uAttractorCount) break;
+      vec3 d = uAttractors[i].xyz - pos;
+      float dist2 = dot(d, d);
+      force += d * inversesqrt(dist2 + 0.01) * uAttractors[i].w * exp(-dist2 / r2);
+    }
+
+    vel += force * uDelta;
+    vel *= exp(-uDamping * uDelta);
+
+    gl_FragColor = vec4(vel, 1.0);
+  }
+`;
+
+export const positionShader = /* glsl */ `
+  uniform float uDelta;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+
+    gl_FragColor = vec4(pos + vel * uDelta, 1.0);
+  }
+`;
@@ -0,0 +1,18 @@
+// localStorage can be full, disabled or hold data from an older build: never let that break the app
+export const readStorage = (key: string): unknown => {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error(`Could not read ${key}:`, error);
+    return null;
+  }
+};
+
+export const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not write ${key}:`, error);
+  }
+};
@@ -0,0 +1,228 @@
+import { COLOR_PRESETS, InteractionData, ParticleShape, ShapeId, createDefaultInteraction } from '../types';
+import { lerpInteraction } from './interpolation';
+import { readStorage, writeStorage } from './storage';
+
+// Choreography: a looping list of keyframes that switch shape and colour and
+// move the cloud, driving the same state the toolbar sets by hand.
+
+export enum Easing {
+  LINEAR = 'Linear',
+  EASE_IN = 'EaseIn',
+  EASE_OUT = 'EaseOut',
+  EASE_IN_OUT = 'EaseInOut',
+  HOLD = 'Hold'  // jump when the keyframe is reached
+}
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+  [Easing.LINEAR]: (t) => t,
+  [Easing.EASE_IN]: (t) => t * t,
+  [Easing.EASE_OUT]: (t) => t * (2 - t),
+  [Easing.EASE_IN_OUT]: (t) => t * t * (3 - 2 * t),
+  [Easing.HOLD]: () => 0
+};
+
+export const ease = (easing: Easing, t: number) => EASINGS[easing](t);
+
+export interface TimelineKeyframe {
+  time: number;           // seconds from the start of the timeline
+  shape: ShapeId;
+  color: string;
+  transform: InteractionData;
+  morphDuration: number;  // seconds the shape morph takes when this keyframe is reached
+  easing: Easing;         // how the transform travels from the previous keyframe to this one
+}
+
+export interface Timeline {
+  duration: number;  // >= the last keyframe; the tail eases back to the first keyframe when looping
+  keyframes: TimelineKeyframe[];
+}
+
+// Keyframe shape changes are slower than the snappy manual switch, to read as a show
+export const KEYFRAME_MORPH_DURATION = 1.5;
+
+const TIMELINE_KEY = 'gesture-particles/timeline';
+const ATTRACT_KEY = 'gesture-particles/attract';
+
+const frame = (
+  time: number,
+  shape: ShapeId,
+  color: string,
+  transform: Partial<InteractionData>
+): TimelineKeyframe => ({
+  time,
+  shape,
+  color,
+  transform: { ...createDefaultInteraction(), ...transform },
+  morphDuration: KEYFRAME_MORPH_DURATION,
+  easing: Easing.EASE_IN_OUT
+});
+
+// Tour of the built-in shapes, used for attract mode until someone edits the timeline
+export const DEFAULT_TIMELINE: Timeline = {
+  duration: 40,
+  keyframes: [
+    frame(0, ParticleShape.GALAXY, COLOR_PRESETS[2], {}),
+    frame(8, ParticleShape.HEART, COLOR_PRESETS[1], { scale: 1.3, rotation: { x: 0, y: 0.4, z: 0 } }),
+    frame(16, ParticleShape.FLOWER, COLOR_PRESETS[4], { scale: 1.1, rotation: { x: -0.4, y: 0, z: 0.2 } }),
+    frame(24, ParticleShape.SATURN, COLOR_PRESETS[3], { scale: 1.2, rotation: { x: 0.3, y: -0.5, z: -0.3 } }),
+    frame(32, ParticleShape.FIREWORKS, COLOR_PRESETS[0], { scale: 0.9 })
+  ]
+};
+
+export interface TimelineSample {
+  index: number;  // keyframe whose shape and colour are showing
+  transform: InteractionData;
+}
+
+export const sampleTimeline = (timeline: Timeline, time: number, loop: boolean): TimelineSample => {
+  const { keyframes } = timeline;
+  let index = 0;
+  while (index + 1 < keyframes.length && keyframes[index + 1].time <= time) index++;
+
+  const current = keyframes[index];
+  const wraps = loop && index === keyframes.length - 1;
+  const next = wraps ? keyframes[0] : keyframes[index + 1];
+  if (!next || time <= current.time) return { index, transform: current.transform };
+
+  const end = wraps ? timeline.duration : next.time;
+  const t = Math.min((time - current.time) / Math.max(end - current.time, 1e-3), 1);
+  return { index, transform: lerpInteraction(current.transform, next.transform, ease(next.easing, t)) };
+};
+
+export interface TimelinePlayerCallbacks {
+  onKeyframe: (keyframe: TimelineKeyframe) => void;  // shape / colour / morph of the keyframe that took over
+  onTransform: (data: InteractionData) => void;      // every frame while playing, and on seek
+  onPlayingChange: (playing: boolean) => void;
+}
+
+export interface TimelinePlayer {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+  setTimeline: (timeline: Timeline) => void;
+  isPlaying: () => boolean;
+  getTime: () => number;
+  start: (callbacks: TimelinePlayerCallbacks) => void;
+  stop: () => void;
+}
+
+export const createTimelinePlayer = (initialTimeline: Timeline = DEFAULT_TIMELINE): TimelinePlayer => {
+  let timeline = initialTimeline;
+  let callbacks: TimelinePlayerCallbacks | null = null;
+  let requestId = 0;
+  let playing = false;
+  let loop = true;
+  let time = 0;
+  let lastTick = 0;
+  let lastIndex = -1;
+
+  const setPlaying = (next: boolean) => {
+    if (next === playing) return;
+    playing = next;
+    callbacks?.onPlayingChange(playing);
+  };
+
+  const emit = (force = false) => {
+    if (timeline.keyframes.length === 0) return;
+    const sample = sampleTimeline(timeline, time, loop);
+    if (sample.index !== lastIndex || force) {
+      lastIndex = sample.index;
+      callbacks?.onKeyframe(timeline.keyframes[sample.index]);
+    }
+    callbacks?.onTransform(sample.transform);
+  };
+
+  const tick = (now: number) => {
+    requestId = requestAnimationFrame(tick);
+    if (!playing) return;
+
+    time += (now - lastTick) / 1000;
+    lastTick = now;
+    if (time >= timeline.duration) {
+      if (loop) {
+        time %= Math.max(timeline.duration, 1e-3);
+      } else {
+        time = timeline.duration;
+        setPlaying(false);
+      }
+    }
+    emit();
+  };
+
+  return {
+    play: () => {
+      if (playing || timeline.keyframes.length === 0) return;
+      if (time >= timeline.duration) time = 0;
+      setPlaying(true);
+      lastTick = performance.now();
+      emit(true);
+    },
+    pause: () => {
+      setPlaying(false);
+    },
+    seek: (next) => {
+      time = Math.min(Math.max(next, 0), timeline.duration);
+      lastTick = performance.now();
+      emit();
+    },
+    setLoop: (next) => {
+      loop = next;
+    },
+    setTimeline: (next) => {
+      timeline = next;
+      time = Math.min(time, timeline.duration);
+      lastIndex = -1;
+      if (playing) emit();
+    },
+    isPlaying: () => playing,
+    getTime: () => time,
+    start: (cb) => {
+      callbacks = cb;
+      requestId = requestAnimationFrame(tick);
+    },
+    stop: () => {
+      callbacks = null;
+      playing = false;
+      cancelAnimationFrame(requestId);
+    }
+  };
+};
+
+const isKeyframe = (value: unknown): value is TimelineKeyframe => {
+  const k = value as TimelineKeyframe;
+  return typeof k === 'object' && k !== null
+    && typeof k.time === 'number' && typeof k.shape === 'string' && typeof k.color === 'string'
+    && typeof k.morphDuration === 'number' && Object.values(Easing).includes(k.easing)
+    && typeof k.transform?.scale === 'number';
+};
+
+export const loadTimeline = (): Timeline => {
+  const stored = readStorage(TIMELINE_KEY) as Partial<Timeline> | null;
+  if (!stored || typeof stored.duration !== 'number' || !Array.isArray(stored.keyframes) || !stored.keyframes.every(isKeyframe)) {
+    return DEFAULT_TIMELINE;
+  }
+  return { duration: stored.duration, keyframes: stored.keyframes };
+};
+
+export const storeTimeline = (timeline: Timeline) => writeStorage(TIMELINE_KEY, timeline);
+
+// Attract mode: play the timeline on an unattended display once nobody has been in view for `delay` seconds
+export interface AttractSettings {
+  enabled: boolean;
+  delay: number;
+}
+
+export const ATTRACT_DELAY_OPTIONS = [5, 15, 30, 60];
+
+export const DEFAULT_ATTRACT: AttractSettings = { enabled: false, delay: 15 };
+
+export const loadAttractSettings = (): AttractSettings => {
+  const stored = readStorage(ATTRACT_KEY) as Partial<AttractSettings> | null;
+  return {
+    enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : DEFAULT_ATTRACT.enabled,
+    delay: typeof stored?.delay === 'number' ? stored.delay : DEFAULT_ATTRACT.delay
+  };
+};
+
+export const storeAttractSettings = (settings: AttractSettings) => writeStorage(ATTRACT_KEY, settings);
@@ -0,0 +1,79 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandFrame, TrackedHand } from '../types';
+import { classifyPose } from './gestures';
+
+const HAND_COLORS: Record<TrackedHand['handedness'], string> = {
+  Left: '#22d3ee',
+  Right: '#f472b6'
+};
+
+// Draws the 21-point skeletons over a mirrored, object-cover video of size videoWidth x videoHeight
+export const drawHandOverlay = (
+  ctx: CanvasRenderingContext2D,
+  hands: TrackedHand[],
+  videoWidth: number,
+  videoHeight: number
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (videoWidth === 0 || videoHeight === 0) return;
+
+  // Same crop as CSS object-cover, then mirrored like the preview
+  const scale = Math.max(width / videoWidth, height / videoHeight);
+  const offsetX = (width - videoWidth * scale) / 2;
+  const offsetY = (height - videoHeight * scale) / 2;
+  const toX = (x: number) => width - (offsetX + x * videoWidth * scale);
+  const toY = (y: number) => offsetY + y * videoHeight * scale;
+  const unit = width / 200;
+
+  for (const hand of hands) {
+    const { landmarks } = hand;
+    const color = HAND_COLORS[hand.handedness];
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = unit;
+    ctx.beginPath();
+    for (const { start, end } of HandLandmarker.HAND_CONNECTIONS) {
+      ctx.moveTo(toX(landmarks[start].x), toY(landmarks[start].y));
+      ctx.lineTo(toX(landmarks[end].x), toY(landmarks[end].y));
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = '#fff';
+    for (const l of landmarks) {
+      ctx.beginPath();
+      ctx.arc(toX(l.x), toY(l.y), unit * 1.2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const pose = classifyPose(hand);
+    const label = `${hand.handedness} ${hand.score.toFixed(2)}${pose ? ` · ${pose}` : ''}`;
+    ctx.font = `${unit * 6}px sans-serif`;
+    ctx.fillStyle = color;
+    ctx.fillText(label, toX(landmarks[0].x) + unit * 3, toY(landmarks[0].y) + unit * 8);
+  }
+};
+
+export interface DetectionStats {
+  fps: number;      // detections per second over the last second
+  latency: number;  // mean ms per detection over the same window
+}
+
+// Rolling one-second window over incoming frames
+export const createDetectionStats = () => {
+  let entries: { t: number; latency: number }[] = [];
+
+  return {
+    add: (frame: HandFrame) => {
+      entries.push({ t: frame.timestamp, latency: frame.latency ?? 0 });
+      entries = entries.filter((entry) => frame.timestamp - entry.t <= 1000);
+    },
+    read: (now = performance.now()): DetectionStats => {
+      const recent = entries.filter((entry) => now - entry.t <= 1000);
+      return {
+        fps: recent.length,
+        latency: recent.length > 0 ? recent.reduce((sum, entry) => sum + entry.latency, 0) / recent.length : 0
+      };
+    }
+  };
+};
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MEDIAPIPE_WASM_URL?: string;
+  readonly VITE_HAND_MODEL_URL?: string;
+}
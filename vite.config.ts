@@ -1,7 +1,44 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+
+// Serves MediaPipe's WASM runtime from node_modules in dev and copies it into the
+// build, so it always matches the installed @mediapipe/tasks-vision version.
+// Files from `npm run fetch-assets` that are missing get a 404 instead of the
+// SPA fallback, so the app can tell and fall back to a CDN.
+const localAssets = (): Plugin => ({
+  name: 'local-assets',
+  configureServer(server) {
+    server.middlewares.use('/mediapipe/wasm', (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename((req.url ?? '').split('?')[0]));
+      if (!fs.existsSync(file)) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+    server.middlewares.use((req, res, next) => {
+      const url = (req.url ?? '').split('?')[0];
+      if (/^\/(models|vendor)\//.test(url) && !fs.existsSync(path.join(__dirname, 'public', url))) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      next();
+    });
+  },
+  generateBundle() {
+    for (const name of fs.readdirSync(MEDIAPIPE_WASM_DIR)) {
+      this.emitFile({
+        type: 'asset',
+        fileName: `mediapipe/wasm/${name}`,
+        source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, name))
+      });
+    }
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +46,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), localAssets()],
+      // The hand detection worker is a module worker (it imports MediaPipe's ES module build)
+      worker: {
+        format: 'es'
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)